@@ -0,0 +1,284 @@
+/**
+ * Anthropic Messages API translation.
+ *
+ * Converts our OpenAI-shaped ChatMessage / ToolDefinition structures into
+ * Messages API requests and maps its SSE event stream back onto StreamEvents.
+ *
+ * Reference: https://docs.anthropic.com/en/api/messages-streaming
+ */
+
+import { Injectable } from '@angular/core'
+import { AIProviderAdapter, AIProviderConfig, AIRequest } from '../api'
+import type { ChatMessage, ToolDefinition } from '../ai.service'
+import { EventType, StreamEvent, ToolCallRequest, TokensSummary } from '../streamEvents'
+import { readSSEData } from '../sse'
+
+/** Value sent in the `anthropic-version` header */
+export const ANTHROPIC_VERSION = '2023-06-01'
+
+interface AnthropicContentBlock {
+    type: 'text' | 'tool_use' | 'tool_result'
+    text?: string
+    id?: string
+    name?: string
+    input?: any
+    tool_use_id?: string
+    content?: string
+}
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant'
+    content: AnthropicContentBlock[]
+}
+
+export interface AnthropicRequest {
+    system?: string
+    messages: AnthropicMessage[]
+    tools?: {
+        name: string
+        description: string
+        input_schema: any
+    }[]
+}
+
+function parseToolArguments (args: string): any {
+    try {
+        return JSON.parse(args || '{}')
+    } catch {
+        return {}
+    }
+}
+
+/**
+ * Translate chat history into a Messages API request.
+ *
+ * - `system` messages are hoisted into the top-level `system` field
+ * - assistant `tool_calls` become `tool_use` content blocks
+ * - `tool` messages become `tool_result` blocks inside a user turn
+ * - consecutive turns with the same role are merged, since the API
+ *   requires user/assistant alternation
+ */
+export function toAnthropicRequest (messages: ChatMessage[], tools: ToolDefinition[]): AnthropicRequest {
+    const systemParts: string[] = []
+    const result: AnthropicMessage[] = []
+
+    const append = (role: 'user' | 'assistant', blocks: AnthropicContentBlock[]) => {
+        if (!blocks.length) {
+            return
+        }
+        const last = result[result.length - 1] as AnthropicMessage | undefined
+        if (last?.role === role) {
+            last.content.push(...blocks)
+        } else {
+            result.push({ role, content: blocks })
+        }
+    }
+
+    for (const msg of messages) {
+        switch (msg.role) {
+            case 'system':
+                if (msg.content) {
+                    systemParts.push(msg.content)
+                }
+                break
+
+            case 'user':
+                append('user', [{ type: 'text', text: msg.content ?? '' }])
+                break
+
+            case 'assistant': {
+                const blocks: AnthropicContentBlock[] = []
+                if (msg.content) {
+                    blocks.push({ type: 'text', text: msg.content })
+                }
+                for (const tc of msg.tool_calls ?? []) {
+                    blocks.push({
+                        type: 'tool_use',
+                        id: tc.id,
+                        name: tc.function.name,
+                        input: parseToolArguments(tc.function.arguments),
+                    })
+                }
+                append('assistant', blocks)
+                break
+            }
+
+            case 'tool':
+                append('user', [{
+                    type: 'tool_result',
+                    tool_use_id: msg.tool_call_id,
+                    content: msg.content ?? '',
+                }])
+                break
+        }
+    }
+
+    const request: AnthropicRequest = { messages: result }
+    if (systemParts.length) {
+        request.system = systemParts.join('\n\n')
+    }
+    if (tools.length) {
+        request.tools = tools.map(t => ({
+            name: t.function.name,
+            description: t.function.description,
+            input_schema: t.function.parameters,
+        }))
+    }
+    return request
+}
+
+/**
+ * Extract the text of a non-streaming Messages API response.
+ */
+export function getAnthropicResponseText (data: { content?: { type: string, text?: string }[] }): string {
+    const blocks = data.content ?? []
+    return blocks.filter(b => b.type === 'text').map(b => b.text).join('')
+}
+
+function *finish (toolCalls: Map<number, ToolCallRequest>): Generator<StreamEvent> {
+    for (const tc of toolCalls.values()) {
+        // Tools without parameters produce no input_json_delta at all
+        tc.function.arguments ||= '{}'
+        yield { type: EventType.ToolCall, value: tc }
+    }
+    yield { type: EventType.Finished, value: null }
+}
+
+/**
+ * Parse a Messages API SSE stream into StreamEvents.
+ *
+ * Event mapping:
+ * - message_start         → remembers input token counts
+ * - content_block_start   → opens a text or tool_use block
+ * - content_block_delta   → text_delta → Content, thinking_delta → Thought,
+ *                           input_json_delta → accumulated tool arguments
+ * - message_delta         → Usage (output tokens are final at this point)
+ * - message_stop          → ToolCall events + Finished
+ * - error                 → Error
+ */
+export async function *parseAnthropicStream (
+    response: Response,
+    signal?: AbortSignal,
+): AsyncGenerator<StreamEvent> {
+    const toolCalls = new Map<number, ToolCallRequest>()
+    let inputTokens = 0
+    let cachedTokens = 0
+
+    for await (const data of readSSEData(response, signal)) {
+        let event: any = null
+        try {
+            event = JSON.parse(data)
+        } catch {
+            continue
+        }
+
+        switch (event.type) {
+            case 'message_start': {
+                const usage = event.message?.usage ?? {}
+                cachedTokens = usage.cache_read_input_tokens ?? 0
+                inputTokens = (usage.input_tokens ?? 0) + cachedTokens + (usage.cache_creation_input_tokens ?? 0)
+                break
+            }
+
+            case 'content_block_start':
+                if (event.content_block?.type === 'tool_use') {
+                    toolCalls.set(event.index, {
+                        id: event.content_block.id,
+                        function: { name: event.content_block.name, arguments: '' },
+                    })
+                }
+                break
+
+            case 'content_block_delta': {
+                const delta = event.delta ?? {}
+                if (delta.type === 'text_delta' && delta.text) {
+                    yield { type: EventType.Content, value: delta.text }
+                } else if (delta.type === 'thinking_delta' && delta.thinking) {
+                    yield { type: EventType.Thought, value: delta.thinking }
+                } else if (delta.type === 'input_json_delta') {
+                    const pending = toolCalls.get(event.index)
+                    if (pending) {
+                        pending.function.arguments += delta.partial_json ?? ''
+                    }
+                }
+                break
+            }
+
+            case 'message_delta':
+                if (event.usage) {
+                    const completionTokens = event.usage.output_tokens ?? 0
+                    const usage: TokensSummary = {
+                        promptTokens: inputTokens,
+                        completionTokens,
+                        cachedTokens,
+                        totalTokens: inputTokens + completionTokens,
+                    }
+                    yield { type: EventType.Usage, value: usage }
+                }
+                break
+
+            case 'message_stop':
+                yield* finish(toolCalls)
+                return
+
+            case 'error':
+                yield { type: EventType.Error, value: `API error: ${event.error?.message ?? JSON.stringify(event.error)}` }
+                return
+        }
+    }
+
+    // Stream ended without message_stop — still yield accumulated tool calls
+    yield* finish(toolCalls)
+}
+
+/**
+ * Native Anthropic Messages API adapter: x-api-key header, `/messages` endpoint.
+ */
+@Injectable()
+export class AnthropicAdapter extends AIProviderAdapter {
+    id = 'anthropic'
+    name = 'Anthropic'
+    defaultBaseUrl = 'https://api.anthropic.com/v1/'
+    defaultModel = 'claude-sonnet-4-5'
+    weight = 4
+
+    getUrl (config: AIProviderConfig): string {
+        return config.baseUrl.endsWith('/messages') ? config.baseUrl : `${config.baseUrl}/messages`
+    }
+
+    getHeaders (config: AIProviderConfig): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'x-api-key': config.apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+            // Required for direct calls from the renderer process
+            'anthropic-dangerous-direct-browser-access': 'true',
+        }
+    }
+
+    buildBody (config: AIProviderConfig, request: AIRequest): any {
+        return {
+            model: config.model,
+            ...toAnthropicRequest(request.messages, request.tools),
+            max_tokens: request.maxTokens,
+            temperature: 0.7,
+            ...request.stream ? { stream: true } : {},
+        }
+    }
+
+    decodeResponse (data: { content?: { type: string, text?: string }[] }): string {
+        return getAnthropicResponseText(data)
+    }
+
+    decodeStream (response: Response, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+        return parseAnthropicStream(response, signal)
+    }
+
+    getModelsUrl (config: AIProviderConfig): string | null {
+        return `${config.baseUrl.replace(/\/messages$/, '')}/models`
+    }
+
+    decodeModels (data: { data?: { id: string }[] }): string[] {
+        return (data.data ?? []).map(m => m.id)
+    }
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@angular/core'
+import { AIProviderConfig } from '../api'
+import { OpenAICompatibleAdapter } from './openai'
+
+/**
+ * Azure OpenAI: api-key header, deployment in the path, api-version query param.
+ *
+ * baseUrl = endpoint e.g. https://xxx.cognitiveservices.azure.com
+ * deployment = deployment name e.g. gpt-4.1
+ */
+@Injectable()
+export class AzureOpenAIAdapter extends OpenAICompatibleAdapter {
+    id = 'azure'
+    name = 'Azure OpenAI'
+    defaultModel = 'gpt-4o-mini'
+    weight = 5
+
+    getUrl (config: AIProviderConfig): string {
+        const deployment = config.deployment || config.model
+        const apiVersion = config.apiVersion || '2024-12-01-preview'
+        return `${config.baseUrl}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`
+    }
+
+    /** Lists deployments rather than models — that is what requests are addressed to */
+    getModelsUrl (config: AIProviderConfig): string | null {
+        return `${config.baseUrl}/openai/deployments?api-version=2022-12-01`
+    }
+
+    getHeaders (config: AIProviderConfig): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'api-key': config.apiKey,
+        }
+    }
+}
@@ -0,0 +1,217 @@
+import { Injectable } from '@angular/core'
+import { AIProviderAdapter, AIProviderConfig, AIRequest } from '../api'
+import { EventType, StreamEvent, ToolCallRequest, TokensSummary } from '../streamEvents'
+import { readSSEData } from '../sse'
+import { ThinkSegment, ThinkTagSplitter } from '../thinkTags'
+
+interface ChatCompletionResponse {
+    choices?: {
+        message?: {
+            content?: string
+        }
+    }[]
+}
+
+interface ModelListResponse {
+    data?: { id: string }[]
+}
+
+/**
+ * Base adapter for OpenAI-compatible `/chat/completions` endpoints.
+ * Works with: OpenAI, Gemini, Ollama, DeepSeek, Groq, LiteLLM Proxy,
+ * and any OpenAI-compatible endpoint.
+ */
+export abstract class OpenAICompatibleAdapter extends AIProviderAdapter {
+    getUrl (config: AIProviderConfig): string {
+        return config.baseUrl.includes('/chat/completions') ? config.baseUrl : `${config.baseUrl}/chat/completions`
+    }
+
+    getHeaders (config: AIProviderConfig): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+        if (config.apiKey) {
+            headers['Authorization'] = `Bearer ${config.apiKey}`
+        }
+        return headers
+    }
+
+    buildBody (config: AIProviderConfig, request: AIRequest): any {
+        return {
+            model: config.model,
+            messages: request.messages,
+            ...request.tools.length ? { tools: request.tools } : {},
+            ...request.stream ? { stream: true, stream_options: { include_usage: true } } : {},
+            max_tokens: request.maxTokens,
+            temperature: 0.7,
+        }
+    }
+
+    decodeResponse (data: ChatCompletionResponse): string {
+        return data.choices?.[0]?.message?.content ?? ''
+    }
+
+    getModelsUrl (config: AIProviderConfig): string | null {
+        return `${config.baseUrl.replace(/\/chat\/completions$/, '')}/models`
+    }
+
+    decodeModels (data: ModelListResponse): string[] {
+        // Gemini's OpenAI-compatible listing prefixes ids with "models/"
+        return (data.data ?? []).map(m => m.id.replace(/^models\//, ''))
+    }
+
+    /**
+     * Parse an SSE stream response into StreamEvents.
+     *
+     * Reasoning is surfaced as EventType.Thought from any of:
+     * - `delta.reasoning_content` (DeepSeek-R1 and most OpenAI-compatible servers)
+     * - `delta.reasoning` (OpenRouter-style)
+     * - inline `<think>…</think>` segments in `delta.content` (Ollama/Qwen)
+     */
+    async *decodeStream (
+        response: Response,
+        signal?: AbortSignal,
+    ): AsyncGenerator<StreamEvent> {
+        const pendingToolCalls: Map<number, ToolCallRequest> = new Map()
+        const thinkSplitter = new ThinkTagSplitter()
+
+        for await (const data of readSSEData(response, signal)) {
+            if (data === '[DONE]') {
+                yield* this.thinkSegmentsToEvents(thinkSplitter.flush())
+                for (const tc of pendingToolCalls.values()) {
+                    yield { type: EventType.ToolCall, value: tc }
+                }
+                yield { type: EventType.Finished, value: null }
+                return
+            }
+
+            let chunk: any
+            try {
+                chunk = JSON.parse(data)
+            } catch {
+                continue
+            }
+
+            // Usage data (maps to gemini-cli's chunk.usageMetadata)
+            if (chunk.usage) {
+                const usage: TokensSummary = {
+                    promptTokens: chunk.usage.prompt_tokens ?? 0,
+                    completionTokens: chunk.usage.completion_tokens ?? 0,
+                    cachedTokens: chunk.usage.prompt_tokens_details?.cached_tokens ?? 0,
+                    totalTokens: chunk.usage.total_tokens ?? 0,
+                }
+                yield { type: EventType.Usage, value: usage }
+            }
+
+            // API-level error in chunk (non-SSE error response)
+            if (chunk.error) {
+                yield { type: EventType.Error, value: `API error: ${chunk.error.message || JSON.stringify(chunk.error)}` }
+                return
+            }
+
+            const choice = chunk.choices?.[0]
+            const delta = choice?.delta
+
+            if (!delta) continue
+
+            // Reasoning chunk
+            const reasoning = delta.reasoning_content ?? delta.reasoning
+            if (typeof reasoning === 'string' && reasoning) {
+                yield { type: EventType.Thought, value: reasoning }
+            }
+
+            // Text content chunk (may carry inline <think> segments)
+            if (delta.content) {
+                yield* this.thinkSegmentsToEvents(thinkSplitter.push(delta.content))
+            }
+
+            // Tool call fragments — accumulate and splice
+            if (delta.tool_calls) {
+                for (const tc of delta.tool_calls) {
+                    const idx = tc.index ?? 0
+                    if (!pendingToolCalls.has(idx)) {
+                        pendingToolCalls.set(idx, {
+                            id: tc.id || '',
+                            function: { name: '', arguments: '' },
+                        })
+                    }
+                    const pending = pendingToolCalls.get(idx)!
+                    if (tc.id) {
+                        pending.id = tc.id
+                    }
+                    if (tc.function?.name) {
+                        pending.function.name += tc.function.name
+                    }
+                    if (tc.function?.arguments) {
+                        pending.function.arguments += tc.function.arguments
+                    }
+                }
+            }
+        }
+
+        // Stream ended without [DONE] — still yield accumulated tool calls
+        yield* this.thinkSegmentsToEvents(thinkSplitter.flush())
+        for (const tc of pendingToolCalls.values()) {
+            yield { type: EventType.ToolCall, value: tc }
+        }
+        yield { type: EventType.Finished, value: null }
+    }
+
+    private *thinkSegmentsToEvents (segments: ThinkSegment[]): Generator<StreamEvent> {
+        for (const segment of segments) {
+            yield { type: segment.thought ? EventType.Thought : EventType.Content, value: segment.text }
+        }
+    }
+}
+
+@Injectable()
+export class OpenAIAdapter extends OpenAICompatibleAdapter {
+    id = 'openai'
+    name = 'OpenAI'
+    defaultBaseUrl = 'https://api.openai.com/v1/'
+    defaultModel = 'gpt-4o-mini'
+    weight = 0
+}
+
+@Injectable()
+export class GeminiAdapter extends OpenAICompatibleAdapter {
+    id = 'gemini'
+    name = 'Google Gemini'
+    defaultBaseUrl = 'https://generativelanguage.googleapis.com/v1beta/openai/'
+    defaultModel = 'gemini-2.0-flash'
+    weight = 1
+}
+
+@Injectable()
+export class OllamaAdapter extends OpenAICompatibleAdapter {
+    id = 'ollama'
+    name = 'Ollama (local)'
+    defaultBaseUrl = 'http://localhost:11434/v1/'
+    defaultModel = 'llama3.2'
+    requiresApiKey = false
+    weight = 2
+
+    /** Ollama's native listing lives outside the OpenAI-compatible /v1 prefix */
+    getModelsUrl (config: AIProviderConfig): string | null {
+        return `${config.baseUrl.replace(/\/v1$/, '')}/api/tags`
+    }
+
+    decodeModels (data: any): string[] { // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+        return (data.models ?? []).map((m: { name: string }) => m.name)
+    }
+}
+
+@Injectable()
+export class DeepSeekAdapter extends OpenAICompatibleAdapter {
+    id = 'deepseek'
+    name = 'DeepSeek'
+    defaultBaseUrl = 'https://api.deepseek.com/v1/'
+    defaultModel = 'deepseek-chat'
+    weight = 3
+}
+
+/** Any OpenAI-compatible endpoint — the user supplies base URL and model */
+@Injectable()
+export class CustomAdapter extends OpenAICompatibleAdapter {
+    id = 'custom'
+    name = 'Custom'
+    weight = 100
+}
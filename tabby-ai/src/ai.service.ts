@@ -1,12 +1,15 @@
-import { Injectable } from '@angular/core'
+import { Inject, Injectable } from '@angular/core'
 import { ConfigService } from 'tabby-core'
-import { EventType, StreamEvent, ToolCallRequest, TokensSummary } from './streamEvents'
-import { PROVIDER_PRESETS } from './providers'
+import { EventType, ProviderUsage, StreamEvent } from './streamEvents'
+import { AIConfiguration, AIProviderAdapter, AIProviderConfig, AIRequestTarget } from './api'
+import { Cassette, CassetteInteraction, CassetteMode } from './cassette'
+import { ContextWindow, getModelContextWindow } from './contextWindow'
+import { getDataDir } from './paths'
+import * as path from 'path'
 
 /**
- * OpenAI-compatible chat completion request/response types.
- * Works with: OpenAI, Gemini, Ollama, DeepSeek, Azure OpenAI, Groq,
- * LiteLLM Proxy, and any OpenAI-compatible endpoint.
+ * Chat completion request types, in OpenAI's shape.
+ * Each AIProviderAdapter translates them into its own wire format.
  */
 
 export interface ChatMessage {
@@ -25,58 +28,196 @@ export interface ToolDefinition {
     }
 }
 
-interface ChatCompletionResponse {
-    choices?: {
-        message?: {
-            content?: string
-        }
-    }[]
-    error?: { message: string }
+/** Options of AIService.streamWithTools() */
+export interface StreamOptions {
+    signal?: AbortSignal
+    /** Configuration and model to use, the default configuration when omitted */
+    target?: AIRequestTarget
+}
+
+/** Outcome of AIService.testConnection() */
+export interface ConnectionTestResult {
+    ok: boolean
+    /** Time until the first streamed event arrived */
+    latencyMs: number
+    error?: string
+    /** The endpoint rejected the credentials (HTTP 401/403) */
+    authError: boolean
+    /** The endpoint accepted a request carrying tool definitions */
+    supportsTools: boolean
+    /** The stream reported token usage */
+    streamingUsage: boolean
+}
+
+/** Trivial tool used to probe tool-calling support */
+const PROBE_TOOL: ToolDefinition = {
+    type: 'function',
+    function: {
+        name: 'get_current_time',
+        description: 'Returns the current time.',
+        parameters: { type: 'object', properties: {} },
+    },
+}
+
+interface ResolvedConfig {
+    adapter: AIProviderAdapter
+    config: AIProviderConfig
+    url: string
+    headers: Record<string, string>
+    error?: string
+}
+
+/** A request streamed from one configuration */
+interface ConfigRequest {
+    messages: ChatMessage[]
+    tools: ToolDefinition[]
+    signal?: AbortSignal
+    /** Record the exchange when a cassette is recording */
+    record: boolean
 }
 
 @Injectable()
 export class AIService {
+    private cassette: Cassette | null = null
+
     constructor (
         private config: ConfigService,
+        @Inject(AIProviderAdapter) private adapters: AIProviderAdapter[],
     ) {}
 
-    /** Resolve API config from settings */
-    private resolveConfig (): { url: string; headers: Record<string, string>; model: string; error?: string } {
+    /** All registered provider adapters, in display order */
+    getAdapters (): AIProviderAdapter[] {
+        return this.config.enabledServices(this.adapters).sort((a, b) => a.weight - b.weight)
+    }
+
+    getAdapter (id: string): AIProviderAdapter | null {
+        return this.getAdapters().find(a => a.id === id) ?? null
+    }
+
+    /** The default configuration followed by all named ones */
+    getConfigurations (): AIConfiguration[] {
         const aiConfig = this.config.store.ai
-        const provider = aiConfig?.provider || 'gemini'
-        const preset = PROVIDER_PRESETS[provider] || PROVIDER_PRESETS.custom
+        const defaultConfiguration: AIConfiguration = {
+            id: '',
+            name: 'Default',
+            provider: aiConfig?.provider || 'gemini',
+            baseUrl: aiConfig?.baseUrl || '',
+            apiKey: aiConfig?.apiKey || '',
+            model: aiConfig?.model || '',
+            deployment: aiConfig?.deployment || '',
+            apiVersion: aiConfig?.apiVersion || '',
+        }
+        return [defaultConfiguration, ...aiConfig?.configurations ?? []]
+    }
+
+    /** Look up a configuration by id, falling back to the default one */
+    getConfiguration (id?: string | null): AIConfiguration {
+        const all = this.getConfigurations()
+        return all.find(c => id && c.id === id) ?? all[0]
+    }
+
+    /** Context window for requests to `target`, sized by `ai.contextWindow` or the model */
+    getContextWindow (target: AIRequestTarget = {}): ContextWindow {
+        const { config } = this.resolveConfig(target)
+        const model = config.model || config.deployment
+        const size = this.config.store.ai?.contextWindow || getModelContextWindow(model)
+        return new ContextWindow(model, size, this.config.store.ai?.maxToolResultTokens ?? 8000)
+    }
 
-        let baseUrl = (aiConfig?.baseUrl || preset.baseUrl || '').replace(/\/+$/, '')
-        if (!baseUrl) {
-            return { url: '', headers: {}, model: '', error: `No API base URL configured for provider "${provider}". Go to Settings → AI.` }
+    /** Resolve API config from settings */
+    private resolveConfig (target: AIRequestTarget = {}): ResolvedConfig {
+        const configuration = this.getConfiguration(target.configurationId)
+        const provider = configuration.provider || 'gemini'
+        const adapter = this.getAdapter(provider) ?? this.getAdapter('custom')!
+
+        const config: AIProviderConfig = {
+            provider,
+            baseUrl: (configuration.baseUrl || adapter.defaultBaseUrl).replace(/\/+$/, ''),
+            apiKey: configuration.apiKey || '',
+            model: target.model ?? (configuration.model || adapter.defaultModel),
+            deployment: configuration.deployment || '',
+            apiVersion: configuration.apiVersion || '',
         }
 
-        const apiKey = aiConfig?.apiKey || ''
-        const model = aiConfig?.model || preset.defaultModel
+        if (!config.baseUrl) {
+            return { adapter, config, url: '', headers: {}, error: `No API base URL configured for provider "${provider}". Go to Settings → AI.` }
+        }
 
-        if (!apiKey && provider !== 'ollama') {
-            return { url: '', headers: {}, model: '', error: 'No API key configured. Go to Settings → AI to set your API key.' }
+        if (!config.apiKey && adapter.requiresApiKey) {
+            return { adapter, config, url: '', headers: {}, error: 'No API key configured. Go to Settings → AI to set your API key.' }
         }
 
-        const headers: Record<string, string> = { 'Content-Type': 'application/json' }
-
-        if (provider === 'azure') {
-            // Azure OpenAI: api-key header, api-version query param
-            // baseUrl = endpoint e.g. https://xxx.cognitiveservices.azure.com
-            // deployment = deployment name e.g. gpt-4.1
-            headers['api-key'] = apiKey
-            const deployment = aiConfig?.deployment || model
-            const apiVersion = aiConfig?.apiVersion || '2024-12-01-preview'
-            const url = `${baseUrl}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`
-            return { url, headers, model }
+        return {
+            adapter,
+            config,
+            url: adapter.getUrl(config),
+            headers: adapter.getHeaders(config),
         }
+    }
 
-        if (apiKey) {
-            headers['Authorization'] = `Bearer ${apiKey}`
+    /**
+     * Fetch the model (or deployment) names offered by the configured provider.
+     * Throws with a user-presentable message on failure.
+     */
+    async listModels (target: AIRequestTarget = {}): Promise<string[]> {
+        const cfg = this.resolveConfig(target)
+        if (cfg.error) {
+            throw new Error(cfg.error)
+        }
+        const url = cfg.adapter.getModelsUrl(cfg.config)
+        if (!url) {
+            throw new Error(`${cfg.adapter.name} does not support listing models.`)
         }
 
-        const endpoint = baseUrl.includes('/chat/completions') ? baseUrl : `${baseUrl}/chat/completions`
-        return { url: endpoint, headers, model }
+        const response = await fetch(url, { headers: cfg.headers })
+        if (!response.ok) {
+            throw new Error(`API error (${response.status}): ${await response.text()}`)
+        }
+        return cfg.adapter.decodeModels(await response.json()).sort()
+    }
+
+    /**
+     * Perform a minimal streaming completion against the configuration of
+     * `target` alone — no fallbacks, no cassette — and report what the
+     * endpoint supports.
+     */
+    async testConnection (target: AIRequestTarget = {}): Promise<ConnectionTestResult> {
+        const messages: ChatMessage[] = [{ role: 'user', content: 'Reply with the single word OK.' }]
+
+        let result = await this.probe(messages, [PROBE_TOOL], target)
+        result.supportsTools = result.ok
+
+        // A 400 may only mean the model can't take tools — retry without them
+        if (!result.ok && !result.authError && result.error?.includes('(400)')) {
+            const withoutTools = await this.probe(messages, [], target)
+            if (withoutTools.ok) {
+                result = withoutTools
+            }
+        }
+        return result
+    }
+
+    private async probe (messages: ChatMessage[], tools: ToolDefinition[], target: AIRequestTarget): Promise<ConnectionTestResult> {
+        const result: ConnectionTestResult = { ok: true, latencyMs: 0, authError: false, supportsTools: false, streamingUsage: false }
+        const cfg = this.resolveConfig(target)
+        if (cfg.error) {
+            return { ...result, ok: false, error: cfg.error }
+        }
+        const start = Date.now()
+
+        for await (const event of this.streamFromConfig(cfg, { messages, tools, record: false })) {
+            result.latencyMs ||= Date.now() - start
+            if (event.type === EventType.Usage) {
+                result.streamingUsage = true
+            }
+            if (event.type === EventType.Error) {
+                const status = /API error \((\d+)\)/.exec(event.value)?.[1]
+                result.ok = false
+                result.error = event.value
+                result.authError = status === '401' || status === '403'
+            }
+        }
+        return result
     }
 
     /**
@@ -97,12 +238,7 @@ export class AIService {
             const response = await fetch(cfg.url, {
                 method: 'POST',
                 headers: cfg.headers,
-                body: JSON.stringify({
-                    model: cfg.model,
-                    messages,
-                    max_tokens: 2048,
-                    temperature: 0.7,
-                }),
+                body: JSON.stringify(cfg.adapter.buildBody(cfg.config, { messages, tools: [], stream: false, maxTokens: 2048 })),
             })
 
             if (!response.ok) {
@@ -110,12 +246,12 @@ export class AIService {
                 return `API error (${response.status}): ${text}`
             }
 
-            const data: ChatCompletionResponse = await response.json()
+            const data = await response.json()
             if (data.error) {
                 return `API error: ${data.error.message}`
             }
 
-            return data.choices?.[0]?.message?.content || 'No response from AI.'
+            return cfg.adapter.decodeResponse(data) || 'No response from AI.'
         } catch (err: any) {
             return `Request failed: ${err.message}`
         }
@@ -186,18 +322,88 @@ export class AIService {
      * - HTTP 429/5xx: retry with linear backoff
      * - HTTP 400/401/403/404: no retry (permanent errors)
      * - AbortError: no retry
+     *
+     * `target` picks the named configuration and model; the default
+     * configuration is used when omitted.
+     *
+     * Fallback: when a configuration fails before producing any output
+     * (permanent error, retries exhausted, network failure), the same request
+     * is replayed on the next entry of `ai.fallbackConfigurations`, announced
+     * with a Retry event carrying `{ fallback, error }`. Usage events are
+     * tagged with the provider that actually served the request.
+     *
+     * With `ai.cassette.mode` set to 'replay', responses come from the
+     * cassette file instead of the network.
      */
-    async *streamWithTools (
-        messages: ChatMessage[],
-        tools: ToolDefinition[],
-        signal?: AbortSignal,
-    ): AsyncGenerator<StreamEvent> {
-        const cfg = this.resolveConfig()
-        if (cfg.error) {
-            yield { type: EventType.Error, value: cfg.error }
+    async *streamWithTools (messages: ChatMessage[], tools: ToolDefinition[], options: StreamOptions = {}): AsyncGenerator<StreamEvent> {
+        const { signal, target = {} } = options
+        const cassette = this.getCassette()
+        if (cassette?.mode === 'replay') {
+            yield* this.streamFromCassette(cassette, messages, signal)
             return
         }
 
+        const chain = this.getFallbackChain(target)
+
+        for (let i = 0; i < chain.length; i++) {
+            const cfg = this.resolveConfig(chain[i])
+            const isLast = i === chain.length - 1
+            let producedOutput = false
+            let failure: string | null = cfg.error ?? null
+
+            if (!failure) {
+                for await (const event of this.streamFromConfig(cfg, { messages, tools, signal, record: true })) {
+                    if (event.type === EventType.Error && !producedOutput && !isLast && !signal?.aborted) {
+                        failure = event.value
+                        break
+                    }
+                    if (event.type === EventType.Usage) {
+                        const usage: ProviderUsage = { ...event.value, provider: cfg.config.provider, model: cfg.config.model || cfg.config.deployment }
+                        yield { type: EventType.Usage, value: usage }
+                        continue
+                    }
+                    if (event.type === EventType.Content || event.type === EventType.Thought || event.type === EventType.ToolCall) {
+                        producedOutput = true
+                    }
+                    yield event
+                }
+                if (!failure) {
+                    return
+                }
+            }
+
+            if (isLast) {
+                yield { type: EventType.Error, value: failure }
+                return
+            }
+            const next = this.getConfiguration(chain[i + 1].configurationId)
+            yield { type: EventType.Retry, value: { fallback: next.name, error: failure } }
+        }
+    }
+
+    /**
+     * The primary target followed by the configured fallbacks, without duplicates.
+     * The session's model override only applies to the primary configuration.
+     */
+    private getFallbackChain (target: AIRequestTarget): AIRequestTarget[] {
+        const primaryId = this.getConfiguration(target.configurationId).id
+        const known = new Set(this.getConfigurations().map(c => c.id))
+        const chain: AIRequestTarget[] = [target]
+        const seen = new Set([primaryId])
+        for (const id of this.config.store.ai?.fallbackConfigurations ?? []) {
+            if (known.has(id) && !seen.has(id)) {
+                seen.add(id)
+                chain.push({ configurationId: id })
+            }
+        }
+        return chain
+    }
+
+    /**
+     * Stream a request from one configuration, with retries.
+     */
+    private async *streamFromConfig (cfg: ResolvedConfig, request: ConfigRequest): AsyncGenerator<StreamEvent> {
+        const { messages, tools, signal } = request
         const { maxAttempts, initialDelayMs } = AIService.RETRY_OPTIONS
         let lastError: string | null = null
 
@@ -212,20 +418,17 @@ export class AIService {
             // === Connection phase (fetch) ===
             let response: Response
             try {
+                const body = cfg.adapter.buildBody(cfg.config, { messages, tools, stream: true, maxTokens: 4096 })
                 response = await fetch(cfg.url, {
                     method: 'POST',
                     headers: cfg.headers,
                     signal,
-                    body: JSON.stringify({
-                        model: cfg.model,
-                        messages,
-                        tools,
-                        stream: true,
-                        stream_options: { include_usage: true },
-                        max_tokens: 4096,
-                        temperature: 0.7,
-                    }),
+                    body: JSON.stringify(body),
                 })
+                const cassette = request.record ? this.getCassette() : null
+                if (cassette?.mode === 'record') {
+                    response = cassette.record({ provider: cfg.adapter.id, url: cfg.url, request: body, messages }, response)
+                }
             } catch (err: any) {
                 if (err.name === 'AbortError' || signal?.aborted) {
                     yield { type: EventType.Error, value: 'Request aborted' }
@@ -256,7 +459,7 @@ export class AIService {
             }
 
             // === Stream phase (SSE parsing) ===
-            yield* this.parseSSEStream(response, signal)
+            yield* cfg.adapter.decodeStream(response, signal)
             return
         }
 
@@ -265,109 +468,62 @@ export class AIService {
     }
 
     /**
-     * Parse an SSE stream response into StreamEvents.
-     * Extracted from streamWithTools for retry clarity.
+     * Serve a recorded response, decoded by the adapter that received it.
      */
-    private async *parseSSEStream (
-        response: Response,
+    private async *streamFromCassette (
+        cassette: Cassette,
+        messages: ChatMessage[],
         signal?: AbortSignal,
     ): AsyncGenerator<StreamEvent> {
-        const reader = response.body!.getReader()
-        const decoder = new TextDecoder()
-        let sseBuffer = ''
-        const pendingToolCalls: Map<number, ToolCallRequest> = new Map()
-
+        let interaction: CassetteInteraction | null = null
         try {
-            while (true) {
-                const { done, value } = await reader.read()
-                if (done) break
-
-                sseBuffer += decoder.decode(value, { stream: true })
-
-                const lines = sseBuffer.split('\n')
-                sseBuffer = lines.pop() || ''
-
-                for (const line of lines) {
-                    const trimmed = line.trim()
-                    if (!trimmed.startsWith('data: ')) {
-                        continue
-                    }
-                    const data = trimmed.slice(6).trim()
-
-                    if (data === '[DONE]') {
-                        for (const tc of pendingToolCalls.values()) {
-                            yield { type: EventType.ToolCall, value: tc }
-                        }
-                        yield { type: EventType.Finished, value: null }
-                        return
-                    }
-
-                    let chunk: any
-                    try {
-                        chunk = JSON.parse(data)
-                    } catch {
-                        continue
-                    }
-
-                    // Usage data (maps to gemini-cli's chunk.usageMetadata)
-                    if (chunk.usage) {
-                        const usage: TokensSummary = {
-                            promptTokens: chunk.usage.prompt_tokens ?? 0,
-                            completionTokens: chunk.usage.completion_tokens ?? 0,
-                            cachedTokens: chunk.usage.prompt_tokens_details?.cached_tokens ?? 0,
-                            totalTokens: chunk.usage.total_tokens ?? 0,
-                        }
-                        yield { type: EventType.Usage, value: usage }
-                    }
-
-                    // API-level error in chunk (non-SSE error response)
-                    if (chunk.error) {
-                        yield { type: EventType.Error, value: `API error: ${chunk.error.message || JSON.stringify(chunk.error)}` }
-                        return
-                    }
-
-                    const choice = chunk.choices?.[0]
-                    const delta = choice?.delta
+            interaction = await cassette.find(messages)
+        } catch (err: any) {
+            yield { type: EventType.Error, value: err.message }
+            return
+        }
+        if (!interaction) {
+            yield { type: EventType.Error, value: `No recorded response in ${cassette.file}` }
+            return
+        }
 
-                    if (!delta) continue
+        const adapter = this.getAdapter(interaction.provider)
+        if (!adapter) {
+            yield { type: EventType.Error, value: `The cassette was recorded with unknown provider "${interaction.provider}"` }
+            return
+        }
 
-                    // Text content chunk
-                    if (delta.content) {
-                        yield { type: EventType.Content, value: delta.content }
-                    }
+        const response = cassette.toResponse(interaction)
+        if (!response.ok) {
+            yield { type: EventType.Error, value: `API error (${response.status}) [${interaction.url}]: ${await response.text()}` }
+            return
+        }
 
-                    // Tool call fragments — accumulate and splice
-                    if (delta.tool_calls) {
-                        for (const tc of delta.tool_calls) {
-                            const idx = tc.index ?? 0
-                            if (!pendingToolCalls.has(idx)) {
-                                pendingToolCalls.set(idx, {
-                                    id: tc.id || '',
-                                    function: { name: '', arguments: '' },
-                                })
-                            }
-                            const pending = pendingToolCalls.get(idx)!
-                            if (tc.id) {
-                                pending.id = tc.id
-                            }
-                            if (tc.function?.name) {
-                                pending.function.name += tc.function.name
-                            }
-                            if (tc.function?.arguments) {
-                                pending.function.arguments += tc.function.arguments
-                            }
-                        }
-                    }
-                }
+        for await (const event of adapter.decodeStream(response, signal)) {
+            if (event.type === EventType.Usage) {
+                const usage: ProviderUsage = { ...event.value, provider: adapter.id, model: interaction.request?.model ?? '' }
+                yield { type: EventType.Usage, value: usage }
+                continue
             }
-        } finally {
-            reader.releaseLock()
+            yield event
         }
+    }
 
-        // Stream ended without [DONE] — still yield accumulated tool calls
-        for (const tc of pendingToolCalls.values()) {
-            yield { type: EventType.ToolCall, value: tc }
+    /**
+     * The cassette selected by `ai.cassette`, or null when recording and
+     * replay are off. Kept across requests so replay progresses through
+     * the recording.
+     */
+    private getCassette (): Cassette | null {
+        const mode: CassetteMode = this.config.store.ai?.cassette?.mode ?? 'off'
+        if (mode === 'off') {
+            this.cassette = null
+            return null
+        }
+        const file = this.config.store.ai.cassette.path || path.join(getDataDir(), 'cassette.json')
+        if (this.cassette?.mode !== mode || this.cassette.file !== file) {
+            this.cassette = new Cassette(mode, file)
         }
-        yield { type: EventType.Finished, value: null }
+        return this.cassette
     }
 }
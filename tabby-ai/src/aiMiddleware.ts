@@ -8,59 +8,268 @@
  */
 
 import colors from 'ansi-colors'
+import { Injector } from '@angular/core'
+import { Observable, Subject } from 'rxjs'
 import { ConfigService } from 'tabby-core'
-import { SessionMiddleware } from 'tabby-terminal'
+import { BaseTerminalTabComponent, SessionMiddleware } from 'tabby-terminal'
 import { AIService, ChatMessage } from './ai.service'
-import { ContextCollector } from './contextCollector'
-import { AgentLoop } from './agentLoop'
+import { AICommandContext, AIRequestTarget, AISlashCommand, AIToolProvider } from './api'
+import { ChatEvent, ChatEventType } from './chatEvents'
+import { ContextCollector, withTerminalActivity } from './contextCollector'
+import { colorizePatchLine } from './diff'
+import { AIFileSystem } from './fileSystem'
+import { LineEditor } from './lineEditor'
+import { MarkdownRenderer } from './markdown'
+import { PermissionPolicy, PermissionRequest } from './permissions'
+import { executeInSession } from './sessionExecutor'
+import { AgentLoop, Approval } from './agentLoop'
+import { AIBudgetService } from './budget.service'
+import { AICheckpointService } from './checkpoints.service'
+import { compactHistory } from './compaction'
+import { AIConversationService, Conversation } from './conversations.service'
+import { AIMCPService } from './mcp.service'
+import { AIPromptHistoryService } from './promptHistory.service'
 import { TokensSummary } from './streamEvents'
 
+/** Diff lines shown at a time when confirming a file change */
+const DIFF_PAGE_LINES = 40
+
 const enum State {
     /** Normal mode — all input goes to shell */
-    NORMAL,
+    NORMAL = 'normal',
     /** Saw @ at line start, waiting for space or other char */
-    PENDING,
+    PENDING = 'pending',
     /** Collecting AI prompt text */
-    CAPTURING,
+    CAPTURING = 'capturing',
     /** Agent running — AI streaming response */
-    AGENT_STREAMING,
+    AGENT_STREAMING = 'agent_streaming',
     /** Agent paused — waiting for user to approve a command */
-    AGENT_CONFIRMING,
+    AGENT_CONFIRMING = 'agent_confirming',
+    /** Agent paused — typing why a command is rejected */
+    AGENT_REJECTING = 'agent_rejecting',
     /** Agent running — a shell command is executing */
-    AGENT_EXECUTING,
+    AGENT_EXECUTING = 'agent_executing',
+}
+
+export interface AIMiddlewareOptions {
+    /** Configuration picked by the tab's profile, null for the default one */
+    configurationId: string | null
+    /** Profile of the tab, recorded with its conversations */
+    profile: { id: string, name: string }
+    /** Saved conversation to continue, e.g. from the tab's recovery token */
+    conversationId: string | null
+    /** Show the chat panel of the tab */
+    openPanel: () => void
+    /** Output of the session, for running commands in it */
+    sessionOutput$: Observable<Buffer>
+    /** Where the agent's file tools and commands operate — the remote machine in SSH tabs */
+    files: AIFileSystem
+    /** Tab of the session, which tools may work with */
+    tab: BaseTerminalTabComponent<any>
 }
 
 export class AIMiddleware extends SessionMiddleware {
     private state = State.NORMAL
-    private promptBuffer = ''
+    private editor: LineEditor
+    private columns = 80
+    /** Renders the answer being streamed, null between answers */
+    private markdown: MarkdownRenderer | null = null
     private atLineStart = true
-    private abortController: AbortController | null = null
-    private confirmResolve: ((approved: boolean) => void) | null = null
+    private abortController = new AbortController()
+    private confirmResolve: ((approval: Approval) => void) | null = null
+    /** What the pending approval is for, null when none is pending */
+    private confirmation: PermissionRequest | null = null
+    /** Diff lines of the pending approval not shown in the terminal yet */
+    private diffRemaining: string[] = []
+    /** Reads the reason for a rejection */
+    private reasonEditor: LineEditor
+    private permissions: PermissionPolicy
+    /** A prompt or command is running, from either the terminal or the panel */
+    private busy = false
+    /** Output goes to the terminal — off while running a prompt from the panel */
+    private echo = true
+    private events = new Subject<ChatEvent>()
     private bannerShown = false
     private conversationHistory: ChatMessage[] = []
     private terminalCheckpoint = 0
     /** Session-level accumulated token usage — maps to gemini-cli's ModelMetrics.tokens */
     private sessionUsage: TokensSummary = { promptTokens: 0, completionTokens: 0, cachedTokens: 0, totalTokens: 0 }
+    private sessionCost = 0
+    /** When the current run of Thought events started, null outside of one */
+    private thinkingStartedAt: number | null = null
+    /** Model chosen with @/model — overrides the configuration's model for this session */
+    private modelOverride: string | null = null
+    private conversation: Conversation
+    /** Message count of a conversation restored on startup, shown in the banner */
+    private restoredCount = 0
+
+    private ai: AIService
+    private config: ConfigService
+    private budget: AIBudgetService
+    private checkpoints: AICheckpointService
+    private conversations: AIConversationService
+    private mcp: AIMCPService
+    private promptHistory: AIPromptHistoryService
+    private configurationId: string | null
+    private profile: { id: string, name: string }
+    private openPanel: () => void
+    private sessionOutput$: Observable<Buffer>
+    private files: AIFileSystem
+    private tab: BaseTerminalTabComponent<any>
+    /** Registered agent tools */
+    private tools: AIToolProvider[]
+    /** The running command was typed into the session, which shows its output already */
+    private commandInSession = false
+    /** Registered @/ commands, sorted by name */
+    private commands: AISlashCommand[]
 
     constructor (
-        private ai: AIService,
+        injector: Injector,
         private collector: ContextCollector,
-        private config: ConfigService,
+        options: AIMiddlewareOptions,
     ) {
         super()
+        this.ai = injector.get(AIService)
+        this.config = injector.get(ConfigService)
+        this.budget = injector.get(AIBudgetService)
+        this.checkpoints = injector.get(AICheckpointService)
+        this.conversations = injector.get(AIConversationService)
+        this.mcp = injector.get(AIMCPService)
+        this.promptHistory = injector.get(AIPromptHistoryService)
+        this.configurationId = options.configurationId
+        this.profile = options.profile
+        this.permissions = new PermissionPolicy(this.config, options.profile.id)
+        this.openPanel = options.openPanel
+        this.sessionOutput$ = options.sessionOutput$
+        this.files = options.files
+        this.tab = options.tab
+        this.tools = injector.get(AIToolProvider) as unknown as AIToolProvider[]
+        this.commands = [...injector.get(AISlashCommand) as unknown as AISlashCommand[]].sort((a, b) => a.name.localeCompare(b.name))
+
+        this.editor = new LineEditor({
+            write: data => this.outputToTerminal.next(Buffer.from(data)),
+            submit: text => this.startAgent(text),
+            cancel: () => this.cancelPrompt(),
+            complete: () => this.completeCommand(),
+        }, () => this.promptHistory.getEntries())
+        this.reasonEditor = new LineEditor({
+            write: data => this.outputToTerminal.next(Buffer.from(data)),
+            submit: reason => this.reject(reason.trim()),
+            cancel: () => {
+                this.state = State.AGENT_CONFIRMING
+                this.showConfirmationHint()
+            },
+            complete: () => null,
+        }, () => [])
+
+        this.conversation = this.conversations.create(options.profile, options.conversationId)
+        if (options.conversationId) {
+            this.restoreConversation(options.conversationId)
+        }
+    }
+
+    /** Id of the conversation held in this session, stored in recovery tokens */
+    get conversationId (): string {
+        return this.conversation.id
+    }
+
+    /** Terminal width changed — redraw an open prompt, wrap answers to fit */
+    resize (columns: number): void {
+        this.columns = columns
+        this.editor.resize(columns)
+        if (this.markdown) {
+            this.markdown.columns = columns
+        }
+    }
+
+    /** Shift+Enter was pressed; the Enter that follows adds a line to an open prompt */
+    notifyShiftEnter (): void {
+        if (this.state === State.CAPTURING) {
+            this.editor.expectNewline()
+        }
+    }
+
+    /** What happens in this session, for the chat panel */
+    get events$ (): Observable<ChatEvent> {
+        return this.events
+    }
+
+    /** Conversation history, without the system prompt */
+    get history (): ChatMessage[] {
+        return this.conversationHistory
+    }
+
+    get isBusy (): boolean {
+        return this.busy
+    }
+
+    /** What the pending approval is for, null when none is pending */
+    get pendingConfirmation (): string | null {
+        return this.confirmation?.description ?? null
+    }
+
+    /** Unified diff of the file change awaiting approval, if it is one */
+    get pendingDiff (): string | null {
+        return this.confirmation?.diff ?? null
+    }
+
+    /**
+     * Run a prompt or @/command typed in the chat panel. Its output only
+     * goes to the panel, the terminal stays with the shell meanwhile.
+     */
+    async submit (text: string): Promise<void> {
+        const query = text.trim()
+        if (!query || this.busy) {
+            return
+        }
+        this.echo = false
+        try {
+            await this.run(query)
+        } finally {
+            this.echo = true
+        }
+    }
+
+    /** Answer the pending approval, `always` approving the same call for the rest of the session */
+    approve (approved: boolean, always = false): void {
+        if (approved && always && this.confirmation) {
+            this.permissions.allowForSession(this.confirmation)
+        }
+        this.answer({ approved })
+    }
+
+    /** Decline the pending approval, telling the model why */
+    reject (reason: string): void {
+        this.answer({ approved: false, reason: reason || undefined })
+    }
+
+    /** Stop the running prompt or command */
+    abort (): void {
+        this.abortController.abort()
+        this.approve(false)
+    }
+
+    private get target (): AIRequestTarget {
+        return { configurationId: this.configurationId, model: this.modelOverride }
     }
 
     feedFromSession (data: Buffer): void {
         try {
             if (!this.bannerShown) {
                 this.bannerShown = true
-                this.outputToTerminal.next(Buffer.from(
-                    '\r\n' + colors.cyan('  [AI Ready] ') + colors.gray('Type "@ " + prompt + Enter to chat with AI') + '\r\n',
-                ))
+                let banner = colors.cyan('  [AI Ready] ') + colors.gray('Type "@ " + prompt + Enter to chat with AI')
+                if (this.restoredCount) {
+                    banner += colors.gray(` — conversation restored (${this.restoredCount} messages)`)
+                }
+                this.outputToTerminal.next(Buffer.from('\r\n' + banner + '\r\n'))
             }
             // Any shell output means cursor is at a prompt/new line
             this.atLineStart = true
             this.outputToTerminal.next(data)
+            if (this.state === State.CAPTURING) {
+                // The shell drew over the open prompt (e.g. after a resize)
+                this.editor.redrawBelow()
+            }
         } catch (e) {
             console.error('[tabby-ai] feedFromSession error:', e)
             this.outputToTerminal.next(data)
@@ -68,14 +277,20 @@ export class AIMiddleware extends SessionMiddleware {
     }
 
     feedFromTerminal (data: Buffer): void {
-        // Multi-byte data (paste)
+        if (this.state === State.CAPTURING) {
+            this.editor.feed(data)
+            return
+        }
+        if (this.state === State.AGENT_REJECTING) {
+            this.reasonEditor.feed(data)
+            return
+        }
+        if (this.editor.takeCursorReport(data) || this.reasonEditor.takeCursorReport(data)) {
+            return
+        }
+
+        // Multi-byte data (paste, escape sequences)
         if (data.length !== 1) {
-            if (this.state === State.CAPTURING) {
-                const text = data.toString('utf-8')
-                this.promptBuffer += text
-                this.outputToTerminal.next(Buffer.from(colors.white(text)))
-                return
-            }
             if (this.state === State.NORMAL) {
                 this.atLineStart = false
                 this.outputToSession.next(data)
@@ -99,9 +314,12 @@ export class AIMiddleware extends SessionMiddleware {
 
             case State.PENDING:
                 if (byte === 0x20 /* space */) {
-                    this.state = State.CAPTURING
-                    this.promptBuffer = ''
-                    this.outputToTerminal.next(Buffer.from(colors.cyan(' ')))
+                    this.startPrompt('@ ', '')
+                    return
+                }
+                if (byte === 0x2F /* / */) {
+                    // "@/" starts a slash command
+                    this.startPrompt('@', '/')
                     return
                 }
                 if (byte === 0x7F || byte === 0x08) {
@@ -119,41 +337,29 @@ export class AIMiddleware extends SessionMiddleware {
                 this.outputToSession.next(data)
                 return
 
-            case State.CAPTURING:
-                if (byte === 0x0D /* Enter */) {
-                    this.startAgent()
+            case State.AGENT_CONFIRMING:
+                if (byte === 0x0D /* Enter = approve */) {
+                    this.approve(true)
                     return
                 }
-                if (byte === 0x7F || byte === 0x08) {
-                    if (this.promptBuffer.length > 0) {
-                        this.promptBuffer = this.promptBuffer.slice(0, -1)
-                        this.outputToTerminal.next(Buffer.from('\b \b'))
-                    }
+                if (byte === 0x61 /* a = approve for the session */) {
+                    this.approve(true, true)
                     return
                 }
-                if (byte === 0x03 /* Ctrl+C */ || byte === 0x1B /* Escape */) {
-                    this.outputToTerminal.next(Buffer.from('\r\n'))
-                    this.state = State.NORMAL
-                    this.atLineStart = true
-                    this.promptBuffer = ''
-                    this.outputToSession.next(Buffer.from('\r'))
+                if (byte === 0x20 /* Space = next page of the diff */ && this.diffRemaining.length) {
+                    this.writeTerminal('\r\n')
+                    this.showDiffPage()
+                    this.showConfirmationHint()
                     return
                 }
-                // Regular character
-                const char = String.fromCharCode(byte)
-                this.promptBuffer += char
-                this.outputToTerminal.next(Buffer.from(colors.white(char)))
-                return
-
-            case State.AGENT_CONFIRMING:
-                if (byte === 0x0D /* Enter = approve */) {
-                    this.confirmResolve?.(true)
-                    this.confirmResolve = null
+                if (byte === 0x72 /* r = reject with a reason */) {
+                    this.state = State.AGENT_REJECTING
+                    this.outputToTerminal.next(Buffer.from('\r\n'))
+                    this.reasonEditor.start(colors.yellow('  Reason: '))
                     return
                 }
                 if (byte === 0x03 /* Ctrl+C = skip this command */) {
-                    this.confirmResolve?.(false)
-                    this.confirmResolve = null
+                    this.approve(false)
                     return
                 }
                 return // Swallow all other input during confirmation
@@ -161,136 +367,499 @@ export class AIMiddleware extends SessionMiddleware {
             case State.AGENT_STREAMING:
             case State.AGENT_EXECUTING:
                 if (byte === 0x03 /* Ctrl+C = abort entire agent */) {
-                    this.abortController?.abort()
+                    this.abortController.abort()
                     return
                 }
                 return // Swallow all other input during agent execution
         }
     }
 
-    private async startAgent (): Promise<void> {
-        const query = this.promptBuffer.trim()
-        this.promptBuffer = ''
+    /** Open the line editor over the "@" echoed at the shell prompt */
+    private startPrompt (prefix: string, text: string): void {
+        this.state = State.CAPTURING
+        this.outputToTerminal.next(Buffer.from('\b'))
+        this.editor.start(prefix, text)
+    }
+
+    private cancelPrompt (): void {
+        this.outputToTerminal.next(Buffer.from('\r\n'))
+        this.state = State.NORMAL
+        this.atLineStart = true
+        this.outputToSession.next(Buffer.from('\r'))
+    }
 
+    private async startAgent (text: string): Promise<void> {
+        const query = text.trim()
         if (!query) {
-            this.state = State.NORMAL
-            this.atLineStart = true
-            this.outputToSession.next(Buffer.from('\r'))
+            this.finishPrompt()
             return
         }
 
         this.outputToTerminal.next(Buffer.from('\r\n'))
+        if (this.busy) {
+            this.outputToTerminal.next(Buffer.from(colors.cyan('  The AI is busy with a prompt from the chat panel.') + '\r\n'))
+            this.finishPrompt()
+            return
+        }
+
+        // Commands are abortable with Ctrl+C like agent runs
         this.state = State.AGENT_STREAMING
+        await this.run(query)
+        this.finishPrompt()
+    }
+
+    private async run (query: string): Promise<void> {
+        this.busy = true
+        this.promptHistory.add(query)
+        this.emit(ChatEventType.Prompt, query)
         this.abortController = new AbortController()
+        try {
+            if (query.startsWith('/')) {
+                await this.runCommand(query)
+            } else {
+                await this.runAgent(query)
+            }
+        } finally {
+            this.busy = false
+            this.confirmation = null
+            this.emit(ChatEventType.Done)
+        }
+    }
 
+    /** Hand the line back to the shell */
+    private finishPrompt (): void {
+        this.state = State.NORMAL
+        this.atLineStart = true
+        this.outputToSession.next(Buffer.from('\r'))
+    }
+
+    private async runAgent (query: string): Promise<void> {
         // Build user message with terminal activity since last turn
         const { text: terminalActivity, checkpoint } = this.collector.getOutputSince(this.terminalCheckpoint)
         this.terminalCheckpoint = checkpoint
 
-        let userContent = query
-        if (terminalActivity.trim()) {
-            userContent = `[Terminal activity since last conversation]\n${terminalActivity.trim()}\n\n${query}`
+        const userContent = withTerminalActivity(terminalActivity.trim(), query)
+
+        // Summarize older turns before the history outgrows the context window
+        const systemPrompt = this.buildSystemPrompt()
+        if (this.needsCompaction([{ role: 'system', content: systemPrompt }, { role: 'user', content: userContent }])) {
+            await this.compact(false)
         }
 
         // Build messages: fresh system prompt + conversation history + new user message
-        const messages: ChatMessage[] = [
-            { role: 'system', content: this.buildSystemPrompt() },
-            ...this.conversationHistory,
-            { role: 'user', content: userContent },
-        ]
+        const messages = this.buildRequest(userContent, systemPrompt)
 
-        // Trim if conversation is too long: keep system + last 40 messages
-        if (messages.length > 50) {
-            const system = messages.shift()!
-            const recent = messages.slice(-40)
-            messages.length = 0
-            messages.push(system, ...recent)
-        }
+        // Files the run changes, for @/undo
+        const runCwd = this.collector.cwd || await this.files.getDefaultCwd().catch(() => '')
+        const fileCheckpoint = this.checkpoints.create({ prompt: query, cwd: runCwd, host: this.files.host, conversationId: this.conversation.id })
 
         const loop = new AgentLoop(this.ai, this.collector, {
             onContent: (text) => {
-                this.state = State.AGENT_STREAMING
-                const formatted = text.replace(/\n/g, '\r\n')
-                this.outputToTerminal.next(Buffer.from(colors.green(formatted)))
+                this.endThinking()
+                this.setAgentState(State.AGENT_STREAMING)
+                this.showContent(text)
+                this.emit(ChatEventType.Content, text)
             },
 
             onThinking: (text) => {
-                const formatted = text.replace(/\n/g, '\r\n')
-                this.outputToTerminal.next(Buffer.from(colors.gray(formatted)))
+                this.endContent()
+                this.showThinking(text)
+                this.emit(ChatEventType.Thinking, text)
             },
 
-            onConfirmCommand: (cmd) => {
-                this.state = State.AGENT_CONFIRMING
-                this.outputToTerminal.next(Buffer.from(
-                    '\r\n' +
-                    colors.yellow(`  ⚡ ${cmd}`) +
-                    colors.gray('  [Enter=run / Ctrl+C=skip]'),
-                ))
+            onToolCall: (call) => {
+                this.emit(ChatEventType.ToolCall, call)
+            },
+
+            onToolResult: (call, result) => {
+                this.emit(ChatEventType.ToolResult, { id: call.id, result })
+            },
+
+            checkPermission: (request) => this.permissions.check(request),
+
+            onConfirmCommand: (request) => {
+                this.endContent()
+                this.endThinking()
+                this.setAgentState(State.AGENT_CONFIRMING)
+                this.confirmation = request
+                this.diffRemaining = request.diff ? request.diff.split('\n') : []
+                this.writeTerminal('\r\n' + colors.yellow(`  ⚡ ${request.description.replace(/\n/g, '\r\n  ')}`))
+                if (this.diffRemaining.length) {
+                    this.writeTerminal('\r\n')
+                    this.showDiffPage()
+                }
+                this.showConfirmationHint()
+                this.emit(ChatEventType.Confirm, request.description)
+            },
+
+            onPermissionDenied: (request, reason) => {
+                this.endContent()
+                this.endThinking()
+                const message = `Denied by ${reason}: ${request.description}`
+                this.writeTerminal('\r\n' + colors.red(`  ✖ ${message}`) + '\r\n')
+                this.emit(ChatEventType.Info, message)
             },
 
             waitForApproval: () => {
-                return new Promise<boolean>((resolve) => {
+                return new Promise<Approval>((resolve) => {
                     if (this.confirmResolve) {
-                        this.confirmResolve(false)
+                        this.confirmResolve({ approved: false })
                     }
                     this.confirmResolve = resolve
                 })
             },
 
+            runCommand: (command, cwd, options) => {
+                this.commandInSession = this.config.store.ai.shellExecution === 'session'
+                if (this.commandInSession) {
+                    const session = { output$: this.sessionOutput$, input: (data: Buffer) => this.outputToSession.next(data) }
+                    return executeInSession(session, command, options)
+                }
+                return this.files.exec(command, cwd, options)
+            },
+
+            snapshotFile: (filePath, content) => this.checkpoints.snapshot(fileCheckpoint, filePath, content),
+
             onCommandStart: () => {
-                this.state = State.AGENT_EXECUTING
-                this.outputToTerminal.next(Buffer.from('\r\n'))
+                this.endContent()
+                this.setAgentState(State.AGENT_EXECUTING)
+                this.writeTerminal('\r\n')
             },
 
             onCommandOutput: (chunk) => {
-                const formatted = chunk.replace(/\n/g, '\r\n')
-                this.outputToTerminal.next(Buffer.from(colors.dim(formatted)))
+                if (!this.commandInSession) {
+                    this.writeTerminal(colors.dim(chunk.replace(/\n/g, '\r\n')))
+                }
+                this.emit(ChatEventType.ToolOutput, chunk)
             },
 
             onCommandDone: () => {
-                this.state = State.AGENT_STREAMING
-                this.outputToTerminal.next(Buffer.from('\r\n'))
+                this.setAgentState(State.AGENT_STREAMING)
+                this.writeTerminal('\r\n')
             },
 
             onDone: () => {
-                this.outputToTerminal.next(Buffer.from('\r\n'))
-                this.state = State.NORMAL
-                this.atLineStart = true
-                this.abortController = null
-                this.outputToSession.next(Buffer.from('\r'))
+                this.endContent()
+                this.endThinking()
+                this.writeTerminal('\r\n')
             },
 
             onError: (err) => {
-                this.outputToTerminal.next(Buffer.from(
-                    '\r\n' + colors.red(`  Error: ${err}`) + '\r\n',
-                ))
-                this.state = State.NORMAL
-                this.atLineStart = true
-                this.abortController = null
-                this.outputToSession.next(Buffer.from('\r'))
+                this.endContent()
+                this.endThinking()
+                this.writeTerminal('\r\n' + colors.red(`  Error: ${err}`) + '\r\n')
+                this.emit(ChatEventType.Error, err)
             },
-        }, this.abortController.signal)
+        }, this.abortController.signal, {
+            target: this.target,
+            budget: this.budget,
+            tools: this.tools,
+            tab: this.tab,
+            files: this.files,
+            mcp: this.mcp,
+            concurrency: this.config.store.ai.maxParallelTools,
+        })
 
         const result = await loop.run(messages)
+        if (fileCheckpoint.files.length) {
+            const count = fileCheckpoint.files.length
+            this.printInfo(`${count} file${count > 1 ? 's' : ''} changed — @/undo reverts them`)
+        }
 
         // Update persistent conversation history
         this.conversationHistory.push({ role: 'user', content: userContent })
         this.conversationHistory.push(...result.messages)
 
-        // Trim history to prevent unbounded growth
-        if (this.conversationHistory.length > 40) {
-            this.conversationHistory = this.conversationHistory.slice(-40)
-        }
+        // Keep no more history than the context window can hold — the agent
+        // loop trims requests further if needed
+        this.conversationHistory = this.ai.getContextWindow(this.target).fit(this.conversationHistory)
+        this.conversation.title ||= query.slice(0, 80)
+        this.saveConversation()
 
         // Display token usage — maps to gemini-cli's StatsDisplay.tsx
-        this.displayUsage(result.usage)
+        const priced = result.usageByModel.some(m => m.cost !== null)
+        this.displayUsage(result.usage, priced ? result.cost : null)
+
+        // Persist to historical per-provider stats
+        this.persistUsage(result.usageByProvider)
+        if (result.usageByModel.length) {
+            this.budget.recordSpend(result.usageByModel)
+            this.displayBudgetWarning()
+        }
+    }
+
+    private buildRequest (prompt?: string, systemPrompt = this.buildSystemPrompt()): ChatMessage[] {
+        const messages: ChatMessage[] = [
+            { role: 'system', content: systemPrompt },
+            ...this.conversationHistory,
+        ]
+        if (prompt) {
+            messages.push({ role: 'user', content: prompt })
+        }
+        return messages
+    }
+
+    /**
+     * Handle an "@/command" prompt by running the AISlashCommand of that name.
+     */
+    private async runCommand (query: string): Promise<void> {
+        const [name] = query.slice(1).split(/\s/, 1)
+        const args = query.slice(1 + name.length).trim()
+        const command = this.commands.find(c => c.name === name)
+        if (!command) {
+            this.printInfo(`Unknown command: /${name} — see @/help`)
+            return
+        }
+
+        const { conversation, conversationHistory } = this
+        try {
+            await command.run(this.createCommandContext(), args)
+        } catch (err: any) {
+            this.writeTerminal(colors.red(`  /${name} failed: ${err.message ?? err}`) + '\r\n')
+            this.emit(ChatEventType.Error, `/${name} failed: ${err.message ?? err}`)
+        }
+        if (this.conversation !== conversation || this.conversationHistory !== conversationHistory) {
+            this.emit(ChatEventType.History)
+        }
+    }
+
+    private createCommandContext (): AICommandContext {
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        const self = this
+        return {
+            write: text => {
+                this.writeTerminal(text.replace(/\r?\n/g, '\r\n'))
+                this.emit(ChatEventType.Output, text)
+            },
+            print: text => this.printInfo(text),
+            signal: this.abortController.signal,
+            target: this.target,
+            get modelOverride () { return self.modelOverride },
+            set modelOverride (value) { self.modelOverride = value },
+            get history () { return self.conversationHistory },
+            set history (value) { self.conversationHistory = value },
+            get conversation () { return self.conversation },
+            newConversation: () => {
+                this.conversation = this.conversations.create(this.profile)
+                this.conversationHistory = []
+            },
+            openConversation: conversation => {
+                this.conversation = conversation
+                this.conversationHistory = conversation.messages
+            },
+            sessionUsage: { ...this.sessionUsage },
+            sessionCost: this.sessionCost,
+            cwd: this.collector.cwd || null,
+            files: this.files,
+            tab: this.tab,
+            buildRequest: prompt => this.buildRequest(prompt),
+            runAgent: prompt => this.runAgent(prompt),
+            compact: force => this.compact(force),
+            openPanel: () => this.openPanel(),
+            commands: this.commands,
+        }
+    }
+
+    /**
+     * Complete a command name on Tab: a unique match is filled in, several
+     * matches are listed below the prompt.
+     */
+    private completeCommand (): void {
+        const text = this.editor.value
+        if (!text.startsWith('/') || /\s/.test(text)) {
+            return
+        }
+        const prefix = text.slice(1)
+        const matches = this.commands.filter(c => c.name.startsWith(prefix)).map(c => c.name)
+        if (matches.length === 1) {
+            this.editor.insert(matches[0].slice(prefix.length) + ' ')
+        } else if (matches.length > 1) {
+            this.editor.printAbove(colors.gray(matches.map(m => `/${m}`).join('  ')))
+        }
+    }
+
+    /** Load a conversation named in the recovery token of a restored tab */
+    private async restoreConversation (id: string): Promise<void> {
+        const conversation = await this.conversations.load(id)
+        if (conversation && !this.conversationHistory.length) {
+            this.conversation = conversation
+            this.conversationHistory = conversation.messages
+            this.restoredCount = conversation.messages.length
+        }
+    }
+
+    private saveConversation (): void {
+        this.conversation.messages = this.conversationHistory
+        this.conversations.save(this.conversation).catch(err => {
+            console.error('[tabby-ai] Failed to save conversation:', err)
+        })
+    }
+
+    /**
+     * Whether the history plus the `pending` messages have reached
+     * `ai.compactionThreshold` percent of the context window.
+     */
+    private needsCompaction (pending: ChatMessage[]): boolean {
+        const threshold = this.config.store.ai.compactionThreshold
+        if (!threshold || !this.conversationHistory.length) {
+            return false
+        }
+        const context = this.ai.getContextWindow(this.target)
+        const tokens = context.estimateMessagesTokens([...pending, ...this.conversationHistory])
+        return tokens >= context.size * threshold / 100
+    }
+
+    /**
+     * Replace older turns of the history with a model-written summary.
+     * `force` (from @/compact) summarizes even a short history.
+     */
+    private async compact (force: boolean): Promise<void> {
+        this.writeTerminal(colors.gray('  ✻ Compacting conversation…'))
+        try {
+            const result = await compactHistory(this.ai, this.conversationHistory, {
+                target: this.target,
+                signal: this.abortController.signal,
+                force,
+            })
+            // Replace the status line in place
+            this.writeTerminal('\r\x1b[2K')
+            if (!result) {
+                if (force) {
+                    this.printInfo('Nothing to compact yet.')
+                }
+                return
+            }
+
+            this.conversationHistory = result.history
+            this.saveConversation()
+            const usages = result.usage.map(u => this.budget.toModelUsage(u))
+            this.persistUsage(Object.fromEntries(usages.map(u => [u.provider, u.usage])))
+            this.budget.recordSpend(usages)
+
+            const summary = `✻ Compacted ${result.summarizedCount} messages (~${result.tokensBefore.toLocaleString()} → ~${result.tokensAfter.toLocaleString()} tokens)`
+            this.writeTerminal(colors.gray(`  ${summary}`) + '\r\n')
+            this.emit(ChatEventType.Info, summary)
+        } catch (err: any) {
+            this.writeTerminal('\r\x1b[2K' + colors.red(`  Compaction failed: ${err.message}`) + '\r\n')
+            this.emit(ChatEventType.Error, `Compaction failed: ${err.message}`)
+        }
+    }
+
+    private printInfo (text: string): void {
+        this.writeTerminal(colors.cyan(`  ${text}`) + '\r\n')
+        this.emit(ChatEventType.Info, text)
+    }
+
+    private answer (approval: Approval): void {
+        if (this.confirmResolve) {
+            this.confirmResolve(approval)
+            this.confirmResolve = null
+            this.confirmation = null
+            this.diffRemaining = []
+            if (this.state === State.AGENT_REJECTING) {
+                this.state = State.AGENT_STREAMING
+            }
+            this.emit(ChatEventType.Confirmed, approval.approved)
+        }
+    }
+
+    /** Print the next page of the pending diff */
+    private showDiffPage (): void {
+        const page = this.diffRemaining.splice(0, DIFF_PAGE_LINES)
+        this.writeTerminal(page.map(line => '    ' + colorizePatchLine(line)).join('\r\n') + '\r\n')
+    }
+
+    private showConfirmationHint (): void {
+        const more = this.diffRemaining.length ? ` / Space=${this.diffRemaining.length} more lines` : ''
+        this.writeTerminal(colors.gray(`  [Enter=run${more} / a=always / r=reject with reason / Ctrl+C=skip]`))
+    }
+
+    /** Write agent output to the terminal, unless the run came from the panel */
+    private writeTerminal (text: string): void {
+        if (this.echo) {
+            this.outputToTerminal.next(Buffer.from(text))
+        }
+    }
+
+    private emit (type: ChatEventType, value?: any): void {
+        this.events.next({ type, value })
+    }
+
+    /** Panel runs leave the terminal's input state alone */
+    private setAgentState (state: State): void {
+        if (this.echo) {
+            this.state = state
+        }
+    }
+
+    /**
+     * Stream answer text, rendered from Markdown unless `ai.renderMarkdown`
+     * is off.
+     */
+    private showContent (text: string): void {
+        if (!this.config.store.ai.renderMarkdown) {
+            this.writeTerminal(colors.green(text.replace(/\n/g, '\r\n')))
+            return
+        }
+        this.markdown ??= new MarkdownRenderer(this.columns)
+        this.writeTerminal(this.markdown.push(text))
+    }
+
+    /**
+     * Flush text the Markdown renderer holds back before other output is written.
+     */
+    private endContent (): void {
+        if (this.markdown) {
+            this.writeTerminal(this.markdown.finish())
+            this.markdown = null
+        }
+    }
+
+    /**
+     * Render reasoning according to `ai.thinkingDisplay`:
+     * - show: stream it in gray
+     * - collapse: a single "Thinking…" status line
+     * - hide: nothing
+     */
+    private showThinking (text: string): void {
+        const mode = this.config.store.ai.thinkingDisplay
+        if (mode === 'hide') {
+            return
+        }
+        if (this.thinkingStartedAt === null) {
+            this.thinkingStartedAt = Date.now()
+            if (mode === 'collapse') {
+                this.writeTerminal(colors.gray('  ✻ Thinking…'))
+            }
+        }
+        if (mode === 'show') {
+            const formatted = text.replace(/\n/g, '\r\n')
+            this.writeTerminal(colors.gray(formatted))
+        }
+    }
+
+    /**
+     * Close the current reasoning block before other output is written.
+     */
+    private endThinking (): void {
+        if (this.thinkingStartedAt === null) {
+            return
+        }
+        const seconds = Math.max(1, Math.round((Date.now() - this.thinkingStartedAt) / 1000))
+        this.thinkingStartedAt = null
+        if (this.config.store.ai.thinkingDisplay === 'collapse') {
+            // Replace the "Thinking…" status line in place
+            this.writeTerminal('\r\x1b[2K' + colors.gray(`  ✻ Thought for ${seconds}s`) + '\r\n')
+        } else {
+            this.writeTerminal('\r\n')
+        }
     }
 
     /**
      * Display token usage summary — simplified ANSI version of
      * gemini-cli's StatsDisplay.tsx ModelUsageTable
      */
-    private displayUsage (usage: TokensSummary): void {
+    private displayUsage (usage: TokensSummary, cost: number | null): void {
         if (usage.totalTokens <= 0) return
 
         // Accumulate session totals (maps to gemini-cli's processApiResponse accumulation)
@@ -313,18 +882,34 @@ export class AIMiddleware extends SessionMiddleware {
         parts.push(`${usage.totalTokens.toLocaleString()} total`)
 
         let line = `  Tokens: ${parts.join(' / ')}`
+        if (cost !== null) {
+            this.sessionCost += cost
+            line += `  Cost: ${this.budget.formatCost(cost)}`
+        }
 
         // Show session totals if this is not the first invocation
         if (this.sessionUsage.totalTokens > usage.totalTokens) {
-            line += colors.gray(`  (session: ${this.sessionUsage.totalTokens.toLocaleString()} total)`)
+            let session = `${this.sessionUsage.totalTokens.toLocaleString()} total`
+            if (this.sessionCost > 0) {
+                session += `, ${this.budget.formatCost(this.sessionCost)}`
+            }
+            line += colors.gray(`  (session: ${session})`)
         }
 
-        this.outputToTerminal.next(Buffer.from(
+        this.writeTerminal(
             colors.gray(line) + '\r\n',
-        ))
+        )
+        this.emit(ChatEventType.Info, line.trim())
+    }
 
-        // Persist to historical per-provider stats
-        this.persistUsage(usage)
+    private displayBudgetWarning (): void {
+        const status = this.budget.checkBudget()
+        if (status.level !== 'ok') {
+            this.writeTerminal(
+                colors.yellow(`  ⚠ ${status.message}`) + '\r\n',
+            )
+            this.emit(ChatEventType.Info, `⚠ ${status.message}`)
+        }
     }
 
     /**
@@ -334,21 +919,30 @@ export class AIMiddleware extends SessionMiddleware {
      * IMPORTANT: ConfigProxy only creates setter descriptors for keys that exist
      * in defaults. We must SET the entire stats object through the proxy setter
      * (not mutate an existing reference) to ensure it lands in the real store.
+     *
+     * Usage is attributed to the provider that actually served each request,
+     * which differs from the configured one after a fallback.
      */
-    private persistUsage (usage: TokensSummary): void {
-        const provider = this.config.store.ai?.provider || 'custom'
-        const current = this.config.store.ai.tokenUsage?.[provider]
-
-        // Build a new plain object — avoids proxy mutation issues
-        const updated = {
-            promptTokens: (current?.promptTokens || 0) + usage.promptTokens,
-            completionTokens: (current?.completionTokens || 0) + usage.completionTokens,
-            totalTokens: (current?.totalTokens || 0) + usage.totalTokens,
-            requestCount: (current?.requestCount || 0) + 1,
+    private persistUsage (usageByProvider: Record<string, TokensSummary>): void {
+        const entries = Object.entries(usageByProvider).filter(([_, usage]) => usage.totalTokens > 0)
+        if (!entries.length) {
+            return
         }
 
-        // Assign through proxy setter so it reaches real storage
-        this.config.store.ai.tokenUsage[provider] = updated
+        for (const [provider, usage] of entries) {
+            const current = this.config.store.ai.tokenUsage?.[provider]
+
+            // Build a new plain object — avoids proxy mutation issues
+            const updated = {
+                promptTokens: (current?.promptTokens || 0) + usage.promptTokens,
+                completionTokens: (current?.completionTokens || 0) + usage.completionTokens,
+                totalTokens: (current?.totalTokens || 0) + usage.totalTokens,
+                requestCount: (current?.requestCount || 0) + 1,
+            }
+
+            // Assign through proxy setter so it reaches real storage
+            this.config.store.ai.tokenUsage[provider] = updated
+        }
         this.config.save()
     }
 
@@ -366,6 +960,12 @@ export class AIMiddleware extends SessionMiddleware {
             '- Be concise in explanations.',
             '- If a command fails, try to diagnose and fix the issue.',
             '- Terminal activity between conversations shows what the user did — use it as context.',
+            ...this.config.store.ai.shellExecution === 'session' ? [
+                '- Shell commands run in the user\'s own terminal session: changes like cd, exports or activated environments persist, and interactive programs (editors, pagers, prompts) would block it — avoid them.',
+            ] : [],
+            ...this.files.host ? [
+                `- This terminal is an SSH session to ${this.files.host}: shell commands run and file tools operate on that machine, not the user's local one.`,
+            ] : [],
             '',
             context,
         ].join('\n')
@@ -0,0 +1,283 @@
+import type { BaseTerminalTabComponent } from 'tabby-terminal'
+import type { ChatMessage, ToolDefinition } from './ai.service'
+import type { Conversation } from './conversations.service'
+import type { AIFileSystem } from './fileSystem'
+import type { PermissionRequest } from './permissions'
+import type { ShellResult } from './shellExecutor'
+import type { StreamEvent, TokensSummary } from './streamEvents'
+
+/**
+ * Connection settings for one provider, with preset defaults already applied
+ * (base URL without trailing slash, model name filled in).
+ */
+export interface AIProviderConfig {
+    provider: string
+    baseUrl: string
+    apiKey: string
+    model: string
+    /** Azure deployment name */
+    deployment: string
+    /** Azure API version */
+    apiVersion: string
+}
+
+/**
+ * A named provider/model setup stored in `ai.configurations`.
+ * The top-level `ai.*` connection fields form the built-in default
+ * configuration, which has an empty id.
+ */
+export interface AIConfiguration extends AIProviderConfig {
+    id: string
+    name: string
+}
+
+/** Selects which configuration (and optionally which model) a request goes to */
+export interface AIRequestTarget {
+    /** Id of a named configuration — the default configuration when empty */
+    configurationId?: string | null
+    /** Overrides the configuration's model for this request */
+    model?: string | null
+}
+
+/** A rule of `ai.permissions.rules` */
+export interface AIPermissionRule {
+    action: 'allow' | 'deny' | 'ask'
+    /** Tool name, '*' for every tool */
+    tool: string
+    /**
+     * Glob (`git status*`) or /regex/ matched against the whole shell
+     * command, the resolved file path, or the JSON arguments of an MCP
+     * tool. Empty matches everything.
+     */
+    pattern: string
+    /** Directory the rule is limited to, including subdirectories; empty for anywhere */
+    cwd: string
+    /** Profile the rule is limited to; empty for all */
+    profileId: string
+}
+
+/** An MCP server of `ai.mcpServers` */
+export interface AIMCPServer {
+    id: string
+    /** Prefixes its tool names — letters, digits, _ and - */
+    name: string
+    enabled: boolean
+    /** 'stdio' launches `command`; 'http' (Streamable HTTP) and 'sse' (HTTP+SSE) connect to `url` */
+    transport: 'stdio' | 'http' | 'sse'
+    command: string
+    args: string[]
+    /** Added to Tabby's environment */
+    env: Record<string, string>
+    /** Working directory of the command; empty for the home directory */
+    cwd: string
+    url: string
+    headers: Record<string, string>
+    /**
+     * 'ask' decides calls by the permission policy, with the tools' read-only
+     * hints; 'allow' trusts every tool of the server unless a rule says otherwise
+     */
+    approval: 'ask' | 'allow'
+    /** Milliseconds a tool call may take */
+    timeout: number
+}
+
+/** Profile fields understood by tabby-ai */
+export interface AIProfileFields {
+    /**
+     * Id of the AI configuration used in tabs opened from this profile, or
+     * 'none' to disable AI for it. Also set in the defaults of a profile
+     * type or group; empty everywhere means the default configuration.
+     */
+    aiConfiguration?: string | null
+}
+
+/** Everything needed to shape a single completion request */
+export interface AIRequest {
+    messages: ChatMessage[]
+    tools: ToolDefinition[]
+    stream: boolean
+    maxTokens: number
+}
+
+/**
+ * Extend to teach tabby-ai a new LLM API or in-house gateway, e.g.
+ *
+ * ```ts
+ * { provide: AIProviderAdapter, useClass: MyGatewayAdapter, multi: true }
+ * ```
+ *
+ * An adapter owns everything that differs between wire protocols:
+ * URL building, auth headers, request body shaping and stream decoding.
+ *
+ * To have token usage persisted for your adapter, declare
+ * `ai.tokenUsage.<id>: null` in your plugin's ConfigProvider defaults.
+ */
+export abstract class AIProviderAdapter {
+    /** Stored in `ai.provider` */
+    abstract id: string
+
+    /** Shown in the provider dropdown of the AI settings tab */
+    abstract name: string
+
+    /** Used when the user leaves the base URL empty */
+    defaultBaseUrl = ''
+
+    /** Used when the user leaves the model name empty */
+    defaultModel = ''
+
+    /** Whether requests without an API key should be refused */
+    requiresApiKey = true
+
+    /** Position in the provider dropdown */
+    weight = 50
+
+    /** Full URL for a chat completion request */
+    abstract getUrl (config: AIProviderConfig): string
+
+    /** HTTP headers including authentication */
+    abstract getHeaders (config: AIProviderConfig): Record<string, string>
+
+    /** JSON request body in the provider's wire format */
+    abstract buildBody (config: AIProviderConfig, request: AIRequest): any
+
+    /** Decode a streaming response into StreamEvents, ending with EventType.Finished */
+    abstract decodeStream (response: Response, signal?: AbortSignal): AsyncGenerator<StreamEvent>
+
+    /** Extract the answer text from a non-streaming response */
+    abstract decodeResponse (data: any): string // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+
+    /** URL of the provider's model listing, or null if it has none */
+    getModelsUrl (config: AIProviderConfig): string | null { // eslint-disable-line @typescript-eslint/no-unused-vars
+        return null
+    }
+
+    /** Extract model names from the model listing response */
+    decodeModels (data: any): string[] { // eslint-disable-line @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/no-unused-vars
+        return []
+    }
+}
+
+/** What a slash command can see and do in the terminal session it was typed in */
+export interface AICommandContext {
+    /** Write text to the terminal; newlines are converted */
+    write: (text: string) => void
+    /** Print a status line */
+    print: (text: string) => void
+    /** Aborted when the user presses Ctrl+C */
+    readonly signal: AbortSignal
+    /** Configuration and model requests of this session go to */
+    readonly target: AIRequestTarget
+    /** Model set with @/model for this session, null for the configuration's */
+    modelOverride: string | null
+    /** Conversation history, without the system prompt */
+    history: ChatMessage[]
+    readonly conversation: Conversation
+    /** Start a new, empty conversation */
+    newConversation: () => void
+    /** Continue a saved conversation */
+    openConversation: (conversation: Conversation) => void
+    /** Token usage and cost of this session so far */
+    readonly sessionUsage: TokensSummary
+    readonly sessionCost: number
+    /** Shell working directory, if the shell reports it */
+    readonly cwd: string | null
+    /** Files of the machine the terminal is on — the remote one in SSH tabs */
+    readonly files: AIFileSystem
+    /** Terminal tab of the session */
+    readonly tab: BaseTerminalTabComponent<any>
+    /** The messages the next request would carry: system prompt, history and `prompt` if given */
+    buildRequest: (prompt?: string) => ChatMessage[]
+    /** Run the agent on a prompt, as if it was typed after "@ " */
+    runAgent: (prompt: string) => Promise<void>
+    /** Summarize older turns; `force` also compacts short histories */
+    compact: (force: boolean) => Promise<void>
+    /** Show the chat panel next to the terminal */
+    openPanel: () => void
+    /** All registered commands, sorted by name */
+    readonly commands: AISlashCommand[]
+}
+
+/**
+ * Extend to add an `@/name` command to the AI prompt, e.g.
+ *
+ * ```ts
+ * { provide: AISlashCommand, useClass: MyCommand, multi: true }
+ * ```
+ */
+export abstract class AISlashCommand {
+    /** Typed after "@/" */
+    abstract name: string
+
+    /** One line, shown by @/help */
+    abstract description: string
+
+    /** Argument syntax shown by @/help, e.g. '<id>' */
+    usage = ''
+
+    /** `args` is everything after the command name, trimmed */
+    abstract run (context: AICommandContext, args: string): Promise<void> | void
+}
+
+/** What a tool sees of the agent run calling it */
+export interface AIToolContext {
+    /** Aborted when the user stops the agent */
+    readonly signal: AbortSignal
+    /** Terminal tab the agent runs in */
+    readonly tab: BaseTerminalTabComponent<any>
+    /** Files of the machine the terminal is on, and commands run there — the remote one in SSH tabs */
+    readonly files: AIFileSystem
+    /** The shell's working directory, or the login directory when the shell reports none */
+    getCwd: () => Promise<string>
+    /**
+     * Decide a call by the permission policy, asking the user when no rule
+     * does. Null when the call may go ahead, otherwise the result that tells
+     * the model why not; `declined` is that result when the user says no.
+     */
+    requestPermission: (request: PermissionRequest, declined: string) => Promise<string | null>
+    /** Run a command like run_shell_command does, with its output shown in the terminal; `timeout` in ms */
+    runCommand: (command: string, cwd: string, timeout?: number) => Promise<ShellResult>
+    /** Save a file's content, null when it does not exist, before changing it — for @/undo */
+    snapshotFile: (filePath: string, content: Buffer | null) => Promise<void>
+}
+
+/**
+ * Extend to give the agent a tool, e.g.
+ *
+ * ```ts
+ * { provide: AIToolProvider, useClass: ListPortForwardsTool, multi: true }
+ * ```
+ *
+ * The built-in tools — run_shell_command, read_file and so on — are
+ * providers like any other.
+ */
+export abstract class AIToolProvider {
+    /** Sent to the model; `function.name` also names the tool in permission rules */
+    abstract definition: ToolDefinition
+
+    /** Shown in the permission settings */
+    abstract title: string
+
+    /** Calls change nothing — they run without asking while read-only auto-approval is on */
+    readOnly = false
+
+    /**
+     * Calls go through the permission policy before execute(), described
+     * by describe(). Tools that ask with details of their own, such as a
+     * diff, turn this off and call `context.requestPermission()` themselves.
+     */
+    requiresApproval = true
+
+    /** Whether the tool is offered in a tab, e.g. only in SSH tabs */
+    isAvailable (tab: BaseTerminalTabComponent<any>): boolean { // eslint-disable-line @typescript-eslint/no-unused-vars
+        return true
+    }
+
+    /** Shown when asking for approval; rules match their patterns against `subject` */
+    describe (args: any): { subject: string, description: string } { // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+        const subject = JSON.stringify(args)
+        return { subject, description: `${this.title}: ${subject}` }
+    }
+
+    /** Run a call; the result is what the model is sent */
+    abstract execute (args: any, context: AIToolContext): Promise<string> // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+}
@@ -0,0 +1,215 @@
+import { Injectable } from '@angular/core'
+import { Observable, Subject, Subscription } from 'rxjs'
+import type { BaseTerminalTabComponent } from 'tabby-terminal'
+import { ANSI_REGEX } from './contextCollector'
+import { AIFileSystem } from './fileSystem'
+import { SpawnedProcess } from './shellExecutor'
+
+export type BackgroundProcessStatus = 'running' | 'exited' | 'killed'
+
+/** A command the agent started in the background */
+export interface BackgroundProcess {
+    /** Counts up from 1 across all tabs */
+    id: number
+    command: string
+    cwd: string
+    /** user@host it runs on, null for this machine */
+    host: string | null
+    /** Tab whose agent started it */
+    tab: BaseTerminalTabComponent<any>
+    startedAt: number
+    status: BackgroundProcessStatus
+    exitCode: number | null
+}
+
+/** Output read from a background process */
+export interface ProcessOutput {
+    text: string
+    /** Characters left out at the start — dropped from the buffer, or beyond the limit of a read */
+    skipped: number
+}
+
+/** Output kept per process; older output is dropped */
+const MAX_BUFFER = 1024 * 1024
+
+interface ProcessEntry {
+    info: BackgroundProcess
+    process: SpawnedProcess
+    /** The last MAX_BUFFER characters of output, without ANSI escapes */
+    output: string
+    /** Characters dropped from the start of `output` */
+    dropped: number
+    /** Position up to which the agent has read the output */
+    read: number
+    /** New output arrived or the process ended */
+    changed: Subject<void>
+}
+
+/**
+ * Commands the agent runs with `background: true` — dev servers, watchers,
+ * log tails. They have no timeout; the agent reads their output as it
+ * comes, waits for it, writes to their stdin and kills them, and they are
+ * killed when their tab closes or the window goes away.
+ */
+@Injectable()
+export class AIBackgroundService {
+    private entries = new Map<number, ProcessEntry>()
+    private nextId = 1
+    private changed = new Subject<void>()
+
+    constructor () {
+        // Quitting, closing or reloading the window doesn't always destroy
+        // the tabs first, and detached processes would outlive it
+        window.addEventListener('beforeunload', () => this.killAll())
+    }
+
+    /** A process started or ended */
+    get changed$ (): Observable<void> { return this.changed }
+
+    /** Start a command for the agent of `tab`, on the system of `files` */
+    async start (command: string, cwd: string, owner: { tab: BaseTerminalTabComponent<any>, files: AIFileSystem }): Promise<BackgroundProcess> {
+        const { tab, files } = owner
+        const changed = new Subject<void>()
+        const entry: ProcessEntry = {
+            info: {
+                id: this.nextId++,
+                command,
+                cwd,
+                host: files.host,
+                tab,
+                startedAt: Date.now(),
+                status: 'running',
+                exitCode: null,
+            },
+            process: null!,
+            output: '',
+            dropped: 0,
+            read: 0,
+            changed,
+        }
+        entry.process = await files.spawn(command, cwd, chunk => {
+            entry.output += chunk.replace(ANSI_REGEX, '').replace(/\r\n?/g, '\n')
+            if (entry.output.length > MAX_BUFFER) {
+                const excess = entry.output.length - MAX_BUFFER
+                entry.output = entry.output.slice(excess)
+                entry.dropped += excess
+            }
+            changed.next()
+        })
+        this.entries.set(entry.info.id, entry)
+        this.changed.next()
+
+        entry.process.exited.then(exitCode => {
+            if (entry.info.status === 'running') {
+                entry.info.status = exitCode === null ? 'killed' : 'exited'
+            }
+            entry.info.exitCode = exitCode
+            changed.next()
+            changed.complete()
+            this.changed.next()
+        })
+        return entry.info
+    }
+
+    /** Processes of a tab, or of all tabs, oldest first */
+    list (tab?: BaseTerminalTabComponent<any>): BackgroundProcess[] {
+        return [...this.entries.values()].map(e => e.info).filter(p => !tab || p.tab === tab)
+    }
+
+    /** A process of a tab */
+    get (tab: BaseTerminalTabComponent<any>, id: number): BackgroundProcess | null {
+        const entry = this.entries.get(id)
+        return entry?.info.tab === tab ? entry.info : null
+    }
+
+    /** Output the agent has not read yet, at most the last `limit` characters of it */
+    readNew (id: number, limit: number): ProcessOutput {
+        const entry = this.getEntry(id)
+        const output = this.getOutput(entry, entry.read, limit)
+        entry.read = entry.dropped + entry.output.length
+        return output
+    }
+
+    /** The last `limit` characters of output, read or not */
+    readTail (id: number, limit: number): ProcessOutput {
+        const entry = this.getEntry(id)
+        return this.getOutput(entry, 0, limit)
+    }
+
+    /**
+     * Wait until output the agent has not read matches `pattern`, the
+     * process ends or `timeout` ms pass. Resolves with whether it matched.
+     */
+    async waitFor (id: number, pattern: RegExp | null, options: { timeout: number, signal: AbortSignal }): Promise<boolean> {
+        const { timeout, signal } = options
+        const entry = this.getEntry(id)
+        const matches = () => !!pattern && pattern.test(entry.output.slice(Math.max(0, entry.read - entry.dropped)))
+        if (matches() || entry.info.status !== 'running') {
+            return matches()
+        }
+        return new Promise(resolve => {
+            const cleanup = new Subscription()
+            const done = (matched: boolean) => {
+                cleanup.unsubscribe()
+                resolve(matched)
+            }
+            cleanup.add(entry.changed.subscribe({
+                next: () => {
+                    if (matches()) {
+                        done(true)
+                    }
+                },
+                complete: () => done(matches()),
+            }))
+            const timer = setTimeout(() => done(false), timeout)
+            cleanup.add(() => clearTimeout(timer))
+            const onAbort = () => done(false)
+            signal.addEventListener('abort', onAbort, { once: true })
+            cleanup.add(() => signal.removeEventListener('abort', onAbort))
+        })
+    }
+
+    write (id: number, data: string): void {
+        const entry = this.getEntry(id)
+        if (entry.info.status !== 'running') {
+            throw new Error(`process ${id} has ended`)
+        }
+        entry.process.write(data)
+    }
+
+    kill (id: number): void {
+        const entry = this.getEntry(id)
+        if (entry.info.status === 'running') {
+            entry.info.status = 'killed'
+            entry.process.kill()
+            this.changed.next()
+        }
+    }
+
+    /** Kill the processes of a closing tab, or all of them, and forget them */
+    killAll (tab?: BaseTerminalTabComponent<any>): void {
+        for (const entry of this.entries.values()) {
+            if (!tab || entry.info.tab === tab) {
+                this.kill(entry.info.id)
+                this.entries.delete(entry.info.id)
+            }
+        }
+        this.changed.next()
+    }
+
+    private getEntry (id: number): ProcessEntry {
+        const entry = this.entries.get(id)
+        if (!entry) {
+            throw new Error(`no background process ${id}`)
+        }
+        return entry
+    }
+
+    private getOutput (entry: ProcessEntry, from: number, limit: number): ProcessOutput {
+        const start = Math.max(0, from - entry.dropped, entry.output.length - limit)
+        return {
+            text: entry.output.slice(start),
+            skipped: entry.dropped + start - from,
+        }
+    }
+}
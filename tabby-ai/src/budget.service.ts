@@ -0,0 +1,153 @@
+import { Injectable } from '@angular/core'
+import { ConfigService } from 'tabby-core'
+import { computeCost, findPrice, ModelPrice } from './pricing'
+import { ProviderUsage, TokensSummary } from './streamEvents'
+
+/** Token usage of one model within a run */
+export interface ModelUsage {
+    provider: string
+    model: string
+    usage: TokensSummary
+    requestCount: number
+    /** null when the model has no price entry */
+    cost: number | null
+}
+
+/** Spend of one model on one day, stored in `ai.spendHistory` */
+export interface SpendRecord {
+    /** Local date, YYYY-MM-DD */
+    date: string
+    provider: string
+    model: string
+    cost: number
+    promptTokens: number
+    completionTokens: number
+    requestCount: number
+}
+
+export interface BudgetStatus {
+    level: 'ok' | 'warning' | 'exceeded'
+    /** Explains the warning or why requests are blocked */
+    message?: string
+}
+
+/** Days of spend history kept — a bit more than a year for monthly reports */
+const HISTORY_DAYS = 400
+
+/** Local date as YYYY-MM-DD, the key of spend records */
+export function localDate (date = new Date()): string {
+    const pad = (n: number) => n.toString().padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Converts token usage into cost using the `ai.pricing` table, keeps the
+ * per-day/per-model spend history and enforces the daily/monthly budgets.
+ */
+@Injectable()
+export class AIBudgetService {
+    constructor (
+        private config: ConfigService,
+    ) { }
+
+    getPricing (): ModelPrice[] {
+        return this.config.store.ai.pricing
+    }
+
+    /** Cost of a usage report, null when the model has no price entry */
+    getCost (model: string, usage: TokensSummary): number | null {
+        const price = findPrice(this.getPricing(), model)
+        return price ? computeCost(price, usage) : null
+    }
+
+    /** Price a single request's usage report */
+    toModelUsage (usage: ProviderUsage): ModelUsage {
+        const { provider, model, ...tokens } = usage
+        return { provider, model, usage: tokens, requestCount: 1, cost: this.getCost(model, tokens) }
+    }
+
+    formatCost (cost: number): string {
+        const currency = this.config.store.ai.currency || 'USD'
+        try {
+            return new Intl.NumberFormat(undefined, {
+                style: 'currency',
+                currency,
+                // Single agent turns often cost fractions of a cent
+                maximumFractionDigits: cost < 1 ? 4 : 2,
+            }).format(cost)
+        } catch {
+            // Not an ISO currency code — show it verbatim
+            return `${cost.toFixed(4)} ${currency}`
+        }
+    }
+
+    getSpendHistory (): SpendRecord[] {
+        return this.config.store.ai.spendHistory
+    }
+
+    /** Total spend of today, or of the current calendar month */
+    getSpent (period: 'day' | 'month'): number {
+        const today = localDate()
+        const prefix = period === 'day' ? today : today.slice(0, 7)
+        return this.getSpendHistory()
+            .filter(r => r.date.startsWith(prefix))
+            .reduce((sum, r) => sum + r.cost, 0)
+    }
+
+    /**
+     * Add a finished run to the spend history, merged per day and model.
+     */
+    recordSpend (usages: ModelUsage[]): void {
+        const today = localDate()
+        const cutoff = localDate(new Date(Date.now() - HISTORY_DAYS * 24 * 3600 * 1000))
+        const history = this.getSpendHistory()
+            .filter(r => r.date >= cutoff)
+            .map(r => ({ ...r }))
+
+        for (const { provider, model, usage, requestCount, cost } of usages) {
+            let record = history.find(r => r.date === today && r.provider === provider && r.model === model)
+            if (!record) {
+                record = { date: today, provider, model, cost: 0, promptTokens: 0, completionTokens: 0, requestCount: 0 }
+                history.push(record)
+            }
+            record.cost += cost ?? 0
+            record.promptTokens += usage.promptTokens
+            record.completionTokens += usage.completionTokens
+            record.requestCount += requestCount
+        }
+
+        // Arrays are stored as a whole, so assign a fresh one
+        this.config.store.ai.spendHistory = history
+        this.config.save()
+    }
+
+    /**
+     * Compare the spend so far (plus `pending`, the not yet recorded cost of
+     * a running agent) against the configured budgets. A budget of 0 is off.
+     */
+    checkBudget (pending = 0): BudgetStatus {
+        const { daily, monthly, warnAtPercent } = this.config.store.ai.budget
+        const limits: [string, number, number][] = [
+            ['Daily', daily, this.getSpent('day') + pending],
+            ['Monthly', monthly, this.getSpent('month') + pending],
+        ]
+
+        for (const [label, limit, spent] of limits) {
+            if (limit > 0 && spent >= limit) {
+                return {
+                    level: 'exceeded',
+                    message: `${label} AI budget of ${this.formatCost(limit)} exceeded (${this.formatCost(spent)} spent). Raise it in Settings → AI to continue.`,
+                }
+            }
+        }
+        for (const [label, limit, spent] of limits) {
+            if (limit > 0 && spent >= limit * warnAtPercent / 100) {
+                return {
+                    level: 'warning',
+                    message: `${label} AI budget ${Math.floor(spent / limit * 100)}% used (${this.formatCost(spent)} of ${this.formatCost(limit)})`,
+                }
+            }
+        }
+        return { level: 'ok' }
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * Record-and-replay of AI traffic.
+ *
+ * In 'record' mode every streaming request body and the raw chunks of its
+ * response are appended to a cassette file. In 'replay' mode those responses
+ * are served back without touching the network and decoded by the adapter
+ * that originally received them, so an agent session can be reproduced
+ * deterministically — for bug reports, offline demos, and end-to-end tests
+ * of AgentLoop/AIMiddleware.
+ *
+ * Request headers are never written, so API keys stay out of cassettes.
+ */
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { ChatMessage } from './ai.service'
+
+export type CassetteMode = 'off' | 'record' | 'replay'
+
+export interface CassetteInteraction {
+    /** Id of the AIProviderAdapter that produced the response */
+    provider: string
+    url: string
+    /** Request body as sent, in the provider's wire format */
+    request: any
+    /** Provider-independent conversation, used for matching on replay */
+    messages: ChatMessage[]
+    status: number
+    /** Response body exactly as received, chunk by chunk */
+    chunks: string[]
+}
+
+interface CassetteFile {
+    version: number
+    interactions: CassetteInteraction[]
+}
+
+const CASSETTE_VERSION = 1
+
+/**
+ * Conversation key used to match a request against recorded ones.
+ * System messages are left out — they embed the cwd, date and terminal
+ * context, which differ between the recording and the replay.
+ */
+function matchKey (messages: ChatMessage[]): string {
+    return JSON.stringify(messages
+        .filter(m => m.role !== 'system')
+        .map(m => [m.role, m.content, m.tool_calls?.map(c => [c.function?.name, c.function?.arguments])]))
+}
+
+export class Cassette {
+    private interactions: CassetteInteraction[] | null = null
+    /** Indices of interactions already served in this replay */
+    private used = new Set<number>()
+    /** Serializes appends so concurrent recordings don't clobber each other */
+    private saving = Promise.resolve()
+
+    constructor (
+        public readonly mode: Exclude<CassetteMode, 'off'>,
+        public readonly file: string,
+    ) { }
+
+    /**
+     * Pass a live response through, recording its body once it has been
+     * fully consumed. Aborted streams are not recorded.
+     */
+    record (exchange: Omit<CassetteInteraction, 'status' | 'chunks'>, response: Response): Response {
+        if (!response.body) {
+            return response
+        }
+
+        const chunks: string[] = []
+        const decoder = new TextDecoder()
+        const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+            transform (chunk, controller) {
+                chunks.push(decoder.decode(chunk, { stream: true }))
+                controller.enqueue(chunk)
+            },
+            flush: () => {
+                const tail = decoder.decode()
+                if (tail) {
+                    chunks.push(tail)
+                }
+                this.append({ ...exchange, status: response.status, chunks })
+            },
+        }))
+
+        return new Response(body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+        })
+    }
+
+    /**
+     * Find the recorded interaction for a conversation. Unused exact matches
+     * win; otherwise recordings are served in order, which keeps a replay
+     * going when tool output differs slightly from the recording.
+     */
+    async find (messages: ChatMessage[]): Promise<CassetteInteraction | null> {
+        const interactions = await this.load()
+        const key = matchKey(messages)
+
+        let index = interactions.findIndex((x, i) => !this.used.has(i) && matchKey(x.messages) === key)
+        if (index === -1) {
+            index = interactions.findIndex((_, i) => !this.used.has(i))
+        }
+        if (index === -1) {
+            index = interactions.findIndex(x => matchKey(x.messages) === key)
+        }
+        if (index === -1) {
+            return null
+        }
+
+        this.used.add(index)
+        return interactions[index]
+    }
+
+    /** Rebuild a fetch Response from a recorded interaction */
+    toResponse (interaction: CassetteInteraction): Response {
+        const encoder = new TextEncoder()
+        const body = new ReadableStream<Uint8Array>({
+            start (controller) {
+                for (const chunk of interaction.chunks) {
+                    controller.enqueue(encoder.encode(chunk))
+                }
+                controller.close()
+            },
+        })
+        return new Response(body, { status: interaction.status })
+    }
+
+    private async load (): Promise<CassetteInteraction[]> {
+        if (!this.interactions) {
+            try {
+                const file: CassetteFile = JSON.parse(await fs.readFile(this.file, 'utf-8'))
+                this.interactions = file.interactions
+            } catch (err: any) {
+                if (err.code !== 'ENOENT') {
+                    throw new Error(`Cannot read cassette ${this.file}: ${err.message}`)
+                }
+                this.interactions = []
+            }
+        }
+        return this.interactions
+    }
+
+    private append (interaction: CassetteInteraction): void {
+        this.saving = this.saving.then(async () => {
+            const interactions = await this.load()
+            interactions.push(interaction)
+            const file: CassetteFile = { version: CASSETTE_VERSION, interactions }
+            await fs.mkdir(path.dirname(this.file), { recursive: true })
+            await fs.writeFile(this.file, JSON.stringify(file, null, 2))
+        }).catch(err => {
+            console.error('[tabby-ai] Failed to write cassette:', err)
+        })
+    }
+}
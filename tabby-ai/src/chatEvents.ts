@@ -0,0 +1,38 @@
+/**
+ * Events of a terminal's AI session, for the chat panel that shows the
+ * same conversation — the panel's counterpart of gemini-cli's history
+ * items (packages/cli/src/ui/types.ts).
+ */
+
+export const enum ChatEventType {
+    /** A prompt or @/command was submitted, in the terminal or the panel */
+    Prompt = 'prompt',
+    /** Answer text (streamed chunk, Markdown) */
+    Content = 'content',
+    /** Reasoning text (streamed chunk) */
+    Thinking = 'thinking',
+    /** The model requested a tool; value is the ToolCallRequest */
+    ToolCall = 'tool_call',
+    /** A tool waits for approval; value is what it wants to do */
+    Confirm = 'confirm',
+    /** The pending approval was answered; value is true when approved */
+    Confirmed = 'confirmed',
+    /** Shell output of the running tool (streamed chunk) */
+    ToolOutput = 'tool_output',
+    /** A tool finished; value is { id, result } */
+    ToolResult = 'tool_result',
+    /** Status line, e.g. token usage */
+    Info = 'info',
+    /** Preformatted text written by an @/command */
+    Output = 'output',
+    Error = 'error',
+    /** The prompt or command finished */
+    Done = 'done',
+    /** The history was replaced, e.g. by @/clear or @/resume — read it again */
+    History = 'history',
+}
+
+export interface ChatEvent {
+    type: ChatEventType
+    value?: any
+}
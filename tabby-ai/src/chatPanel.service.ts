@@ -0,0 +1,68 @@
+import { Injectable } from '@angular/core'
+import { BehaviorSubject } from 'rxjs'
+import { AppService, TabsService } from 'tabby-core'
+import { BaseTerminalTabComponent } from 'tabby-terminal'
+import { AIMiddleware } from './aiMiddleware'
+import { AIChatTabComponent } from './components/aiChatTab.component'
+
+/**
+ * Links terminal tabs to their AI session, and opens chat panels on them.
+ * A panel follows the tab's current session, which changes when the tab
+ * reconnects — the conversation carries over either way.
+ */
+@Injectable()
+export class AIChatPanelService {
+    private sessions = new Map<BaseTerminalTabComponent<any>, BehaviorSubject<AIMiddleware | null>>()
+    private panels = new Map<BaseTerminalTabComponent<any>, AIChatTabComponent>()
+
+    constructor (
+        private app: AppService,
+        private tabsService: TabsService,
+    ) { }
+
+    /** Register the session the tab's AI middleware runs in */
+    setSession (tab: BaseTerminalTabComponent<any>, middleware: AIMiddleware): void {
+        this.getSubject(tab).next(middleware)
+    }
+
+    /** The tab is closed */
+    removeTab (tab: BaseTerminalTabComponent<any>): void {
+        this.sessions.get(tab)?.complete()
+        this.sessions.delete(tab)
+    }
+
+    hasSession (tab: BaseTerminalTabComponent<any>): boolean {
+        return !!this.sessions.get(tab)?.value
+    }
+
+    /** Show the tab's chat panel, splitting it off to the right of the tab */
+    async openPanel (tab: BaseTerminalTabComponent<any>): Promise<void> {
+        const existing = this.panels.get(tab)
+        if (existing) {
+            this.app.getParentTab(existing)?.focus(existing)
+            return
+        }
+        const parent = this.app.getParentTab(tab)
+        if (!parent) {
+            return
+        }
+
+        const panel = this.tabsService.create({
+            type: AIChatTabComponent,
+            inputs: { terminalTab: tab, session$: this.getSubject(tab).asObservable() },
+        })
+        this.panels.set(tab, panel)
+        panel.destroyed$.subscribe(() => this.panels.delete(tab))
+        await parent.addTab(panel, tab, 'r')
+        parent.focus(panel)
+    }
+
+    private getSubject (tab: BaseTerminalTabComponent<any>): BehaviorSubject<AIMiddleware | null> {
+        let subject = this.sessions.get(tab)
+        if (!subject) {
+            subject = new BehaviorSubject<AIMiddleware | null>(null)
+            this.sessions.set(tab, subject)
+        }
+        return subject
+    }
+}
@@ -0,0 +1,181 @@
+import { Injectable } from '@angular/core'
+import { ConfigService } from 'tabby-core'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { AIFileSystem } from './fileSystem'
+import { getDataDir } from './paths'
+
+/** A file as it was before an agent run first changed it */
+export interface CheckpointFile {
+    /** Absolute path */
+    path: string
+    /** False when the run created the file — restoring deletes it */
+    existed: boolean
+}
+
+/**
+ * The files one agent run changed, as listed by @/checkpoints — a take on
+ * gemini-cli's checkpointing (packages/cli/src/ui/commands/restoreCommand.ts),
+ * which keeps a shadow git repository instead.
+ */
+export interface Checkpoint {
+    id: string
+    /** The prompt of the run */
+    prompt: string
+    /** Working directory of the run */
+    cwd: string
+    /** user@host of an SSH tab the files are on; null, or absent in older checkpoints, for this machine */
+    host?: string | null
+    /** Conversation the run belongs to */
+    conversationId: string
+    /** Unix timestamp in milliseconds */
+    createdAt: number
+    files: CheckpointFile[]
+}
+
+/** What restoring checkpoints did, by path */
+export interface RestoreResult {
+    restored: string[]
+    deleted: string[]
+    failed: { path: string, error: string }[]
+}
+
+/**
+ * Snapshots files before the agent writes or edits them, grouped by agent
+ * run, under ~/.tabby-ai/checkpoints — outside of the project, so they
+ * never show up in it. Each checkpoint is a directory holding
+ * checkpoint.json and the previous content of each file, named by its
+ * index in `files`.
+ */
+@Injectable()
+export class AICheckpointService {
+    private retentionApplied = false
+
+    constructor (
+        private config: ConfigService,
+    ) { }
+
+    /** A checkpoint for a new agent run, written once it snapshots a file */
+    create (run: Pick<Checkpoint, 'prompt' | 'cwd' | 'host' | 'conversationId'>): Checkpoint {
+        return {
+            id: crypto.randomUUID(),
+            ...run,
+            createdAt: Date.now(),
+            files: [],
+        }
+    }
+
+    /**
+     * Save a file's content, null when it does not exist, before the run
+     * first changes it; later changes are ignored
+     */
+    async snapshot (checkpoint: Checkpoint, filePath: string, content: Buffer | null): Promise<void> {
+        if (checkpoint.files.some(f => f.path === filePath)) {
+            return
+        }
+
+        const dir = this.getDir(checkpoint.id)
+        await fs.mkdir(dir, { recursive: true })
+        if (content) {
+            await fs.writeFile(path.join(dir, `${checkpoint.files.length}`), content)
+        }
+        checkpoint.files.push({ path: filePath, existed: !!content })
+        await fs.writeFile(path.join(dir, 'checkpoint.json'), JSON.stringify(checkpoint))
+        await this.applyRetention()
+    }
+
+    /** Saved checkpoints, newest first */
+    async list (): Promise<Checkpoint[]> {
+        await this.applyRetention()
+        let ids: string[] = []
+        try {
+            ids = await fs.readdir(this.getRoot())
+        } catch {
+            return []
+        }
+
+        const result: Checkpoint[] = []
+        for (const id of ids) {
+            try {
+                result.push(JSON.parse(await fs.readFile(path.join(this.getDir(id), 'checkpoint.json'), 'utf-8')))
+            } catch {
+                // Not a checkpoint, or one that was never completed
+            }
+        }
+        return result.sort((a, b) => b.createdAt - a.createdAt)
+    }
+
+    /**
+     * Put the files of the given checkpoints back as they were, newest
+     * checkpoint first so the oldest state wins, and delete the
+     * checkpoints. Checkpoints with files that could not be restored are kept,
+     * as are those of another host than the one `files` is on.
+     */
+    async restore (checkpoints: Checkpoint[], files: AIFileSystem): Promise<RestoreResult> {
+        // Final state of each path, the oldest checkpoint having the last word
+        const restored = new Map<string, boolean>()
+        const failed: RestoreResult['failed'] = []
+        for (const checkpoint of [...checkpoints].sort((a, b) => b.createdAt - a.createdAt)) {
+            const failures = failed.length
+            const host = checkpoint.host ?? null
+            for (const [index, file] of checkpoint.files.entries()) {
+                if (host !== files.host) {
+                    failed.push({ path: file.path, error: `changed on ${host ?? 'this machine'}, restore it from a tab there` })
+                    continue
+                }
+                try {
+                    if (file.existed) {
+                        await files.writeFile(file.path, await fs.readFile(path.join(this.getDir(checkpoint.id), `${index}`)))
+                    } else {
+                        await files.deleteFile(file.path)
+                    }
+                    restored.delete(file.path)
+                    restored.set(file.path, file.existed)
+                } catch (err: any) {
+                    failed.push({ path: file.path, error: err.message })
+                }
+            }
+            if (failed.length === failures) {
+                await this.delete(checkpoint.id)
+            }
+        }
+        const entries = [...restored.entries()]
+        return {
+            restored: entries.filter(([, existed]) => existed).map(([p]) => p),
+            deleted: entries.filter(([, existed]) => !existed).map(([p]) => p),
+            failed,
+        }
+    }
+
+    async delete (id: string): Promise<void> {
+        await fs.rm(this.getDir(id), { recursive: true, force: true })
+    }
+
+    /**
+     * Delete checkpoints older than `ai.checkpointRetentionDays`.
+     * Runs once per app session.
+     */
+    private async applyRetention (): Promise<void> {
+        const days = this.config.store.ai.checkpointRetentionDays
+        if (this.retentionApplied || !days) {
+            return
+        }
+        this.retentionApplied = true
+
+        const cutoff = Date.now() - days * 24 * 3600 * 1000
+        for (const checkpoint of await this.list()) {
+            if (checkpoint.createdAt < cutoff) {
+                await this.delete(checkpoint.id)
+            }
+        }
+    }
+
+    private getRoot (): string {
+        return path.join(getDataDir(), 'checkpoints')
+    }
+
+    private getDir (id: string): string {
+        // Ids come from user input — keep them inside the directory
+        return path.join(this.getRoot(), path.basename(id))
+    }
+}
@@ -0,0 +1,91 @@
+import colors from 'ansi-colors'
+import { Injectable } from '@angular/core'
+import { AICommandContext, AISlashCommand } from '../api'
+import { AICheckpointService, Checkpoint } from '../checkpoints.service'
+
+/** A path relative to the shell's directory when it is inside it */
+function displayPath (context: AICommandContext, filePath: string): string {
+    const { path } = context.files
+    const relative = context.cwd ? path.relative(context.cwd, filePath) : filePath
+    return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : filePath
+}
+
+async function restore (context: AICommandContext, checkpoints: AICheckpointService, list: Checkpoint[]): Promise<void> {
+    const result = await checkpoints.restore(list, context.files)
+    for (const file of result.restored) {
+        context.write(colors.green(`    restored ${displayPath(context, file)}\n`))
+    }
+    for (const file of result.deleted) {
+        context.write(colors.yellow(`    deleted  ${displayPath(context, file)}\n`))
+    }
+    for (const failure of result.failed) {
+        context.write(colors.red(`    failed   ${displayPath(context, failure.path)}: ${failure.error}\n`))
+    }
+    const runs = `${list.length} run${list.length > 1 ? 's' : ''}`
+    context.print(result.failed.length ? `Reverted ${runs} partly; failed checkpoints are kept.` : `Reverted ${runs}.`)
+}
+
+/** @/undo — revert the files the last agent run changed */
+@Injectable()
+export class UndoCommand extends AISlashCommand {
+    name = 'undo'
+    description = 'Revert the file changes of the last agent run in this conversation'
+
+    constructor (private checkpoints: AICheckpointService) { super() }
+
+    async run (context: AICommandContext): Promise<void> {
+        const last = (await this.checkpoints.list()).find(c => c.conversationId === context.conversation.id)
+        if (!last) {
+            context.print('No file changes to undo in this conversation. @/checkpoints all lists the others.')
+            return
+        }
+        context.print(`Undoing "${last.prompt.slice(0, 60)}"`)
+        await restore(context, this.checkpoints, [last])
+    }
+}
+
+/** @/checkpoints — list agent runs that changed files, and rewind to one */
+@Injectable()
+export class CheckpointsCommand extends AISlashCommand {
+    name = 'checkpoints'
+    description = 'List file changes of agent runs ("all" for every conversation), or "restore <id>" to revert to before that run'
+    usage = '[all|restore <id>]'
+
+    constructor (private checkpoints: AICheckpointService) { super() }
+
+    async run (context: AICommandContext, args: string): Promise<void> {
+        const list = await this.checkpoints.list()
+        const [action, id] = args.split(/\s+/)
+        if (action === 'restore') {
+            await this.restore(context, list, id)
+            return
+        }
+
+        const all = action === 'all'
+        const shown = list.filter(c => all || c.conversationId === context.conversation.id).slice(0, 20)
+        if (!shown.length) {
+            context.print(all ? 'No checkpoints.' : 'No checkpoints in this conversation. Use @/checkpoints all to see every conversation.')
+            return
+        }
+        for (const c of shown) {
+            const date = new Date(c.createdAt).toLocaleString()
+            const files = c.files.map(f => displayPath(context, f.path) + (f.existed ? '' : colors.gray(' (new)')))
+            const host = c.host ? colors.gray(` on ${c.host}`) : ''
+            context.write(`  ${colors.cyan(c.id.slice(0, 8))} ${colors.gray(date)}${host} ${c.prompt.slice(0, 60)}\n`)
+            context.write(`           ${files.join(', ')}\n`)
+        }
+        context.print('Use @/checkpoints restore <id> to revert to before a run — later runs of its conversation are reverted too.')
+    }
+
+    private async restore (context: AICommandContext, list: Checkpoint[], id: string | undefined): Promise<void> {
+        const matches = id ? list.filter(c => c.id.startsWith(id)) : []
+        if (matches.length !== 1) {
+            context.print(id ? `No single checkpoint matches "${id}".` : 'Usage: @/checkpoints restore <id>')
+            return
+        }
+        const [target] = matches
+        // Files changed later may build on the run, so those runs go as well
+        const later = list.filter(c => c.conversationId === target.conversationId && c.createdAt >= target.createdAt)
+        await restore(context, this.checkpoints, later)
+    }
+}
@@ -0,0 +1,149 @@
+import colors from 'ansi-colors'
+import { Injectable } from '@angular/core'
+import * as os from 'os'
+import { ChatMessage } from '../ai.service'
+import { AICommandContext, AISlashCommand } from '../api'
+import { SUMMARY_PREFIX } from '../compaction'
+import { splitTerminalActivity } from '../contextCollector'
+import { AIConversationService } from '../conversations.service'
+
+/** @/clear — start over with an empty history */
+@Injectable()
+export class ClearCommand extends AISlashCommand {
+    name = 'clear'
+    description = 'Start a new conversation (the current one stays in @/history)'
+
+    run (context: AICommandContext): void {
+        context.newConversation()
+        context.print('Conversation cleared.')
+    }
+}
+
+/** @/compact — summarize older turns now */
+@Injectable()
+export class CompactCommand extends AISlashCommand {
+    name = 'compact'
+    description = 'Summarize the conversation so far to free up context'
+
+    async run (context: AICommandContext): Promise<void> {
+        await context.compact(true)
+    }
+}
+
+/** @/retry — ask the last question again */
+@Injectable()
+export class RetryCommand extends AISlashCommand {
+    name = 'retry'
+    description = 'Discard the last answer and ask again'
+
+    async run (context: AICommandContext): Promise<void> {
+        const index = context.history.map(m => m.role).lastIndexOf('user')
+        const content = context.history[index]?.content
+        if (!content || content.startsWith(SUMMARY_PREFIX)) {
+            context.print('Nothing to retry.')
+            return
+        }
+        context.history = context.history.slice(0, index)
+        // runAgent() leads it with the terminal activity again
+        await context.runAgent(splitTerminalActivity(content).prompt)
+    }
+}
+
+/** @/history — list saved conversations */
+@Injectable()
+export class HistoryCommand extends AISlashCommand {
+    name = 'history'
+    description = 'List saved conversations of this profile ("all" for every profile)'
+    usage = '[all]'
+
+    constructor (private conversations: AIConversationService) { super() }
+
+    async run (context: AICommandContext, args: string): Promise<void> {
+        const all = args === 'all'
+        const list = (await this.conversations.list())
+            .filter(c => all || c.profileId === context.conversation.profileId)
+            .slice(0, 20)
+        if (!list.length) {
+            context.print(all ? 'No saved conversations.' : 'No saved conversations for this profile. Use @/history all to see every profile.')
+            return
+        }
+        for (const c of list) {
+            const current = c.id === context.conversation.id ? colors.green(' (current)') : ''
+            const date = new Date(c.updatedAt).toLocaleString()
+            const profile = all ? colors.gray(` [${c.profileName}]`) : ''
+            context.write(`  ${colors.cyan(c.id.slice(0, 8))} ${colors.gray(date)}${profile} ${c.title} ${colors.gray(`(${c.messageCount} messages)`)}${current}\n`)
+        }
+        context.print('Use @/resume <id> to continue one.')
+    }
+}
+
+/** @/resume — continue a saved conversation */
+@Injectable()
+export class ResumeCommand extends AISlashCommand {
+    name = 'resume'
+    description = 'Continue a saved conversation'
+    usage = '<id>'
+
+    constructor (private conversations: AIConversationService) { super() }
+
+    async run (context: AICommandContext, args: string): Promise<void> {
+        if (!args) {
+            context.print('Usage: @/resume <id> — see @/history for ids.')
+            return
+        }
+        const conversation = await this.conversations.find(args)
+        if (!conversation) {
+            context.print(`No single saved conversation matches "${args}".`)
+            return
+        }
+        context.openConversation(conversation)
+        context.print(`Resumed "${conversation.title}" (${conversation.messages.length} messages).`)
+    }
+}
+
+/** @/export — write the conversation to a Markdown file */
+@Injectable()
+export class ExportCommand extends AISlashCommand {
+    name = 'export'
+    description = 'Save the conversation as Markdown (default: a new file in the current directory)'
+    usage = '[file]'
+
+    async run (context: AICommandContext, args: string): Promise<void> {
+        if (!context.history.length) {
+            context.print('Nothing to export yet.')
+            return
+        }
+
+        // Written where the tab's shell is — on the remote machine in SSH tabs
+        const { files } = context
+        const stamp = new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-')
+        try {
+            const dir = context.cwd ?? (files.host ? await files.getDefaultCwd() : os.homedir())
+            const file = files.path.resolve(dir, args || `tabby-ai-${stamp}.md`)
+            await files.writeFile(file, Buffer.from(this.toMarkdown(context.conversation.title, context.history)))
+            context.print(`Exported ${context.history.length} messages to ${files.host ? `${files.host}:` : ''}${file}`)
+        } catch (err: any) {
+            context.print(`Export failed: ${err.message}`)
+        }
+    }
+
+    private toMarkdown (title: string, messages: ChatMessage[]): string {
+        const parts = [`# ${title || 'AI conversation'}`, '']
+        for (const message of messages) {
+            if (message.role === 'user') {
+                parts.push('## User', '', message.content ?? '', '')
+            } else if (message.role === 'assistant') {
+                parts.push('## Assistant', '')
+                if (message.content) {
+                    parts.push(message.content, '')
+                }
+                for (const call of message.tool_calls ?? []) {
+                    parts.push(`**Tool call** \`${call.function?.name}\``, '', '```json', call.function?.arguments ?? '', '```', '')
+                }
+            } else if (message.role === 'tool') {
+                parts.push('**Tool result**', '', '```', message.content ?? '', '```', '')
+            }
+        }
+        return parts.join('\n')
+    }
+}
@@ -0,0 +1,90 @@
+import colors from 'ansi-colors'
+import { Injectable } from '@angular/core'
+import { AICommandContext, AISlashCommand } from '../api'
+import { AIMCPService, MCPServerState } from '../mcp.service'
+
+const STATUS_COLORS = {
+    running: colors.green,
+    starting: colors.yellow,
+    stopped: colors.gray,
+    error: colors.red,
+}
+
+/** `key=value` arguments of a prompt, values optionally quoted */
+function parsePromptArgs (text: string): Record<string, string> {
+    const args: Record<string, string> = {}
+    for (const match of text.matchAll(/(\w+)=("[^"]*"|'[^']*'|\S*)/g)) {
+        args[match[1]] = match[2].replace(/^(["'])([\s\S]*)\1$/, '$2')
+    }
+    return args
+}
+
+/**
+ * @/mcp — MCP servers with their tools, resources and prompts; runs
+ * prompts and reads resources. gemini-cli's /mcp, whose prompts are
+ * slash commands of their own.
+ */
+@Injectable()
+export class MCPCommand extends AISlashCommand {
+    name = 'mcp'
+    description = 'List MCP servers, or restart one, run one of their prompts, or read a resource'
+    usage = '[restart <server>|prompt <server> <name> [arg=value...]|read <server> <uri>]'
+
+    constructor (private mcp: AIMCPService) { super() }
+
+    async run (context: AICommandContext, args: string): Promise<void> {
+        const [action, serverName, name, ...rest] = args.split(/\s+/)
+        if (action === 'restart' && serverName) {
+            const server = this.mcp.getServers().find(s => s.server.name === serverName)
+            if (!server) {
+                context.print(`No MCP server named ${serverName}.`)
+                return
+            }
+            context.print(`Restarting ${serverName}...`)
+            await this.mcp.restart(server.server.id)
+            this.show(context, this.mcp.getServers().find(s => s.server.id === server.server.id)!)
+            return
+        }
+        if (action === 'prompt' && serverName && name) {
+            const prompt = await this.mcp.getPrompt(serverName, name, { args: parsePromptArgs(rest.join(' ')), signal: context.signal })
+            await context.runAgent(prompt)
+            return
+        }
+        if (action === 'read' && serverName && name) {
+            context.write(await this.mcp.readResource(serverName, name, context.signal) + '\n')
+            return
+        }
+
+        // Start what is enabled, so that the list shows what the agent gets
+        await this.mcp.getToolDefinitions()
+        const servers = this.mcp.getServers()
+        if (!servers.length) {
+            context.print('No MCP servers configured. Add them under Settings → AI Assistant → MCP Servers.')
+            return
+        }
+        for (const server of servers) {
+            this.show(context, server)
+        }
+    }
+
+    private show (context: AICommandContext, { server, status, error, tools, resources, prompts, clashingTools }: MCPServerState): void {
+        const trust = server.approval === 'allow' ? colors.gray(' (trusted)') : ''
+        context.write(`  ${colors.bold(server.name)} ${STATUS_COLORS[status](status)}${trust}\n`)
+        if (error) {
+            context.write(colors.red(`    ${error}\n`))
+        }
+        if (tools.length) {
+            context.write(`    tools: ${tools.map(t => t.name).join(', ')}\n`)
+        }
+        if (clashingTools.length) {
+            context.write(colors.yellow(`    not offered, their names clash with other tools: ${clashingTools.join(', ')}\n`))
+        }
+        for (const resource of resources.slice(0, 20)) {
+            context.write(colors.gray(`    resource ${resource.uri} — ${resource.description ?? resource.name}\n`))
+        }
+        for (const prompt of prompts) {
+            const promptArgs = (prompt.arguments ?? []).map(a => a.required ? `${a.name}=…` : `[${a.name}=…]`).join(' ')
+            context.write(colors.gray(`    prompt ${prompt.name} ${promptArgs}${prompt.description ? ` — ${prompt.description}` : ''}\n`))
+        }
+    }
+}
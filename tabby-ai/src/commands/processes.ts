@@ -0,0 +1,69 @@
+import colors from 'ansi-colors'
+import { Injectable } from '@angular/core'
+import { AICommandContext, AISlashCommand } from '../api'
+import { AIBackgroundService, BackgroundProcess } from '../background.service'
+
+/** Characters of output shown by @/processes output */
+const OUTPUT_CHARS = 4000
+
+const STATUS_COLORS = {
+    running: colors.green,
+    exited: colors.gray,
+    killed: colors.yellow,
+}
+
+function formatDuration (ms: number): string {
+    const seconds = Math.floor(ms / 1000)
+    if (seconds < 60) {
+        return `${seconds}s`
+    }
+    const minutes = Math.floor(seconds / 60)
+    return minutes < 60 ? `${minutes}m${seconds % 60}s` : `${Math.floor(minutes / 60)}h${minutes % 60}m`
+}
+
+/** @/processes — background commands the agent started, with their output */
+@Injectable()
+export class ProcessesCommand extends AISlashCommand {
+    name = 'processes'
+    description = 'List the background processes the agent started ("all" for every tab), show the output of one, or kill one'
+    usage = '[all|output <id>|kill <id>]'
+
+    constructor (private background: AIBackgroundService) { super() }
+
+    run (context: AICommandContext, args: string): void {
+        const [action, id] = args.split(/\s+/)
+        if (action === 'output' || action === 'kill') {
+            const process = this.background.get(context.tab, parseInt(id))
+            if (!process) {
+                context.print(id ? `No background process ${id} in this tab.` : `Usage: @/processes ${action} <id>`)
+                return
+            }
+            if (action === 'kill') {
+                this.background.kill(process.id)
+                context.print(`Killed process ${process.id}.`)
+                return
+            }
+            const output = this.background.readTail(process.id, OUTPUT_CHARS)
+            context.write(output.text.replace(/\n*$/, '\n'))
+            return
+        }
+
+        const all = action === 'all'
+        const list = this.background.list(all ? undefined : context.tab)
+        if (!list.length) {
+            context.print(all ? 'No background processes.' : 'No background processes in this tab. Use @/processes all to see every tab.')
+            return
+        }
+        for (const process of list) {
+            this.show(context, process, all)
+        }
+    }
+
+    private show (context: AICommandContext, process: BackgroundProcess, all: boolean): void {
+        const status = process.status === 'exited' ? `exited ${process.exitCode}` : process.status
+        const host = process.host ? colors.gray(` on ${process.host}`) : ''
+        const tab = all ? colors.gray(` in ${process.tab.title}`) : ''
+        const age = colors.gray(formatDuration(Date.now() - process.startedAt))
+        context.write(`  ${colors.cyan(String(process.id).padStart(3))} ${STATUS_COLORS[process.status](status)} ${age}${host}${tab} ${process.command}\n`)
+    }
+}
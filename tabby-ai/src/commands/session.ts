@@ -0,0 +1,127 @@
+import colors from 'ansi-colors'
+import { Injectable } from '@angular/core'
+import { ConfigService } from 'tabby-core'
+import { AIService } from '../ai.service'
+import { AICommandContext, AISlashCommand } from '../api'
+import { AIBudgetService } from '../budget.service'
+
+/** @/model — show or override the model for this session */
+@Injectable()
+export class ModelCommand extends AISlashCommand {
+    name = 'model'
+    description = 'Show the model, or use another one for this session ("reset" to undo)'
+    usage = '[name|reset]'
+
+    constructor (private ai: AIService) { super() }
+
+    run (context: AICommandContext, args: string): void {
+        if (args === 'reset' || args === 'default') {
+            context.modelOverride = null
+        } else if (args) {
+            context.modelOverride = args
+        }
+        const configuration = this.ai.getConfiguration(context.target.configurationId)
+        const model = context.modelOverride ?? (configuration.model || this.ai.getAdapter(configuration.provider)?.defaultModel)
+        context.print(`Model: ${model} (configuration: ${configuration.name}${context.modelOverride ? ', overridden for this session' : ''})`)
+    }
+}
+
+/** @/usage — token usage and spend of this session and overall */
+@Injectable()
+export class UsageCommand extends AISlashCommand {
+    name = 'usage'
+    description = 'Show token usage and cost of this session and in total'
+
+    constructor (
+        private ai: AIService,
+        private budget: AIBudgetService,
+        private config: ConfigService,
+    ) { super() }
+
+    run (context: AICommandContext): void {
+        const usage = context.sessionUsage
+        context.print('This session')
+        context.write(colors.gray(
+            `    ${usage.promptTokens.toLocaleString()} input (${usage.cachedTokens.toLocaleString()} cached) / ` +
+            `${usage.completionTokens.toLocaleString()} output / ${usage.totalTokens.toLocaleString()} total` +
+            (context.sessionCost > 0 ? ` — ${this.budget.formatCost(context.sessionCost)}` : '') + '\n',
+        ))
+
+        const stored = this.config.store.ai.tokenUsage ?? {}
+        const providers = Object.keys(stored).filter(p => stored[p]?.totalTokens > 0).sort()
+        if (providers.length) {
+            context.print('All time')
+            for (const provider of providers) {
+                const s = stored[provider]
+                const label = this.ai.getAdapter(provider)?.name ?? provider
+                context.write(colors.gray(
+                    `    ${label}: ${s.requestCount.toLocaleString()} runs, ` +
+                    `${s.promptTokens.toLocaleString()} input / ${s.completionTokens.toLocaleString()} output\n`,
+                ))
+            }
+        }
+
+        context.print(`Spent today: ${this.budget.formatCost(this.budget.getSpent('day'))}, this month: ${this.budget.formatCost(this.budget.getSpent('month'))}`)
+    }
+}
+
+/** @/context — what the next prompt would be sent with */
+@Injectable()
+export class ContextCommand extends AISlashCommand {
+    name = 'context'
+    description = 'Show what would be sent to the model ("full" includes the system prompt)'
+    usage = '[full]'
+
+    constructor (private ai: AIService) { super() }
+
+    run (context: AICommandContext, args: string): void {
+        const window = this.ai.getContextWindow(context.target)
+        const messages = context.buildRequest()
+        const tokens = window.estimateMessagesTokens(messages)
+        const percent = Math.round(tokens / window.size * 100)
+
+        context.print(`~${tokens.toLocaleString()} of ${window.size.toLocaleString()} tokens (${percent}%) in ${messages.length} messages`)
+        for (const message of messages) {
+            const size = colors.gray(`~${window.estimateMessageTokens(message).toLocaleString()}`)
+            if (message.role === 'system' && args === 'full') {
+                context.write(`    ${colors.cyan('system')} ${size}\n${colors.gray(message.content ?? '')}\n`)
+                continue
+            }
+            let preview = (message.content ?? '').replace(/\s+/g, ' ').trim()
+            if (message.tool_calls?.length) {
+                preview = message.tool_calls.map(c => `${c.function?.name}(${c.function?.arguments ?? ''})`).join(', ')
+            }
+            if (preview.length > 70) {
+                preview = preview.slice(0, 69) + '…'
+            }
+            context.write(`    ${colors.cyan(message.role.padEnd(9))} ${size.padEnd(16)} ${preview}\n`)
+        }
+    }
+}
+
+/** @/help — list the available commands */
+@Injectable()
+export class HelpCommand extends AISlashCommand {
+    name = 'help'
+    description = 'List the available commands'
+
+    run (context: AICommandContext): void {
+        context.print('Type "@ " and a prompt to ask the AI, or one of these commands:')
+        for (const command of context.commands) {
+            const syntax = `/${command.name}${command.usage ? ' ' + command.usage : ''}`
+            context.write(`    ${colors.cyan(syntax.padEnd(24))} ${colors.gray(command.description)}\n`)
+        }
+        context.print('Tab completes command names.')
+    }
+}
+
+/** @/panel — show the conversation in the chat panel */
+@Injectable()
+export class PanelCommand extends AISlashCommand {
+    name = 'panel'
+    description = 'Open the chat panel next to the terminal'
+
+    run (context: AICommandContext): void {
+        context.openPanel()
+    }
+}
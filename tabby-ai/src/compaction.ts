@@ -0,0 +1,127 @@
+/**
+ * Conversation compaction — older turns are summarized by the model into a
+ * single summary message once the history approaches the context window.
+ * Mirrors gemini-cli's ChatCompressionService
+ * (packages/core/src/services/chatCompressionService.ts): compress at 70%
+ * of the token limit, keep the newest 30% of the history verbatim.
+ */
+
+import type { AIService, ChatMessage } from './ai.service'
+import type { AIRequestTarget } from './api'
+import { ContextWindow } from './contextWindow'
+import { EventType, ProviderUsage } from './streamEvents'
+
+/** Share of the history (by tokens) kept verbatim after compaction */
+const PRESERVE_FRACTION = 0.3
+
+/** Marks the summary message, so a later compaction can fold it in */
+export const SUMMARY_PREFIX = '[Conversation summary]'
+
+const COMPACTION_PROMPT = [
+    'You are compacting the history of a conversation between a user and an AI assistant embedded in a terminal.',
+    'The conversation so far is given above. Write a summary that will replace it, so the assistant can continue seamlessly.',
+    'If it starts with an earlier summary, fold that summary in.',
+    '',
+    'The summary must preserve:',
+    '- The user\'s goals and requests, and whether they were completed',
+    '- Decisions made and the reasons for them',
+    '- Every file path read, created or modified, with what changed',
+    '- Commands that were run and their relevant results (errors, versions, key output)',
+    '- Open questions and next steps',
+    '',
+    'Use concise Markdown bullet points under these headings. Omit small talk. Do not invent anything.',
+].join('\n')
+
+export interface CompactionResult {
+    /** The new history: summary, acknowledgement, then the preserved turns */
+    history: ChatMessage[]
+    /** Number of messages replaced by the summary */
+    summarizedCount: number
+    tokensBefore: number
+    tokensAfter: number
+    /** Token usage of the summarization request */
+    usage: ProviderUsage[]
+}
+
+/**
+ * Index at which the preserved part of the history starts. Always a user
+ * message, so assistant tool calls stay next to their results.
+ */
+function findSplitPoint (history: ChatMessage[], context: ContextWindow): number {
+    const total = context.estimateMessagesTokens(history)
+    let kept = 0
+    let split = history.length
+    for (let i = history.length - 1; i > 0; i--) {
+        kept += context.estimateMessageTokens(history[i])
+        if (kept > total * PRESERVE_FRACTION) {
+            break
+        }
+        if (history[i].role === 'user') {
+            split = i
+        }
+    }
+    return split
+}
+
+/**
+ * Summarize the older part of `history`. Returns null when there is nothing
+ * worth compacting. Throws if the summarization request fails.
+ *
+ * With `force` the whole history is summarized if no split point is found.
+ */
+export async function compactHistory (
+    ai: AIService,
+    history: ChatMessage[],
+    options: { target?: AIRequestTarget, signal?: AbortSignal, force?: boolean } = {},
+): Promise<CompactionResult | null> {
+    const { target = {} } = options
+    const context = ai.getContextWindow(target)
+    const split = findSplitPoint(history, context)
+    if (!options.force && (split >= history.length || split < 2)) {
+        return null
+    }
+
+    const older = history.slice(0, split)
+    const alreadyCompacted = older.length <= 2 && older[0]?.content?.startsWith(SUMMARY_PREFIX)
+    if (!older.length || alreadyCompacted) {
+        return null
+    }
+    const recent = history.slice(split)
+
+    const messages = context.fit([
+        { role: 'system', content: COMPACTION_PROMPT },
+        ...older,
+        { role: 'user', content: 'Write the summary of the conversation above now.' },
+    ])
+
+    let summary = ''
+    const usage: ProviderUsage[] = []
+    for await (const event of ai.streamWithTools(messages, [], { signal: options.signal, target })) {
+        if (event.type === EventType.Content) {
+            summary += event.value
+        } else if (event.type === EventType.Usage) {
+            usage.push(event.value)
+        } else if (event.type === EventType.Error) {
+            throw new Error(event.value)
+        }
+    }
+    if (options.signal?.aborted) {
+        return null
+    }
+    if (!summary.trim()) {
+        throw new Error('The model returned an empty summary')
+    }
+
+    const compacted: ChatMessage[] = [
+        { role: 'user', content: `${SUMMARY_PREFIX}\n${summary.trim()}` },
+        { role: 'assistant', content: 'Got it. Thanks for the additional context!' },
+        ...recent,
+    ]
+    return {
+        history: compacted,
+        summarizedCount: older.length,
+        tokensBefore: context.estimateMessagesTokens(history),
+        tokensAfter: context.estimateMessagesTokens(compacted),
+        usage,
+    }
+}
@@ -0,0 +1,319 @@
+import { ChangeDetectorRef, Component, ElementRef, Injector, OnInit, ViewChild } from '@angular/core'
+import { Observable, Subscription } from 'rxjs'
+import { BaseTabComponent, NotificationsService, PlatformService } from 'tabby-core'
+import { BaseTerminalTabComponent } from 'tabby-terminal'
+import { ChatMessage } from '../ai.service'
+import { AIMiddleware } from '../aiMiddleware'
+import { ChatEvent, ChatEventType } from '../chatEvents'
+import { SUMMARY_PREFIX } from '../compaction'
+import { splitTerminalActivity } from '../contextCollector'
+import { isSafeLink, MarkdownBlock, renderMarkdownHtml } from '../markdownHtml'
+import { ToolCallRequest } from '../streamEvents'
+
+// eslint-disable-next-line no-control-regex
+const SGR = /\x1b\[[\d;]*m/g
+
+interface ToolView {
+    id: string
+    name: string
+    /** Arguments, pretty-printed */
+    args: string
+    /** Main argument shown in the collapsed header, e.g. the command */
+    summary: string
+    /** Shell output streamed while running */
+    output: string
+    /** What the model was sent, null while running */
+    result: string | null
+    expanded: boolean
+}
+
+interface DiffLine {
+    text: string
+    /** CSS class */
+    kind: 'diff-header' | 'diff-hunk' | 'diff-added' | 'diff-removed' | 'diff-context'
+}
+
+interface ChatItem {
+    kind: 'user' | 'assistant' | 'thinking' | 'tool' | 'info' | 'output' | 'error'
+    text: string
+    /** Terminal activity sent along with a prompt */
+    activity?: string | null
+    blocks?: MarkdownBlock[]
+    tool?: ToolView
+}
+
+function getDiffLineKind (line: string, index: number): DiffLine['kind'] {
+    if (index < 2) {
+        return 'diff-header'
+    }
+    if (line.startsWith('@@')) {
+        return 'diff-hunk'
+    }
+    if (line.startsWith('+')) {
+        return 'diff-added'
+    }
+    return line.startsWith('-') ? 'diff-removed' : 'diff-context'
+}
+
+/**
+ * The conversation of a terminal tab as a chat, split off next to the
+ * terminal. Both share one AIMiddleware, so a conversation can go on in
+ * either of them.
+ */
+@Component({
+    selector: 'ai-chat-tab',
+    templateUrl: './aiChatTab.component.pug',
+    styleUrls: ['./aiChatTab.component.scss'],
+})
+export class AIChatTabComponent extends BaseTabComponent implements OnInit {
+    terminalTab: BaseTerminalTabComponent<any>
+    /** The terminal's AI session, replaced when the terminal reconnects */
+    session$: Observable<AIMiddleware | null>
+    session: AIMiddleware | null = null
+    items: ChatItem[] = []
+    prompt = ''
+    /** Reason typed for denying the pending approval */
+    rejectReason = ''
+
+    @ViewChild('scroller') scroller?: ElementRef<HTMLElement>
+    @ViewChild('input') input?: ElementRef<HTMLTextAreaElement>
+
+    private eventsSubscription?: Subscription
+    /** Lines of the last diff shown, and the diff they are of */
+    private diffLines: DiffLine[] = []
+    private diffSource: string | null = null
+
+    private platform: PlatformService
+    private notifications: NotificationsService
+    private changeDetector: ChangeDetectorRef
+
+    constructor (injector: Injector) {
+        super(injector)
+        this.platform = injector.get(PlatformService)
+        this.notifications = injector.get(NotificationsService)
+        this.changeDetector = injector.get(ChangeDetectorRef)
+        this.icon = 'fas fa-robot'
+    }
+
+    ngOnInit (): void {
+        this.setTitle(`AI: ${this.terminalTab.title}`)
+        this.subscribeUntilDestroyed(this.terminalTab.titleChange$, title => this.setTitle(`AI: ${title}`))
+        this.subscribeUntilDestroyed(this.terminalTab.destroyed$, () => this.destroy())
+        this.subscribeUntilDestroyed(this.session$, session => this.attach(session))
+        this.subscribeUntilDestroyed(this.focused$, () => this.input?.nativeElement.focus())
+    }
+
+    onInputKeyDown (event: KeyboardEvent): void {
+        // Enter sends, Shift+Enter starts a new line
+        if (event.key === 'Enter' && !event.shiftKey) {
+            event.preventDefault()
+            this.send()
+        }
+    }
+
+    send (): void {
+        const text = this.prompt.trim()
+        if (!text || !this.session || this.session.isBusy) {
+            return
+        }
+        this.prompt = ''
+        this.session.submit(text)
+    }
+
+    approve (approved: boolean, always = false): void {
+        this.session?.approve(approved, always)
+    }
+
+    reject (): void {
+        this.session?.reject(this.rejectReason.trim())
+        this.rejectReason = ''
+    }
+
+    /** The pending diff, split into lines to color */
+    getDiffLines (): DiffLine[] {
+        const diff = this.session?.pendingDiff ?? null
+        if (diff !== this.diffSource) {
+            this.diffSource = diff
+            this.diffLines = (diff ?? '').split('\n').map((text, index) => ({ text, kind: getDiffLineKind(text, index) }))
+        }
+        return this.diffLines
+    }
+
+    stop (): void {
+        this.session?.abort()
+    }
+
+    copy (code: string): void {
+        this.platform.setClipboard({ text: code })
+        this.notifications.notice('Copied')
+    }
+
+    /** Links in answers open in the browser instead of the app window */
+    onMessagesClick (event: MouseEvent): void {
+        const link = (event.target as HTMLElement).closest('a')
+        if (!link) {
+            return
+        }
+        event.preventDefault()
+        // The model wrote the link; anything else could launch a local program
+        const href = link.getAttribute('href')
+        if (href && isSafeLink(href)) {
+            this.platform.openExternal(href)
+        }
+    }
+
+    ngOnDestroy (): void {
+        this.eventsSubscription?.unsubscribe()
+        super.ngOnDestroy()
+    }
+
+    private attach (session: AIMiddleware | null): void {
+        this.eventsSubscription?.unsubscribe()
+        this.session = session
+        this.loadHistory()
+        if (session) {
+            this.eventsSubscription = session.events$.subscribe(event => {
+                this.onEvent(event)
+                this.update()
+            })
+        }
+        this.update()
+    }
+
+    private loadHistory (): void {
+        this.items = []
+        for (const message of this.session?.history ?? []) {
+            this.addMessage(message)
+        }
+    }
+
+    private addMessage (message: ChatMessage): void {
+        const content = message.content ?? ''
+        if (message.role === 'user') {
+            if (content.startsWith(SUMMARY_PREFIX)) {
+                this.items.push({ kind: 'info', text: 'Earlier messages were summarized.' })
+                return
+            }
+            const { activity, prompt } = splitTerminalActivity(content)
+            this.items.push({ kind: 'user', text: prompt, activity })
+        } else if (message.role === 'assistant') {
+            if (content) {
+                this.addContent(content)
+            }
+            for (const call of message.tool_calls ?? []) {
+                this.addToolCall(call)
+            }
+        } else if (message.role === 'tool') {
+            const tool = this.findTool(message.tool_call_id)
+            if (tool) {
+                tool.result = content
+            }
+        }
+    }
+
+    private onEvent (event: ChatEvent): void {
+        switch (event.type) {
+            case ChatEventType.Prompt:
+                this.items.push({ kind: 'user', text: event.value })
+                break
+            case ChatEventType.Content:
+                this.addContent(event.value.replace(/\r/g, ''))
+                break
+            case ChatEventType.Thinking:
+                if (this.config.store.ai.thinkingDisplay !== 'hide') {
+                    this.append('thinking', event.value)
+                }
+                break
+            case ChatEventType.ToolCall:
+                this.addToolCall(event.value)
+                break
+            case ChatEventType.ToolOutput: {
+                const tool = this.findTool()
+                if (tool) {
+                    tool.output += event.value
+                }
+                break
+            }
+            case ChatEventType.ToolResult: {
+                const tool = this.findTool(event.value.id)
+                if (tool) {
+                    tool.result = event.value.result
+                }
+                break
+            }
+            case ChatEventType.Info:
+                this.items.push({ kind: 'info', text: event.value.replace(SGR, '') })
+                break
+            case ChatEventType.Output:
+                this.append('output', event.value.replace(SGR, ''))
+                break
+            case ChatEventType.Error:
+                this.items.push({ kind: 'error', text: event.value })
+                break
+            case ChatEventType.History:
+                this.loadHistory()
+                break
+            case ChatEventType.Confirm:
+            case ChatEventType.Confirmed:
+            case ChatEventType.Done:
+                // Shown from the session's state
+                break
+        }
+    }
+
+    /** Continue the last item of this kind, or start one */
+    private append (kind: ChatItem['kind'], text: string): ChatItem {
+        const last = this.items[this.items.length - 1] as ChatItem | undefined
+        if (last?.kind === kind) {
+            last.text += text
+            return last
+        }
+        const item: ChatItem = { kind, text }
+        this.items.push(item)
+        return item
+    }
+
+    private addContent (text: string): void {
+        const item = this.append('assistant', text)
+        item.blocks = renderMarkdownHtml(item.text)
+    }
+
+    private addToolCall (call: ToolCallRequest): void {
+        let args: any = call.function.arguments
+        try {
+            args = JSON.parse(call.function.arguments)
+        } catch {
+            // Shown as sent
+        }
+        const summary = typeof args === 'object' ? Object.values(args ?? {}).find(v => typeof v === 'string') : null
+        this.items.push({
+            kind: 'tool',
+            text: '',
+            tool: {
+                id: call.id,
+                name: call.function.name,
+                args: typeof args === 'string' ? args : JSON.stringify(args, null, 2),
+                summary: typeof summary === 'string' ? summary.split('\n')[0].slice(0, 120) : '',
+                output: '',
+                result: null,
+                expanded: false,
+            },
+        })
+    }
+
+    /** The tool call with this id, or the latest one */
+    private findTool (id?: string): ToolView | undefined {
+        const tools = this.items.map(item => item.tool).filter((tool): tool is ToolView => !!tool)
+        return id ? tools.find(tool => tool.id === id) : tools[tools.length - 1]
+    }
+
+    /** Render, and keep following the end of the chat unless scrolled up */
+    private update (): void {
+        const element = this.scroller?.nativeElement
+        const atBottom = !element || element.scrollHeight - element.scrollTop - element.clientHeight < 40
+        this.changeDetector.detectChanges()
+        if (element && atBottom) {
+            element.scrollTop = element.scrollHeight
+        }
+    }
+}
@@ -0,0 +1,18 @@
+import { Component } from '@angular/core'
+import { ConfigService } from 'tabby-core'
+import { AIProfileFields } from '../api'
+
+/** AI configuration of a profile, in the profile editor of every profile type */
+@Component({
+    templateUrl: './aiProfileSettings.component.pug',
+})
+export class AIProfileSettingsComponent {
+    /** The profile as stored, or the defaults of a profile type or group */
+    profile: AIProfileFields
+
+    constructor (public config: ConfigService) { }
+
+    setConfiguration (id: string): void {
+        this.profile.aiConfiguration = id || null
+    }
+}
@@ -1,16 +1,37 @@
-import { Component, ChangeDetectorRef, HostBinding, OnInit, OnDestroy } from '@angular/core'
+import { Component, ChangeDetectorRef, HostBinding, Inject, OnInit, OnDestroy } from '@angular/core'
 import { ConfigService } from 'tabby-core'
 import { Subscription } from 'rxjs'
-import { PROVIDER_PRESETS } from '../providers'
-
-/** Provider key → display label */
-const PROVIDER_LABELS: Record<string, string> = {
-    openai: 'OpenAI',
-    gemini: 'Google Gemini',
-    ollama: 'Ollama',
-    deepseek: 'DeepSeek',
-    azure: 'Azure OpenAI',
-    custom: 'Custom',
+import { AIService, ConnectionTestResult } from '../ai.service'
+import { AIConfiguration, AIMCPServer, AIPermissionRule, AIProfileFields, AIProviderAdapter, AIToolProvider } from '../api'
+import { AIBudgetService, localDate, SpendRecord } from '../budget.service'
+import { AIConversationService } from '../conversations.service'
+import { AIMCPService, MCPServerState } from '../mcp.service'
+import { SHELL_TOOL } from '../permissions'
+import { DEFAULT_PRICING, ModelPrice } from '../pricing'
+
+/** Command line arguments, split at spaces outside of quotes */
+function parseArgs (text: string): string[] {
+    return (text.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map(arg => arg.replace(/^(["'])([\s\S]*)\1$/, '$2'))
+}
+
+/** One `key<separator>value` per line */
+function parsePairs (text: string, separator: string): Record<string, string> {
+    const pairs: Record<string, string> = {}
+    for (const line of text.split('\n')) {
+        const index = line.indexOf(separator)
+        if (index > 0) {
+            pairs[line.slice(0, index).trim()] = line.slice(index + separator.length).trim()
+        }
+    }
+    return pairs
+}
+
+/** Spend summed over a group of SpendRecords */
+interface SpendSummary {
+    label: string
+    cost: number
+    requestCount: number
+    tokens: number
 }
 
 @Component({
@@ -19,43 +40,281 @@ const PROVIDER_LABELS: Record<string, string> = {
 export class AISettingsTabComponent implements OnInit, OnDestroy {
     @HostBinding('class.content-box') true
 
+    adapters: AIProviderAdapter[]
+    models: string[] = []
+    modelsError: string | null = null
+    fetchingModels = false
+    testResult: ConnectionTestResult | null = null
+    testing = false
+    /** Connection test results of named configurations, by id */
+    configurationTests: Record<string, ConnectionTestResult> = {}
+    testingConfiguration: string | null = null
+    /** Working copy of `ai.pricing` — edits are written back as a whole */
+    pricing: ModelPrice[]
+    /** Working copy of `ai.permissions.rules`, written back like pricing */
+    permissionRules: AIPermissionRule[]
+    /** Tools rules can target */
+    permissionTools: { id: string, name: string }[]
+
+    savedConversations: number | null = null
+
+    /** Servers being restarted, by id */
+    restartingMCPServers = new Set<string>()
+
     private configSub?: Subscription
+    private mcpSub?: Subscription
 
     constructor (
         public config: ConfigService,
+        public budget: AIBudgetService,
+        private ai: AIService,
+        private conversations: AIConversationService,
+        private mcp: AIMCPService,
         private cdr: ChangeDetectorRef,
-    ) {}
+        @Inject(AIToolProvider) toolProviders: AIToolProvider[],
+    ) {
+        this.adapters = ai.getAdapters()
+        this.permissionTools = [
+            { id: '*', name: 'Any tool' },
+            ...toolProviders.map(t => ({ id: t.definition.function.name, name: t.title })),
+        ]
+        this.pricing = budget.getPricing().map(p => ({ ...p }))
+        this.permissionRules = (config.store.ai.permissions.rules as AIPermissionRule[]).map(r => ({ ...r }))
+    }
 
     ngOnInit (): void {
+        this.conversations.list().then(list => {
+            this.savedConversations = list.length
+        })
+
         // Re-render when config changes (e.g. token usage updated from middleware)
         this.configSub = this.config.changed$.subscribe(() => {
             this.cdr.markForCheck()
             this.cdr.detectChanges()
         })
+        // Server states change in the background
+        this.mcpSub = this.mcp.changed$.subscribe(() => {
+            this.cdr.markForCheck()
+            this.cdr.detectChanges()
+        })
     }
 
     ngOnDestroy (): void {
         this.configSub?.unsubscribe()
+        this.mcpSub?.unsubscribe()
+    }
+
+    get currentAdapter (): AIProviderAdapter | null {
+        return this.ai.getAdapter(this.config.store.ai.provider)
     }
 
     onProviderChange (): void {
-        const provider = this.config.store.ai.provider
-        const preset = PROVIDER_PRESETS[provider]
-        if (preset) {
+        const adapter = this.currentAdapter
+        if (adapter) {
             // Clear baseUrl so the preset is used, update model to the preset default
             this.config.store.ai.baseUrl = ''
-            this.config.store.ai.model = preset.defaultModel
+            this.config.store.ai.model = adapter.defaultModel
+        }
+        this.models = []
+        this.modelsError = null
+        this.testResult = null
+    }
+
+    async fetchModels (): Promise<void> {
+        this.fetchingModels = true
+        this.modelsError = null
+        try {
+            this.models = await this.ai.listModels()
+            if (!this.models.length) {
+                this.modelsError = 'The provider returned no models.'
+            }
+        } catch (err: any) {
+            this.models = []
+            this.modelsError = err.message
+        } finally {
+            this.fetchingModels = false
+        }
+    }
+
+    async testConnection (): Promise<void> {
+        this.testing = true
+        this.testResult = null
+        try {
+            this.testResult = await this.ai.testConnection()
+        } finally {
+            this.testing = false
         }
     }
 
     getBaseUrlPlaceholder (): string {
-        const provider = this.config.store.ai.provider
-        return PROVIDER_PRESETS[provider]?.baseUrl || 'https://your-endpoint.com/v1/'
+        const url = this.currentAdapter?.defaultBaseUrl
+        return url ? url : 'https://your-endpoint.com/v1/'
     }
 
     getModelPlaceholder (): string {
-        const provider = this.config.store.ai.provider
-        return PROVIDER_PRESETS[provider]?.defaultModel || 'model-name'
+        const model = this.currentAdapter?.defaultModel
+        return model ? model : 'model-name'
+    }
+
+    // --- Named configurations ---
+
+    getAdapterFor (configuration: AIConfiguration): AIProviderAdapter | null {
+        return this.ai.getAdapter(configuration.provider)
+    }
+
+    addConfiguration (): void {
+        const [adapter] = this.adapters
+        this.config.store.ai.configurations.push({
+            id: crypto.randomUUID(),
+            name: `Configuration ${this.config.store.ai.configurations.length + 1}`,
+            provider: adapter.id,
+            baseUrl: '',
+            apiKey: '',
+            model: adapter.defaultModel,
+            deployment: '',
+            apiVersion: '',
+        })
+        this.config.save()
+    }
+
+    removeConfiguration (configuration: AIConfiguration): void {
+        this.config.store.ai.configurations = this.config.store.ai.configurations.filter(c => c.id !== configuration.id)
+        this.config.store.ai.fallbackConfigurations = this.config.store.ai.fallbackConfigurations.filter(id => id !== configuration.id)
+        for (const profile of this.config.store.profiles as AIProfileFields[]) {
+            if (profile.aiConfiguration === configuration.id) {
+                profile.aiConfiguration = null
+            }
+        }
+        this.config.save()
+    }
+
+    onConfigurationProviderChange (configuration: AIConfiguration): void {
+        const adapter = this.getAdapterFor(configuration)
+        if (adapter) {
+            configuration.baseUrl = ''
+            configuration.model = adapter.defaultModel
+        }
+        this.configurationTests = Object.fromEntries(
+            Object.entries(this.configurationTests).filter(([id]) => id !== configuration.id),
+        )
+        this.config.save()
+    }
+
+    async testConfiguration (configuration: AIConfiguration): Promise<void> {
+        this.testingConfiguration = configuration.id
+        try {
+            this.configurationTests[configuration.id] = await this.ai.testConnection({ configurationId: configuration.id })
+        } finally {
+            this.testingConfiguration = null
+        }
+    }
+
+    // --- Fallback chain ---
+
+    getConfigurationName (id: string): string {
+        return this.ai.getConfigurations().find(c => c.id === id)?.name ?? id
+    }
+
+    /** Configurations not yet in the fallback chain */
+    getFallbackCandidates (): AIConfiguration[] {
+        const chain = this.config.store.ai.fallbackConfigurations as string[]
+        return this.ai.getConfigurations().filter(c => !chain.includes(c.id))
+    }
+
+    addFallback (id: string): void {
+        this.config.store.ai.fallbackConfigurations = [...this.config.store.ai.fallbackConfigurations, id]
+        this.config.save()
+    }
+
+    removeFallback (index: number): void {
+        this.config.store.ai.fallbackConfigurations = this.config.store.ai.fallbackConfigurations.filter((_, i) => i !== index)
+        this.config.save()
+    }
+
+    moveFallback (index: number, delta: number): void {
+        const chain = [...this.config.store.ai.fallbackConfigurations]
+        const [id] = chain.splice(index, 1)
+        chain.splice(index + delta, 0, id)
+        this.config.store.ai.fallbackConfigurations = chain
+        this.config.save()
+    }
+
+    // --- Permissions ---
+
+    savePermissionRules (): void {
+        this.config.store.ai.permissions.rules = this.permissionRules.map(r => ({ ...r }))
+        this.config.save()
+    }
+
+    addPermissionRule (): void {
+        this.permissionRules.push({ action: 'allow', tool: SHELL_TOOL, pattern: '', cwd: '', profileId: '' })
+        this.savePermissionRules()
+    }
+
+    removePermissionRule (index: number): void {
+        this.permissionRules.splice(index, 1)
+        this.savePermissionRules()
+    }
+
+    // --- MCP Servers ---
+
+    getMCPState (server: AIMCPServer): MCPServerState | undefined {
+        return this.mcp.getServers().find(s => s.server.id === server.id)
+    }
+
+    addMCPServer (): void {
+        this.config.store.ai.mcpServers = [...this.config.store.ai.mcpServers, {
+            id: crypto.randomUUID(),
+            name: `server${this.config.store.ai.mcpServers.length + 1}`,
+            enabled: true,
+            transport: 'stdio',
+            command: '',
+            args: [],
+            env: {},
+            cwd: '',
+            url: '',
+            headers: {},
+            approval: 'ask',
+            timeout: 600000,
+        } as AIMCPServer]
+        this.config.save()
+    }
+
+    removeMCPServer (server: AIMCPServer): void {
+        this.config.store.ai.mcpServers = this.config.store.ai.mcpServers.filter(s => s.id !== server.id)
+        this.config.save()
+    }
+
+    async restartMCPServer (server: AIMCPServer): Promise<void> {
+        this.restartingMCPServers.add(server.id)
+        try {
+            await this.mcp.restart(server.id)
+        } finally {
+            this.restartingMCPServers.delete(server.id)
+        }
+    }
+
+    formatArgs (args: string[]): string {
+        return args.map(arg => /\s/.test(arg) ? `"${arg}"` : arg).join(' ')
+    }
+
+    setArgs (server: AIMCPServer, text: string): void {
+        server.args = parseArgs(text)
+        this.config.save()
+    }
+
+    formatPairs (pairs: Record<string, string>, separator: string): string {
+        return Object.entries(pairs).map(([key, value]) => `${key}${separator}${value}`).join('\n')
+    }
+
+    setEnv (server: AIMCPServer, text: string): void {
+        server.env = parsePairs(text, '=')
+        this.config.save()
+    }
+
+    setHeaders (server: AIMCPServer, text: string): void {
+        server.headers = parsePairs(text, ': ')
+        this.config.save()
     }
 
     // --- Token Usage History ---
@@ -67,7 +326,7 @@ export class AISettingsTabComponent implements OnInit, OnDestroy {
     }
 
     getProviderLabel (provider: string): string {
-        return PROVIDER_LABELS[provider] || provider
+        return this.ai.getAdapter(provider)?.name ?? provider
     }
 
     formatNumber (n: number): string {
@@ -103,6 +362,68 @@ export class AISettingsTabComponent implements OnInit, OnDestroy {
         this.config.save()
     }
 
+    // --- Conversations ---
+
+    async clearConversations (): Promise<void> {
+        await this.conversations.clearAll()
+        this.savedConversations = 0
+    }
+
+    // --- Cost & Budgets ---
+
+    savePricing (): void {
+        this.config.store.ai.pricing = this.pricing.map(p => ({ ...p }))
+        this.config.save()
+    }
+
+    addPrice (): void {
+        this.pricing.push({ model: '', input: 0, output: 0, cachedInput: null })
+    }
+
+    removePrice (index: number): void {
+        this.pricing.splice(index, 1)
+        this.savePricing()
+    }
+
+    resetPricing (): void {
+        this.pricing = DEFAULT_PRICING.map(p => ({ ...p }))
+        this.savePricing()
+    }
+
+    /** This month's spend per model, most expensive first */
+    getSpendByModel (): SpendSummary[] {
+        const month = localDate().slice(0, 7)
+        return this.summarizeSpend(
+            this.budget.getSpendHistory().filter(r => r.date.startsWith(month)),
+            r => `${this.getProviderLabel(r.provider)} · ${r.model}`,
+        ).sort((a, b) => b.cost - a.cost)
+    }
+
+    /** Spend of the last 30 days with any usage, newest first */
+    getSpendByDay (): SpendSummary[] {
+        return this.summarizeSpend(this.budget.getSpendHistory(), r => r.date)
+            .sort((a, b) => b.label.localeCompare(a.label))
+            .slice(0, 30)
+    }
+
+    clearSpendHistory (): void {
+        this.config.store.ai.spendHistory = []
+        this.config.save()
+    }
+
+    private summarizeSpend (records: SpendRecord[], key: (r: SpendRecord) => string): SpendSummary[] {
+        const groups = new Map<string, SpendSummary>()
+        for (const r of records) {
+            const label = key(r)
+            const group = groups.get(label) ?? { label, cost: 0, requestCount: 0, tokens: 0 }
+            group.cost += r.cost
+            group.requestCount += r.requestCount
+            group.tokens += r.promptTokens + r.completionTokens
+            groups.set(label, group)
+        }
+        return [...groups.values()]
+    }
+
     private sumField (field: string): number {
         const usage = this.config.store.ai?.tokenUsage
         if (!usage) return 0
@@ -1,17 +1,20 @@
 import { ConfigProvider } from 'tabby-core'
+import { DEFAULT_PRICING } from './pricing'
 
 export class AIConfigProvider extends ConfigProvider {
     defaults = {
         ai: {
             /**
-             * Provider preset: openai, gemini, ollama, deepseek, azure, custom
-             * Each preset fills in a default baseUrl and model.
+             * Provider adapter id: openai, gemini, ollama, deepseek, anthropic, azure, custom,
+             * or the id of an AIProviderAdapter contributed by another plugin.
+             * Each adapter fills in a default baseUrl and model.
              * You can override baseUrl and model regardless of provider.
              */
             provider: 'gemini',
 
             /**
-             * API base URL (OpenAI-compatible).
+             * API base URL (OpenAI-compatible, or the Anthropic Messages API
+             * when provider is 'anthropic').
              * Leave empty to use the provider preset's default URL.
              *
              * Examples:
@@ -19,6 +22,7 @@ export class AIConfigProvider extends ConfigProvider {
              *   Gemini:    https://generativelanguage.googleapis.com/v1beta/openai/
              *   Ollama:    http://localhost:11434/v1/
              *   DeepSeek:  https://api.deepseek.com/v1/
+             *   Anthropic: https://api.anthropic.com/v1/
              *   Azure:     https://{resource}.openai.azure.com/openai/
              *   LiteLLM:   http://localhost:4000/v1/
              */
@@ -36,9 +40,145 @@ export class AIConfigProvider extends ConfigProvider {
             /** Azure API version (only used when provider is 'azure') */
             apiVersion: '2024-12-01-preview',
 
+            /**
+             * How reasoning from thinking models is displayed:
+             * 'show' (streamed in gray), 'collapse' (one status line) or 'hide'.
+             * Reasoning is never stored in the conversation history.
+             */
+            thinkingDisplay: 'show',
+
+            /** Render Markdown in answers (headings, lists, tables, highlighted code) */
+            renderMarkdown: true,
+
+            /**
+             * Named configurations, each { id, name, provider, baseUrl, apiKey,
+             * model, deployment, apiVersion }. Profiles pick one through their
+             * `aiConfiguration` field; the fields above form the default one.
+             */
+            configurations: [],
+
+            /**
+             * Ordered configuration ids ('' = default) to try when the active
+             * configuration fails with a permanent error, keeps returning
+             * 429/5xx after all retries, or is unreachable.
+             */
+            fallbackConfigurations: [],
+
+            /**
+             * Record-and-replay of AI traffic. mode 'record' appends every
+             * request and raw response stream to the cassette file, 'replay'
+             * serves them back without network access. Requests are matched
+             * on their message content. API keys are never recorded.
+             * path defaults to ~/.tabby-ai/cassette.json
+             */
+            cassette: {
+                mode: 'off',
+                path: '',
+            },
+
+            /**
+             * Context window size in tokens. 0 = the model's known size
+             * (32k for unknown models). Older history is dropped to fit.
+             */
+            contextWindow: 0,
+
+            /** Tool results estimated above this many tokens are truncated */
+            maxToolResultTokens: 8000,
+
+            /**
+             * Read-only tool calls the model makes in one turn, like several
+             * read_file or grep_search calls, run this many at a time, with
+             * their approvals asked for together. 1 runs every call alone.
+             */
+            maxParallelTools: 4,
+
+            /**
+             * Once the conversation history reaches this percentage of the
+             * context window, older turns are summarized by the model. 0 = never.
+             */
+            compactionThreshold: 70,
+
+            /** Save conversations to ~/.tabby-ai/conversations so they can be resumed */
+            saveConversations: true,
+
+            /** Saved conversations not updated for this many days are deleted. 0 = keep forever */
+            conversationRetentionDays: 30,
+
+            /**
+             * Files are snapshotted to ~/.tabby-ai/checkpoints before the agent
+             * writes or edits them, so @/undo and @/checkpoints can restore them.
+             * Checkpoints are deleted after this many days. 0 = keep forever
+             */
+            checkpointRetentionDays: 7,
+
             /** Max lines of terminal output to include as context */
             maxContextLines: 100,
 
+            /**
+             * Where the agent runs shell commands: 'spawn' starts a separate
+             * local bash in the shell's directory, with secrets filtered from
+             * the environment; 'session' types them into the tab's own shell,
+             * with its environment, aliases and — in SSH tabs — the remote
+             * machine. 'session' needs a POSIX shell waiting at a prompt.
+             */
+            shellExecution: 'spawn',
+
+            /**
+             * Seconds a shell command may run at most. Commands stop after
+             * 30s unless the agent asks for longer, up to this. Commands it
+             * starts in the background run until they end, are killed or
+             * their tab closes.
+             */
+            maxCommandTimeout: 600,
+
+            /**
+             * What the agent may do without asking. rules are { action:
+             * 'allow' | 'deny' | 'ask', tool ('*' = any), pattern (glob or
+             * /regex/ on the command or path, '' = any), cwd, profileId }.
+             * deny beats ask beats allow. Commands that only read, like
+             * `git status` or `ls`, run without asking when
+             * autoApproveReadOnly is on and no rule says otherwise.
+             */
+            permissions: {
+                autoApproveReadOnly: true,
+                rules: [],
+            },
+
+            /**
+             * MCP servers whose tools the agent can use: { id, name, enabled,
+             * transport: 'stdio' | 'http' | 'sse', command, args, env, cwd,
+             * url, headers, approval: 'ask' | 'allow', timeout }. stdio
+             * servers are launched with `command`, the others are reached at
+             * `url`. Tools are offered as <name>__<tool>.
+             */
+            mcpServers: [],
+
+            /**
+             * Price table: { model, input, output, cachedInput } with prices
+             * per million tokens in `currency`. Models match by longest prefix.
+             */
+            pricing: DEFAULT_PRICING,
+
+            /** ISO currency code of the prices above */
+            currency: 'USD',
+
+            /**
+             * Spend caps in `currency`, 0 = unlimited. A warning is shown once
+             * warnAtPercent of a budget is used; when a budget is exceeded
+             * the agent stops before sending further requests.
+             */
+            budget: {
+                daily: 0,
+                monthly: 0,
+                warnAtPercent: 80,
+            },
+
+            /**
+             * Spend per day and model: { date, provider, model, cost,
+             * promptTokens, completionTokens, requestCount }[]
+             */
+            spendHistory: [],
+
             /**
              * Historical token usage per provider.
              * Persisted across app restarts.
@@ -50,6 +190,7 @@ export class AIConfigProvider extends ConfigProvider {
                 gemini: null as any,
                 ollama: null as any,
                 deepseek: null as any,
+                anthropic: null as any,
                 azure: null as any,
                 custom: null as any,
             },
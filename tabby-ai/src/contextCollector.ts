@@ -6,7 +6,32 @@
  * triggered, we produce a snapshot of what the user is seeing.
  */
 
-const ANSI_REGEX = /\x1b\[[0-9;]*[a-zA-Z]|\x1b\].*?(\x07|\x1b\\)|\x1b[()][0-9A-B]|\x1b[>=<]|\x1b\[[\?]?[0-9;]*[a-zA-Z]/g
+export const ANSI_REGEX = /\x1b\[[0-9;]*[a-zA-Z]|\x1b\].*?(\x07|\x1b\\)|\x1b[()][0-9A-B]|\x1b[>=<]|\x1b\[[\?]?[0-9;]*[a-zA-Z]/g
+
+const ACTIVITY_START = '[Terminal activity since last conversation]'
+const ACTIVITY_END = '[End of terminal activity]'
+
+/** The user message of a prompt, led by the terminal activity since the last one */
+export function withTerminalActivity (activity: string, prompt: string): string {
+    return activity ? `${ACTIVITY_START}\n${activity}\n${ACTIVITY_END}\n\n${prompt}` : prompt
+}
+
+/** Split a user message made by withTerminalActivity() */
+export function splitTerminalActivity (content: string): { activity: string | null, prompt: string } {
+    if (!content.startsWith(ACTIVITY_START + '\n')) {
+        return { activity: null, prompt: content }
+    }
+    const end = content.indexOf(`\n${ACTIVITY_END}\n\n`)
+    if (end >= 0) {
+        return { activity: content.slice(ACTIVITY_START.length + 1, end), prompt: content.slice(end + ACTIVITY_END.length + 3) }
+    }
+    // Saved before the end marker was added
+    const split = content.lastIndexOf('\n\n')
+    if (split < 0) {
+        return { activity: null, prompt: content }
+    }
+    return { activity: content.slice(ACTIVITY_START.length + 1, split), prompt: content.slice(split + 2) }
+}
 
 export class ContextCollector {
     private buffer: string[] = []
@@ -0,0 +1,24 @@
+import { Injectable } from '@angular/core'
+import { BaseTabComponent, MenuItemOptions, TabContextMenuItemProvider } from 'tabby-core'
+import { BaseTerminalTabComponent } from 'tabby-terminal'
+import { AIChatPanelService } from './chatPanel.service'
+
+/** "Open AI chat" in the context menu of terminals with an AI session */
+@Injectable()
+export class AIContextMenu extends TabContextMenuItemProvider {
+    weight = 5
+
+    constructor (private chatPanels: AIChatPanelService) {
+        super()
+    }
+
+    async getItems (tab: BaseTabComponent): Promise<MenuItemOptions[]> {
+        if (!(tab instanceof BaseTerminalTabComponent) || !this.chatPanels.hasSession(tab)) {
+            return []
+        }
+        return [{
+            label: 'Open AI chat',
+            click: () => this.chatPanels.openPanel(tab),
+        }]
+    }
+}
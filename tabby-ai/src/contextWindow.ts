@@ -0,0 +1,229 @@
+/**
+ * Token-aware context window management — keeps requests within the
+ * model's context window. Simplified version of gemini-cli's
+ * tokenLimits.ts + the history curation in geminiChat.ts.
+ *
+ * Token counts are estimated from character counts; no tokenizer is bundled.
+ * The estimate errs on the high side so trimmed requests fit.
+ */
+
+import type { ChatMessage } from './ai.service'
+
+/** Used for models not listed below (many local models default to less) */
+export const DEFAULT_CONTEXT_WINDOW = 32_000
+
+/** Known context window sizes, matched by longest model name prefix */
+const CONTEXT_WINDOWS: Record<string, number> = {
+    'gpt-4.1': 1_000_000,
+    'gpt-4o': 128_000,
+    'gpt-4-turbo': 128_000,
+    'gpt-4': 8_192,
+    'gpt-3.5-turbo': 16_385,
+    o1: 200_000,
+    o3: 200_000,
+    'o4-mini': 200_000,
+    claude: 200_000,
+    'gemini-1.5-pro': 2_000_000,
+    'gemini-1.5-flash': 1_000_000,
+    'gemini-2': 1_000_000,
+    deepseek: 64_000,
+    qwen: 32_000,
+    'llama3.1': 128_000,
+    'llama3.2': 128_000,
+    mistral: 32_000,
+}
+
+/**
+ * Average characters per token of Latin text by model family, slightly
+ * below the real averages. Other scripts are counted as one token per character.
+ */
+const CHARS_PER_TOKEN: Record<string, number> = {
+    claude: 3.5,
+    deepseek: 3.5,
+    qwen: 3.5,
+}
+const DEFAULT_CHARS_PER_TOKEN = 4
+
+/** Fixed cost of a message (role, separators) */
+const MESSAGE_OVERHEAD = 4
+
+function lookup<T> (table: Record<string, T>, model: string): T | undefined {
+    const name = model.toLowerCase().replace(/^models\//, '')
+    let best: string | undefined = undefined
+    for (const prefix of Object.keys(table)) {
+        if (name.startsWith(prefix) && (!best || prefix.length > best.length)) {
+            best = prefix
+        }
+    }
+    return best ? table[best] : undefined
+}
+
+/**
+ * Drop tool calls that got no result, as a stopped run may leave them,
+ * and assistant messages left empty without them.
+ */
+function dropUnansweredToolCalls (messages: ChatMessage[]): ChatMessage[] {
+    const answered = new Set(messages.filter(m => m.role === 'tool').map(m => m.tool_call_id))
+    const isAnswered = (call: any) => answered.has(call.id)
+    if (messages.every(m => (m.tool_calls ?? []).every(isAnswered))) {
+        return messages
+    }
+    return messages.flatMap(message => {
+        const calls = message.tool_calls?.filter(isAnswered)
+        if (!calls || calls.length === message.tool_calls?.length) {
+            return [message]
+        }
+        if (calls.length) {
+            return [{ ...message, tool_calls: calls }]
+        }
+        return message.content ? [{ role: message.role, content: message.content }] : []
+    })
+}
+
+/** Context window size of a model in tokens */
+export function getModelContextWindow (model: string): number {
+    return lookup(CONTEXT_WINDOWS, model) ?? DEFAULT_CONTEXT_WINDOW
+}
+
+export class ContextWindow {
+    private charsPerToken: number
+
+    constructor (
+        model: string,
+        /** Total context window size in tokens */
+        public readonly size: number,
+        /** Tool results longer than this are truncated */
+        private maxToolResultTokens: number,
+    ) {
+        this.charsPerToken = lookup(CHARS_PER_TOKEN, model) ?? DEFAULT_CHARS_PER_TOKEN
+    }
+
+    estimateTokens (text: string): number {
+        let ascii = 0
+        let other = 0
+        for (const char of text) {
+            if (char.charCodeAt(0) < 0x80) {
+                ascii++
+            } else {
+                other++
+            }
+        }
+        return Math.ceil(ascii / this.charsPerToken) + other
+    }
+
+    estimateMessageTokens (message: ChatMessage): number {
+        let tokens = MESSAGE_OVERHEAD + this.estimateTokens(message.content ?? '')
+        for (const call of message.tool_calls ?? []) {
+            tokens += MESSAGE_OVERHEAD + this.estimateTokens(`${call.function?.name ?? ''}${call.function?.arguments ?? ''}`)
+        }
+        return tokens
+    }
+
+    estimateMessagesTokens (messages: ChatMessage[]): number {
+        return messages.reduce((sum, m) => sum + this.estimateMessageTokens(m), 0)
+    }
+
+    /**
+     * Shorten an oversized tool result, keeping its head and tail — the start
+     * of a file or listing and the end of command output matter most.
+     */
+    truncateToolResult (text: string): string {
+        const limit = Math.min(this.maxToolResultTokens, Math.floor(this.size / 4))
+        const tokens = this.estimateTokens(text)
+        if (tokens <= limit) {
+            return text
+        }
+
+        // Scale by the measured density so non-Latin text is cut correctly
+        const keepChars = Math.floor(text.length * limit / tokens)
+        const head = text.slice(0, Math.floor(keepChars * 2 / 3))
+        const tail = text.slice(text.length - Math.floor(keepChars / 3))
+        const omitted = text.length - head.length - tail.length
+        return `${head}\n\n[... ${omitted} characters truncated to fit the context window ...]\n\n${tail}`
+    }
+
+    /**
+     * Drop the oldest history so that `messages` plus `reserved` tokens
+     * (tool definitions, the response) fit into the window.
+     *
+     * Leading system messages are always kept. The rest is cut at user
+     * messages, whole exchanges first; if the latest exchange alone is still
+     * too large, its oldest tool rounds go next. An assistant message with
+     * `tool_calls` is never separated from its `tool` results, and calls
+     * without results are dropped, both of which providers reject.
+     */
+    fit (messages: ChatMessage[], reserved = 0): ChatMessage[] {
+        messages = dropUnansweredToolCalls(messages)
+        const budget = this.size - reserved
+        if (this.estimateMessagesTokens(messages) <= budget) {
+            return messages
+        }
+
+        let start = 0
+        while (start < messages.length && messages[start].role === 'system') {
+            start++
+        }
+        const system = messages.slice(0, start)
+
+        // Tool results left over from an earlier trim can't be sent
+        while (start < messages.length && messages[start].role === 'tool') {
+            start++
+        }
+
+        const exchanges = this.split(messages.slice(start), m => m.role === 'user')
+        let used = this.estimateMessagesTokens(system)
+        const kept: ChatMessage[][] = []
+
+        // Newest exchanges first; the latest one is always kept
+        for (let i = exchanges.length - 1; i >= 0; i--) {
+            const tokens = this.estimateMessagesTokens(exchanges[i])
+            if (kept.length && used + tokens > budget) {
+                break
+            }
+            kept.unshift(exchanges[i])
+            used += tokens
+        }
+
+        if (used > budget && kept.length === 1) {
+            kept[0] = this.fitExchange(kept[0], budget - this.estimateMessagesTokens(system))
+        }
+
+        return [...system, ...kept.flat()]
+    }
+
+    /**
+     * Trim a single exchange: keep its user message and the newest tool
+     * rounds (assistant message + its tool results) that fit.
+     */
+    private fitExchange (exchange: ChatMessage[], budget: number): ChatMessage[] {
+        const [first] = exchange
+        const head = first.role === 'user' ? [first] : []
+        const rounds = this.split(exchange.slice(head.length), m => m.role !== 'tool')
+            // Tool results whose assistant message is gone can't be sent
+            .filter(round => round[0].role !== 'tool')
+
+        let used = this.estimateMessagesTokens(head)
+        const kept: ChatMessage[][] = []
+        for (let i = rounds.length - 1; i >= 0; i--) {
+            const tokens = this.estimateMessagesTokens(rounds[i])
+            if (kept.length && used + tokens > budget) {
+                break
+            }
+            kept.unshift(rounds[i])
+            used += tokens
+        }
+        return [...head, ...kept.flat()]
+    }
+
+    /** Split messages into groups, each starting at a message matching `isStart` */
+    private split (messages: ChatMessage[], isStart: (m: ChatMessage) => boolean): ChatMessage[][] {
+        const groups: ChatMessage[][] = []
+        for (const message of messages) {
+            if (!groups.length || isStart(message)) {
+                groups.push([])
+            }
+            groups[groups.length - 1].push(message)
+        }
+        return groups
+    }
+}
@@ -0,0 +1,139 @@
+import { Injectable } from '@angular/core'
+import { ConfigService } from 'tabby-core'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { ChatMessage } from './ai.service'
+import { getDataDir } from './paths'
+
+/** Summary of a saved conversation, as listed by @/history */
+export interface ConversationInfo {
+    id: string
+    /** The first question asked */
+    title: string
+    /** Profile of the tab the conversation was held in */
+    profileId: string
+    profileName: string
+    /** Unix timestamps in milliseconds */
+    createdAt: number
+    updatedAt: number
+    messageCount: number
+}
+
+export interface Conversation extends Omit<ConversationInfo, 'messageCount'> {
+    messages: ChatMessage[]
+}
+
+/**
+ * Stores AI conversations as one JSON file each under
+ * ~/.tabby-ai/conversations, so they survive tab closes and restarts.
+ */
+@Injectable()
+export class AIConversationService {
+    private retentionApplied = false
+
+    constructor (
+        private config: ConfigService,
+    ) { }
+
+    /** A new, not yet saved conversation */
+    create (profile: { id: string, name: string }, id?: string | null): Conversation {
+        return {
+            id: id ?? crypto.randomUUID(),
+            title: '',
+            profileId: profile.id,
+            profileName: profile.name,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            messages: [],
+        }
+    }
+
+    async load (id: string): Promise<Conversation | null> {
+        try {
+            return JSON.parse(await fs.readFile(this.getPath(id), 'utf-8'))
+        } catch {
+            return null
+        }
+    }
+
+    /** Find a saved conversation by id or unique id prefix */
+    async find (idPrefix: string): Promise<Conversation | null> {
+        const matches = (await this.list()).filter(c => c.id.startsWith(idPrefix))
+        return matches.length === 1 ? this.load(matches[0].id) : null
+    }
+
+    /** Saved conversations, most recently updated first */
+    async list (): Promise<ConversationInfo[]> {
+        await this.applyRetention()
+        let files: string[] = []
+        try {
+            files = await fs.readdir(this.getDir())
+        } catch {
+            return []
+        }
+
+        const result: ConversationInfo[] = []
+        for (const file of files.filter(f => f.endsWith('.json'))) {
+            const conversation = await this.load(path.basename(file, '.json'))
+            if (conversation) {
+                const { messages, ...info } = conversation
+                result.push({ ...info, messageCount: messages.length })
+            }
+        }
+        return result.sort((a, b) => b.updatedAt - a.updatedAt)
+    }
+
+    /** Write a conversation to disk; empty ones are not saved */
+    async save (conversation: Conversation): Promise<void> {
+        if (!this.config.store.ai.saveConversations || !conversation.messages.length) {
+            return
+        }
+        conversation.updatedAt = Date.now()
+        await fs.mkdir(this.getDir(), { recursive: true })
+        await fs.writeFile(this.getPath(conversation.id), JSON.stringify(conversation))
+        await this.applyRetention()
+    }
+
+    async delete (id: string): Promise<void> {
+        await fs.rm(this.getPath(id), { force: true })
+    }
+
+    async clearAll (): Promise<void> {
+        await fs.rm(this.getDir(), { recursive: true, force: true })
+    }
+
+    /**
+     * Delete conversations older than `ai.conversationRetentionDays`.
+     * Runs once per app session.
+     */
+    private async applyRetention (): Promise<void> {
+        const days = this.config.store.ai.conversationRetentionDays
+        if (this.retentionApplied || !days) {
+            return
+        }
+        this.retentionApplied = true
+
+        const cutoff = Date.now() - days * 24 * 3600 * 1000
+        let files: string[] = []
+        try {
+            files = await fs.readdir(this.getDir())
+        } catch {
+            return
+        }
+        for (const file of files) {
+            const stat = await fs.stat(path.join(this.getDir(), file))
+            if (stat.mtimeMs < cutoff) {
+                await fs.rm(path.join(this.getDir(), file), { force: true })
+            }
+        }
+    }
+
+    private getDir (): string {
+        return path.join(getDataDir(), 'conversations')
+    }
+
+    private getPath (id: string): string {
+        // Ids come from recovery tokens and user input — keep them inside the directory
+        return path.join(this.getDir(), `${path.basename(id)}.json`)
+    }
+}
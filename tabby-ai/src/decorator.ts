@@ -1,9 +1,13 @@
-import { Injectable } from '@angular/core'
-import { ConfigService } from 'tabby-core'
+import { Injectable, Injector } from '@angular/core'
+import { first } from 'rxjs'
+import { ConfigService, GetRecoveryTokenOptions, PartialProfile, Profile, ProfilesService } from 'tabby-core'
 import { TerminalDecorator, BaseTerminalTabComponent } from 'tabby-terminal'
 import { ContextCollector } from './contextCollector'
-import { AIService } from './ai.service'
 import { AIMiddleware } from './aiMiddleware'
+import { AIProfileFields } from './api'
+import { AIBackgroundService } from './background.service'
+import { AIChatPanelService } from './chatPanel.service'
+import { isSSHSession, LocalFileSystem, SSHFileSystem } from './fileSystem'
 
 /**
  * Terminal decorator that attaches the AIMiddleware to every terminal session.
@@ -14,17 +18,43 @@ import { AIMiddleware } from './aiMiddleware'
  */
 @Injectable()
 export class AIDecorator extends TerminalDecorator {
+    private chatPanels: AIChatPanelService
+    private background: AIBackgroundService
+    private profiles: ProfilesService
+
     constructor (
-        private ai: AIService,
+        private injector: Injector,
         private config: ConfigService,
     ) {
         super()
+        this.chatPanels = injector.get(AIChatPanelService)
+        this.background = injector.get(AIBackgroundService)
+        this.profiles = injector.get(ProfilesService)
     }
 
     attach (tab: BaseTerminalTabComponent<any>): void {
+        // The profile may pick a named AI configuration, or opt out entirely
+        const configurationId = this.getProfileConfiguration(tab.profile)
+        if (configurationId === 'none') {
+            return
+        }
+
         const maxLines = this.config.store.ai?.maxContextLines ?? 100
         const collector = new ContextCollector(maxLines)
         let currentSession: any = null
+        let middleware: AIMiddleware | null = null
+        let terminalColumns = 80
+
+        // Remember the conversation in the recovery token so a restored tab
+        // continues it. Duplicated tabs (no state requested) start afresh.
+        const getRecoveryToken = tab.getRecoveryToken.bind(tab)
+        tab.getRecoveryToken = async (options?: GetRecoveryTokenOptions) => {
+            const token = await getRecoveryToken(options)
+            if (token && options?.includeState && middleware) {
+                token.aiConversationId = middleware.conversationId
+            }
+            return token
+        }
 
         const attachToSession = () => {
             try {
@@ -44,8 +74,25 @@ export class AIDecorator extends TerminalDecorator {
                     }))
                 }
 
+                // In SSH tabs the agent works on the remote machine, over the
+                // tab's connection (SSHTabComponent.sshSession)
+                const { sshSession } = tab as any
+                const files = isSSHSession(sshSession) ? new SSHFileSystem(sshSession) : new LocalFileSystem()
+
                 // Insert AI middleware at the front of the stack
-                tab.session.middleware.unshift(new AIMiddleware(this.ai, collector, this.config))
+                // A new session (e.g. reconnect) keeps the tab's conversation
+                middleware = new AIMiddleware(this.injector, collector, {
+                    configurationId,
+                    profile: { id: tab.profile.id, name: tab.profile.name },
+                    conversationId: middleware?.conversationId ?? tab.recoveryToken?.aiConversationId ?? null,
+                    openPanel: () => this.chatPanels.openPanel(tab),
+                    sessionOutput$: tab.session.binaryOutput$,
+                    files,
+                    tab,
+                })
+                middleware.resize(terminalColumns)
+                tab.session.middleware.unshift(middleware)
+                this.chatPanels.setSession(tab, middleware)
             } catch (e) {
                 console.error('[tabby-ai] Failed to attach AI middleware:', e)
             }
@@ -63,8 +110,47 @@ export class AIDecorator extends TerminalDecorator {
             }))
         })
 
+        // The prompt editor redraws itself for the terminal width
+        const watchResize = () => {
+            this.subscribeUntilDetached(tab, tab.resize$.subscribe(({ columns }) => {
+                terminalColumns = columns
+                middleware?.resize(columns)
+            }))
+        }
+        if (tab.frontendIsReady) {
+            watchResize()
+        } else {
+            tab.frontendReady$.pipe(first()).subscribe(watchResize)
+        }
+
+        // Terminals send a plain Enter for Shift+Enter — catch the key event
+        // first so the prompt editor can start a new line instead
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Enter' && event.shiftKey) {
+                middleware?.notifyShiftEnter()
+            }
+        }
+        tab.element.nativeElement.addEventListener('keydown', onKeyDown, true)
+        this.subscribeUntilDetached(tab, tab.destroyed$.subscribe(() => {
+            tab.element.nativeElement.removeEventListener('keydown', onKeyDown, true)
+            this.chatPanels.removeTab(tab)
+            this.background.killAll(tab)
+        }))
+
         // Additional fallback retries for edge cases (slow session restore)
         setTimeout(() => attachToSession(), 500)
         setTimeout(() => attachToSession(), 2000)
     }
+
+    /**
+     * The AI configuration a profile picks, else the one its group or
+     * profile type defaults to. Built-in profiles (e.g. local shells) are
+     * not stored and only have the defaults.
+     */
+    private getProfileConfiguration (profile: PartialProfile<Profile>): string | null {
+        // tab.profile only exposes known profile keys, so read the stored profile
+        const stored = this.config.store.profiles.find(p => p.id === profile.id) ?? {}
+        const layers: AIProfileFields[] = [...this.profiles.getProfileDefaults(profile), stored]
+        return layers.map(layer => layer.aiConfiguration).reverse().find(id => id) ?? null
+    }
 }
@@ -0,0 +1,169 @@
+/**
+ * Unified diffs for previews of file changes — what gemini-cli builds with
+ * jsdiff's createPatch() for its edit confirmations
+ * (packages/core/src/tools/edit.ts), written out here as the plugin has
+ * no diff dependency.
+ */
+
+import colors from 'ansi-colors'
+
+/** Lines of unchanged context around each change */
+const CONTEXT_LINES = 3
+
+/** Above this many cells the changed middle is shown as replaced wholesale */
+const MAX_TABLE_SIZE = 4_000_000
+
+interface DiffLine {
+    kind: ' ' | '-' | '+'
+    text: string
+}
+
+function splitLines (text: string): string[] {
+    if (!text) {
+        return []
+    }
+    const lines = text.replace(/\r\n/g, '\n').split('\n')
+    if (lines[lines.length - 1] === '') {
+        lines.pop()
+    }
+    return lines
+}
+
+/** Longest common subsequence of the lines that differ */
+function diffLines (before: string[], after: string[]): DiffLine[] {
+    let prefix = 0
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+        prefix++
+    }
+    let suffix = 0
+    while (suffix < before.length - prefix && suffix < after.length - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+        suffix++
+    }
+    const a = before.slice(prefix, before.length - suffix)
+    const b = after.slice(prefix, after.length - suffix)
+
+    const middle: DiffLine[] = []
+    if ((a.length + 1) * (b.length + 1) > MAX_TABLE_SIZE) {
+        middle.push(...a.map(text => ({ kind: '-' as const, text })), ...b.map(text => ({ kind: '+' as const, text })))
+    } else {
+        // lengths[i * width + j]: LCS length of a[i..] and b[j..]
+        const width = b.length + 1
+        const lengths = new Uint32Array((a.length + 1) * width)
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i * width + j] = a[i] === b[j]
+                    ? lengths[(i + 1) * width + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+            }
+        }
+        let i = 0
+        let j = 0
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                middle.push({ kind: ' ', text: a[i++] })
+                j++
+            } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+                // Removals before additions
+                middle.push({ kind: '-', text: a[i++] })
+            } else {
+                middle.push({ kind: '+', text: b[j++] })
+            }
+        }
+    }
+
+    return [
+        ...before.slice(0, prefix).map(text => ({ kind: ' ' as const, text })),
+        ...middle,
+        ...before.slice(before.length - suffix).map(text => ({ kind: ' ' as const, text })),
+    ]
+}
+
+/**
+ * A unified diff between two versions of a file, with `a/` and `b/` file
+ * headers; `before` is null for a new file. Empty when nothing changes.
+ */
+export function createPatch (fileName: string, before: string | null, after: string): string {
+    const lines = diffLines(splitLines(before ?? ''), splitLines(after))
+    if (!lines.some(line => line.kind !== ' ')) {
+        return ''
+    }
+
+    const out = [
+        before === null ? '--- /dev/null' : `--- a/${fileName}`,
+        `+++ b/${fileName}`,
+    ]
+    // Line numbers before each entry of `lines`
+    let oldLine = 0
+    let newLine = 0
+    const positions = lines.map(line => {
+        const position = { oldLine, newLine }
+        oldLine += line.kind === '+' ? 0 : 1
+        newLine += line.kind === '-' ? 0 : 1
+        return position
+    })
+
+    let index = 0
+    while (index < lines.length) {
+        let firstChange = index
+        while (firstChange < lines.length && lines[firstChange].kind === ' ') {
+            firstChange++
+        }
+        if (firstChange === lines.length) {
+            break
+        }
+        // Extend the hunk while the next change is close enough to share context
+        const start = Math.max(index, firstChange - CONTEXT_LINES)
+        let end = firstChange
+        for (let i = firstChange; i < lines.length; i++) {
+            if (lines[i].kind !== ' ') {
+                end = i
+            } else if (i - end > CONTEXT_LINES * 2) {
+                break
+            }
+        }
+        end = Math.min(lines.length, end + CONTEXT_LINES + 1)
+
+        const hunk = lines.slice(start, end)
+        const oldCount = hunk.filter(line => line.kind !== '+').length
+        const newCount = hunk.filter(line => line.kind !== '-').length
+        // An empty side is numbered by the line before it
+        const oldStart = positions[start].oldLine + (oldCount ? 1 : 0)
+        const newStart = positions[start].newLine + (newCount ? 1 : 0)
+        out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+        out.push(...hunk.map(line => line.kind + line.text))
+        index = end
+    }
+    return out.join('\n')
+}
+
+/** Lines added and removed by a patch */
+export function countChanges (patch: string): { added: number, removed: number } {
+    let added = 0
+    let removed = 0
+    // Skip the file headers
+    for (const line of patch.split('\n').slice(2)) {
+        if (line.startsWith('+')) {
+            added++
+        } else if (line.startsWith('-')) {
+            removed++
+        }
+    }
+    return { added, removed }
+}
+
+/** Color a patch line for the terminal */
+export function colorizePatchLine (line: string): string {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+        return colors.bold(line)
+    }
+    if (line.startsWith('@@')) {
+        return colors.cyan(line)
+    }
+    if (line.startsWith('+')) {
+        return colors.green(line)
+    }
+    if (line.startsWith('-')) {
+        return colors.red(line)
+    }
+    return colors.gray(line)
+}
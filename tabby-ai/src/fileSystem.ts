@@ -0,0 +1,354 @@
+/**
+ * Where the agent's file tools operate — this machine, or the remote end
+ * of an SSH tab. gemini-cli only ever works locally; in Tabby a tab may be
+ * a shell on another machine, and reading or writing the local file with
+ * the same path there would be wrong.
+ */
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { Observable } from 'rxjs'
+import { CommandOptions, executeCommand, ShellResult, spawnCommand, SpawnedProcess } from './shellExecutor'
+
+export interface DirectoryEntry {
+    name: string
+    isDirectory: boolean
+}
+
+export interface AIFileSystem {
+    /** Path functions of the system the files live on */
+    readonly path: path.PlatformPath
+    /** user@host for remote systems, null for this machine */
+    readonly host: string | null
+    /** Directory relative paths start from when the shell reported none */
+    getDefaultCwd: () => Promise<string>
+    /** Null when the file does not exist */
+    readFile: (filePath: string) => Promise<Buffer | null>
+    /** Creates missing parent directories */
+    writeFile: (filePath: string, content: Buffer) => Promise<void>
+    deleteFile: (filePath: string) => Promise<void>
+    readdir: (dirPath: string) => Promise<DirectoryEntry[]>
+    exists: (filePath: string) => Promise<boolean>
+    /** Run a command with `cwd` as working directory, like shellExecutor's executeCommand() */
+    exec: (command: string, cwd: string, options: CommandOptions) => Promise<ShellResult>
+    /** Start a command that runs in the background until it ends or is killed */
+    spawn: (command: string, cwd: string, onOutput: (chunk: string) => void) => Promise<SpawnedProcess>
+}
+
+function isNotFound (err: any): boolean {
+    return err?.code === 'ENOENT' || /no such file|not found/i.test(err?.message ?? '')
+}
+
+export class LocalFileSystem implements AIFileSystem {
+    readonly path = path
+    readonly host = null
+
+    async getDefaultCwd (): Promise<string> {
+        return process.cwd()
+    }
+
+    async readFile (filePath: string): Promise<Buffer | null> {
+        try {
+            return await fs.readFile(filePath)
+        } catch (err: any) {
+            if (isNotFound(err)) {
+                return null
+            }
+            throw err
+        }
+    }
+
+    async writeFile (filePath: string, content: Buffer): Promise<void> {
+        // Mirrors gemini-cli's mkdirp
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, content)
+    }
+
+    async deleteFile (filePath: string): Promise<void> {
+        await fs.rm(filePath, { force: true })
+    }
+
+    async readdir (dirPath: string): Promise<DirectoryEntry[]> {
+        const entries = await fs.readdir(dirPath, { withFileTypes: true })
+        return entries.map(e => ({ name: e.name, isDirectory: e.isDirectory() }))
+    }
+
+    async exists (filePath: string): Promise<boolean> {
+        return fs.access(filePath).then(() => true, () => false)
+    }
+
+    exec (command: string, cwd: string, options: CommandOptions): Promise<ShellResult> {
+        return executeCommand(command, cwd, options.signal, options.onOutput, options.timeout)
+    }
+
+    async spawn (command: string, cwd: string, onOutput: (chunk: string) => void): Promise<SpawnedProcess> {
+        return spawnCommand(command, cwd, onOutput)
+    }
+}
+
+/**
+ * The parts of tabby-ssh's SSHSession used here. tabby-ssh is not a
+ * dependency of this plugin, so SSH tabs are recognized by shape.
+ */
+export interface SSHSessionLike {
+    ssh: {
+        openSessionChannel: () => Promise<unknown>
+        activateChannel: (channel: unknown) => Promise<SSHChannelLike>
+    }
+    openSFTP: () => Promise<SFTPSessionLike>
+    profile: { options: { host: string, user?: string } }
+}
+
+interface SSHChannelLike {
+    data$: Observable<Uint8Array>
+    extendedData$: Observable<[number, Uint8Array]>
+    closed$: Observable<void>
+    requestExec: (command: string) => Promise<void>
+    write: (data: Uint8Array) => Promise<void>
+    close: () => Promise<void>
+}
+
+interface SFTPSessionLike {
+    readdir: (p: string) => Promise<{ name: string, isDirectory: boolean }[]>
+    stat: (p: string) => Promise<{ isDirectory: boolean }>
+    open: (p: string, mode: number) => Promise<{
+        read: () => Promise<Uint8Array>
+        write: (chunk: Uint8Array) => Promise<void>
+        close: () => Promise<void>
+    }>
+    mkdir: (p: string) => Promise<void>
+    unlink: (p: string) => Promise<void>
+}
+
+/** Open flags of russh, which tabby-ssh's SFTPSession.open() takes */
+const OPEN_READ = 1
+const OPEN_WRITE = 2
+const OPEN_CREATE = 8
+const OPEN_TRUNCATE = 16
+
+/** Sent after the command's output, followed by its exit code */
+const EXIT_MARKER = '\x1b]777;tabby-ai;exit;'
+
+/** Markers in the output of spawned commands: the shell's pid first, the exit code last */
+const SPAWN_MARKER = /\x1b\]777;tabby-ai;(pid|exit);(\d+)\x07/g
+
+export function isSSHSession (value: any): value is SSHSessionLike { // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+    return typeof value?.openSFTP === 'function' && typeof value.ssh?.openSessionChannel === 'function'
+}
+
+function quote (text: string): string {
+    return `'${text.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Files of the machine an SSH tab is connected to, through SFTP, and
+ * commands run on it through exec channels of the same connection.
+ * Assumes a POSIX system on the remote end.
+ */
+export class SSHFileSystem implements AIFileSystem {
+    readonly path = path.posix
+    readonly host: string
+    private sftp: Promise<SFTPSessionLike> | null = null
+    private defaultCwd: Promise<string> | null = null
+
+    constructor (private session: SSHSessionLike) {
+        const { host, user } = session.profile.options
+        this.host = user ? `${user}@${host}` : host
+    }
+
+    /** The login directory */
+    getDefaultCwd (): Promise<string> {
+        this.defaultCwd ??= this.exec('pwd', '.', { signal: new AbortController().signal }).then(result => {
+            if (result.exitCode !== 0 || !result.stdout.trim()) {
+                this.defaultCwd = null
+                throw new Error(`cannot determine the remote directory: ${result.stderr.trim() || 'pwd failed'}`)
+            }
+            return result.stdout.trim()
+        })
+        return this.defaultCwd
+    }
+
+    async readFile (filePath: string): Promise<Buffer | null> {
+        const sftp = await this.getSFTP()
+        const handle = await sftp.open(filePath, OPEN_READ).catch(err => {
+            if (isNotFound(err)) {
+                return null
+            }
+            throw err
+        })
+        if (!handle) {
+            return null
+        }
+        try {
+            const chunks: Buffer[] = []
+            for (let chunk = await handle.read(); chunk.length; chunk = await handle.read()) {
+                chunks.push(Buffer.from(chunk))
+            }
+            return Buffer.concat(chunks)
+        } finally {
+            await handle.close()
+        }
+    }
+
+    async writeFile (filePath: string, content: Buffer): Promise<void> {
+        const sftp = await this.getSFTP()
+        await this.mkdirp(sftp, path.posix.dirname(filePath))
+        const handle = await sftp.open(filePath, OPEN_WRITE | OPEN_CREATE | OPEN_TRUNCATE)
+        try {
+            await handle.write(content)
+        } finally {
+            await handle.close()
+        }
+    }
+
+    async deleteFile (filePath: string): Promise<void> {
+        if (await this.exists(filePath)) {
+            await (await this.getSFTP()).unlink(filePath)
+        }
+    }
+
+    async readdir (dirPath: string): Promise<DirectoryEntry[]> {
+        const entries = await (await this.getSFTP()).readdir(dirPath)
+        return entries.map(e => ({ name: e.name, isDirectory: e.isDirectory }))
+    }
+
+    async exists (filePath: string): Promise<boolean> {
+        const sftp = await this.getSFTP()
+        return sftp.stat(filePath).then(() => true, () => false)
+    }
+
+    /** Run a command through an exec channel; its exit code follows the output as a marker */
+    async exec (command: string, cwd: string, options: CommandOptions): Promise<ShellResult> {
+        const { signal, onOutput, timeout = 30000 } = options
+        const channel = await this.session.ssh.activateChannel(await this.session.ssh.openSessionChannel())
+        const decoder = new TextDecoder()
+        let stdout = ''
+        let stderr = ''
+        /** End of the output, where the exit marker is even when stdout is cut off */
+        let tail = ''
+        let timedOut = false
+        const maxBuffer = 512 * 1024
+
+        return new Promise(resolve => {
+            const close = () => {
+                channel.close().catch(() => null)
+            }
+            const timer = setTimeout(() => {
+                timedOut = true
+                close()
+            }, timeout)
+            signal.addEventListener('abort', close, { once: true })
+
+            channel.data$.subscribe(data => {
+                const text = decoder.decode(data, { stream: true })
+                tail = (tail + text).slice(-64)
+                if (stdout.length < maxBuffer) {
+                    stdout += text
+                }
+                // The marker is not the command's output
+                const [visible] = text.split(EXIT_MARKER)
+                if (visible) {
+                    onOutput?.(visible)
+                }
+            })
+            channel.extendedData$.subscribe(([, data]) => {
+                const text = Buffer.from(data).toString()
+                if (stderr.length < maxBuffer) {
+                    stderr += text
+                }
+                onOutput?.(text)
+            })
+            channel.closed$.subscribe(() => {
+                clearTimeout(timer)
+                signal.removeEventListener('abort', close)
+                const exit = tail.lastIndexOf(EXIT_MARKER)
+                const exitCode = exit < 0 ? null : parseInt(tail.slice(exit + EXIT_MARKER.length))
+                const markerIndex = stdout.lastIndexOf(EXIT_MARKER)
+                resolve({ stdout: markerIndex < 0 ? stdout : stdout.slice(0, markerIndex), stderr, exitCode, timedOut })
+            })
+
+            // A subshell, so that `exit` in the command still prints the marker
+            channel.requestExec(`cd ${quote(cwd)} && (${command}\n); printf '\\033]777;tabby-ai;exit;%d\\007' $?`).catch((err: any) => {
+                stderr += err.message
+                close()
+            })
+        })
+    }
+
+    /**
+     * Start a command through an exec channel of its own. The remote shell
+     * reports its pid, which is also its process group — sshd starts every
+     * session with setsid() — so that kill() ends everything it started.
+     */
+    async spawn (command: string, cwd: string, onOutput: (chunk: string) => void): Promise<SpawnedProcess> {
+        const channel = await this.session.ssh.activateChannel(await this.session.ssh.openSessionChannel())
+        const decoder = new TextDecoder()
+        let pid: number | null = null
+        let exitCode: number | null = null
+        /** Output held back while it may be the start of a marker */
+        let held = ''
+
+        channel.data$.subscribe(data => {
+            held += decoder.decode(data, { stream: true })
+            held = held.replace(SPAWN_MARKER, (_, kind: string, value: string) => {
+                if (kind === 'pid') {
+                    pid = parseInt(value)
+                } else {
+                    exitCode = parseInt(value)
+                }
+                return ''
+            })
+            const partial = held.lastIndexOf('\x1b]777;')
+            const keep = partial >= 0 && !held.includes('\x07', partial) ? held.length - partial : 0
+            const visible = held.slice(0, held.length - keep)
+            held = held.slice(held.length - keep)
+            if (visible) {
+                onOutput(visible)
+            }
+        })
+        channel.extendedData$.subscribe(([, data]) => onOutput(Buffer.from(data).toString()))
+        const exited = new Promise<number | null>(resolve => {
+            channel.closed$.subscribe(() => {
+                if (held) {
+                    onOutput(held)
+                }
+                resolve(exitCode)
+            })
+        })
+
+        await channel.requestExec(`cd ${quote(cwd)} && printf '\\033]777;tabby-ai;pid;%d\\007' $$ && (${command}\n); printf '\\033]777;tabby-ai;exit;%d\\007' $?`)
+
+        return {
+            exited,
+            write: data => {
+                // Fails once the channel closed, which `exited` reports
+                channel.write(Buffer.from(data)).catch(() => null)
+            },
+            kill: () => {
+                if (pid === null) {
+                    channel.close().catch(() => null)
+                    return
+                }
+                this.exec(`kill -TERM -- -${pid} 2>/dev/null || kill -TERM ${pid}`, '/', { signal: new AbortController().signal })
+                    .finally(() => channel.close().catch(() => null))
+            },
+        }
+    }
+
+    private getSFTP (): Promise<SFTPSessionLike> {
+        this.sftp ??= this.session.openSFTP().catch(err => {
+            this.sftp = null
+            throw err
+        })
+        return this.sftp
+    }
+
+    private async mkdirp (sftp: SFTPSessionLike, dirPath: string): Promise<void> {
+        try {
+            await sftp.stat(dirPath)
+        } catch {
+            await this.mkdirp(sftp, path.posix.dirname(dirPath))
+            await sftp.mkdir(dirPath)
+        }
+    }
+}
@@ -2,33 +2,120 @@
 import { NgModule } from '@angular/core'
 import { CommonModule } from '@angular/common'
 import { FormsModule } from '@angular/forms'
-import { ConfigProvider } from 'tabby-core'
-import { SettingsTabProvider } from 'tabby-settings'
+import TabbyCorePlugin, { ConfigProvider, TabContextMenuItemProvider } from 'tabby-core'
+import { ProfileEditorSectionProvider, SettingsTabProvider } from 'tabby-settings'
 import { TerminalDecorator } from 'tabby-terminal'
 
 import { AIService } from './ai.service'
+import { AIBackgroundService } from './background.service'
+import { AIBudgetService } from './budget.service'
+import { AIChatPanelService } from './chatPanel.service'
+import { AICheckpointService } from './checkpoints.service'
+import { AIConversationService } from './conversations.service'
+import { AIMCPService } from './mcp.service'
+import { AIPromptHistoryService } from './promptHistory.service'
+import { AIProviderAdapter, AISlashCommand, AIToolProvider } from './api'
+import { OpenAIAdapter, GeminiAdapter, OllamaAdapter, DeepSeekAdapter, CustomAdapter } from './adapters/openai'
+import { AnthropicAdapter } from './adapters/anthropic'
+import { AzureOpenAIAdapter } from './adapters/azure'
+import { CheckpointsCommand, UndoCommand } from './commands/checkpoints'
+import { ClearCommand, CompactCommand, ExportCommand, HistoryCommand, ResumeCommand, RetryCommand } from './commands/conversation'
+import { MCPCommand } from './commands/mcp'
+import { ProcessesCommand } from './commands/processes'
+import { ContextCommand, HelpCommand, ModelCommand, PanelCommand, UsageCommand } from './commands/session'
+import { KillProcessTool, ReadProcessOutputTool, WaitForProcessOutputTool, WriteProcessInputTool } from './tools/background'
+import { ListDirectoryTool, ReadFileTool, ReplaceTool, WriteFileTool } from './tools/files'
+import { GlobTool, GrepSearchTool } from './tools/search'
+import { ShellTool } from './tools/shell'
+import { ReadScrollbackRangeTool, ReadTerminalScreenTool, SearchScrollbackTool } from './tools/terminal'
+import { AIContextMenu } from './contextMenu'
 import { AIDecorator } from './decorator'
 import { AIConfigProvider } from './config'
-import { AISettingsTabProvider } from './settings'
+import { AIProfileSettingsProvider, AISettingsTabProvider } from './settings'
 import { AISettingsTabComponent } from './components/aiSettingsTab.component'
+import { AIChatTabComponent } from './components/aiChatTab.component'
+import { AIProfileSettingsComponent } from './components/aiProfileSettings.component'
 
 @NgModule({
     imports: [
         CommonModule,
         FormsModule,
+        TabbyCorePlugin,
     ],
     providers: [
         { provide: TerminalDecorator, useClass: AIDecorator, multi: true },
         { provide: ConfigProvider, useClass: AIConfigProvider, multi: true },
         { provide: SettingsTabProvider, useClass: AISettingsTabProvider, multi: true },
+        { provide: ProfileEditorSectionProvider, useClass: AIProfileSettingsProvider, multi: true },
+        { provide: TabContextMenuItemProvider, useClass: AIContextMenu, multi: true },
+        { provide: AIProviderAdapter, useClass: OpenAIAdapter, multi: true },
+        { provide: AIProviderAdapter, useClass: GeminiAdapter, multi: true },
+        { provide: AIProviderAdapter, useClass: OllamaAdapter, multi: true },
+        { provide: AIProviderAdapter, useClass: DeepSeekAdapter, multi: true },
+        { provide: AIProviderAdapter, useClass: AnthropicAdapter, multi: true },
+        { provide: AIProviderAdapter, useClass: AzureOpenAIAdapter, multi: true },
+        { provide: AIProviderAdapter, useClass: CustomAdapter, multi: true },
+        { provide: AISlashCommand, useClass: CheckpointsCommand, multi: true },
+        { provide: AISlashCommand, useClass: ClearCommand, multi: true },
+        { provide: AISlashCommand, useClass: CompactCommand, multi: true },
+        { provide: AISlashCommand, useClass: ContextCommand, multi: true },
+        { provide: AISlashCommand, useClass: ExportCommand, multi: true },
+        { provide: AISlashCommand, useClass: HelpCommand, multi: true },
+        { provide: AISlashCommand, useClass: HistoryCommand, multi: true },
+        { provide: AISlashCommand, useClass: MCPCommand, multi: true },
+        { provide: AISlashCommand, useClass: ModelCommand, multi: true },
+        { provide: AISlashCommand, useClass: PanelCommand, multi: true },
+        { provide: AISlashCommand, useClass: ProcessesCommand, multi: true },
+        { provide: AISlashCommand, useClass: ResumeCommand, multi: true },
+        { provide: AISlashCommand, useClass: RetryCommand, multi: true },
+        { provide: AISlashCommand, useClass: UndoCommand, multi: true },
+        { provide: AISlashCommand, useClass: UsageCommand, multi: true },
+        { provide: AIToolProvider, useClass: ShellTool, multi: true },
+        { provide: AIToolProvider, useClass: ReadFileTool, multi: true },
+        { provide: AIToolProvider, useClass: WriteFileTool, multi: true },
+        { provide: AIToolProvider, useClass: ReplaceTool, multi: true },
+        { provide: AIToolProvider, useClass: ListDirectoryTool, multi: true },
+        { provide: AIToolProvider, useClass: GlobTool, multi: true },
+        { provide: AIToolProvider, useClass: GrepSearchTool, multi: true },
+        { provide: AIToolProvider, useClass: ReadProcessOutputTool, multi: true },
+        { provide: AIToolProvider, useClass: WaitForProcessOutputTool, multi: true },
+        { provide: AIToolProvider, useClass: WriteProcessInputTool, multi: true },
+        { provide: AIToolProvider, useClass: KillProcessTool, multi: true },
+        { provide: AIToolProvider, useClass: ReadTerminalScreenTool, multi: true },
+        { provide: AIToolProvider, useClass: SearchScrollbackTool, multi: true },
+        { provide: AIToolProvider, useClass: ReadScrollbackRangeTool, multi: true },
         AIService,
+        AIBackgroundService,
+        AIBudgetService,
+        AIChatPanelService,
+        AICheckpointService,
+        AIConversationService,
+        AIMCPService,
+        AIPromptHistoryService,
     ],
     declarations: [
         AISettingsTabComponent,
+        AIChatTabComponent,
+        AIProfileSettingsComponent,
     ],
 })
 export default class TabbyAIModule {}
 
-export { AIService } from './ai.service'
+export { AIService, ChatMessage, StreamOptions, ToolDefinition } from './ai.service'
+export * from './api'
+export { AIBackgroundService, BackgroundProcess, BackgroundProcessStatus, ProcessOutput } from './background.service'
+export { AIBudgetService, BudgetStatus, ModelUsage, SpendRecord } from './budget.service'
+export { AIChatPanelService } from './chatPanel.service'
+export { AICheckpointService, Checkpoint, CheckpointFile, RestoreResult } from './checkpoints.service'
+export { AIConversationService, Conversation, ConversationInfo } from './conversations.service'
+export { AIFileSystem, DirectoryEntry, LocalFileSystem, SSHFileSystem } from './fileSystem'
+export { AIMCPService, MCPCall, MCPServerState, MCPServerStatus } from './mcp.service'
+export { MCPClient, MCPContent, MCPPrompt, MCPResource, MCPTool } from './mcpClient'
+export { AIPromptHistoryService } from './promptHistory.service'
+export { isReadOnlyCommand, PermissionDecision, PermissionPolicy, PermissionRequest } from './permissions'
+export { ModelPrice, DEFAULT_PRICING } from './pricing'
+export { ShellResult, SpawnedProcess } from './shellExecutor'
+export { EventType, StreamEvent, ToolCallRequest, TokensSummary } from './streamEvents'
+export { OpenAICompatibleAdapter } from './adapters/openai'
 export { AIDecorator } from './decorator'
 export { ContextCollector } from './contextCollector'
@@ -0,0 +1,585 @@
+/**
+ * Line editor for the "@" prompt — readline-style editing of a possibly
+ * multi-line prompt, redrawn in place after the shell prompt.
+ * Terminal counterpart of gemini-cli's InputPrompt and TextBuffer
+ * (packages/cli/src/ui/components/InputPrompt.tsx, shared/text-buffer.ts).
+ *
+ * The editor only knows where its prompt starts once the terminal has
+ * answered a cursor position request; input arriving before is queued.
+ */
+
+import colors from 'ansi-colors'
+import { StringDecoder } from 'string_decoder'
+
+/** Shown in front of continuation lines of a multi-line prompt */
+const CONTINUATION = '… '
+
+/** How long to wait for the terminal to report the cursor position */
+const CURSOR_REPORT_TIMEOUT = 500
+
+/** Pause after shell output before the prompt is redrawn below it */
+const REDRAW_DELAY = 50
+
+// eslint-disable-next-line no-control-regex
+const CURSOR_REPORT = /^\x1b\[(\d+);(\d+)R$/
+const COMBINING = /^[\p{Mn}\p{Me}\u200d\ufe00-\ufe0f]$/u
+const WIDE = /[\u1100-\u115f\u2e80-\u303e\u3041-\u33ff\u3400-\u4dbf\u4e00-\u9fff\ua000-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6\u{20000}-\u{3fffd}\ufe0f]|\p{Emoji_Presentation}/u
+const WORD = /^[\p{L}\p{N}_]/u
+
+/**
+ * Split text into user-perceived characters: a base character with its
+ * combining marks, variation selectors and ZWJ sequences.
+ */
+export function splitGraphemes (text: string): string[] {
+    const result: string[] = []
+    for (const char of text) {
+        const previous = result.length ? result[result.length - 1] : null
+        if (previous !== null && previous !== '\n' && (COMBINING.test(char) || previous.endsWith('\u200d'))) {
+            result[result.length - 1] += char
+        } else {
+            result.push(char)
+        }
+    }
+    return result
+}
+
+/** Terminal cells taken by a grapheme */
+export function displayWidth (grapheme: string): number {
+    if (WIDE.test(grapheme)) {
+        return 2
+    }
+    return COMBINING.test(grapheme) ? 0 : 1
+}
+
+/** Terminal cells taken by a string without line breaks */
+export function textWidth (text: string): number {
+    return splitGraphemes(text).reduce((sum, g) => sum + displayWidth(g), 0)
+}
+
+export interface LineEditorCallbacks {
+    /** Raw output to the terminal */
+    write: (data: string) => void
+    /** Enter — the cursor has been moved past the prompt */
+    submit: (text: string) => void
+    /** Ctrl+C or Escape — the cursor has been moved past the prompt */
+    cancel: () => void
+    /** Tab */
+    complete: () => void
+}
+
+interface Position {
+    row: number
+    col: number
+}
+
+export class LineEditor {
+    private text: string[] = []
+    private cursor = 0
+    private prefix = ''
+    private active = false
+    private columns = 80
+    /** Column the prompt starts at, null until the terminal reported it */
+    private origin: number | null = null
+    /** Row of the terminal cursor, relative to the first prompt row */
+    private cursorRow = 0
+    private queue: string[] = []
+    private reportTimeout: ReturnType<typeof setTimeout> | null = null
+    private redrawTimeout: ReturnType<typeof setTimeout> | null = null
+    private decoder = new StringDecoder('utf8')
+    private pasting = false
+    private expectingNewline = false
+    /** Position in `history`; equal to its length when not browsing */
+    private historyIndex = 0
+    /** The unsent prompt, restored when browsing past the newest entry */
+    private draft: string[] = []
+
+    constructor (
+        private callbacks: LineEditorCallbacks,
+        private getHistory: () => string[],
+    ) { }
+
+    get value (): string {
+        return this.text.join('')
+    }
+
+    get isActive (): boolean {
+        return this.active
+    }
+
+    /**
+     * Show the prompt at the terminal cursor. `prefix` is drawn in front of
+     * the text and can't be edited.
+     */
+    start (prefix: string, text = ''): void {
+        this.active = true
+        this.prefix = prefix
+        this.text = splitGraphemes(text)
+        this.cursor = this.text.length
+        this.historyIndex = this.getHistory().length
+        this.draft = []
+        this.pasting = false
+        this.locateOrigin()
+    }
+
+    /** Feed terminal input */
+    feed (data: Buffer): void {
+        this.handleInput(this.decoder.write(data))
+        // Shift+Enter only affects the Enter that immediately follows it
+        this.expectingNewline = false
+    }
+
+    /**
+     * Swallow the answer to our cursor position request, which may arrive
+     * after the prompt was closed.
+     */
+    takeCursorReport (data: Buffer): boolean {
+        const match = CURSOR_REPORT.exec(data.toString())
+        if (!match || !this.reportTimeout) {
+            return false
+        }
+        this.setOrigin(parseInt(match[2]) - 1)
+        return true
+    }
+
+    /**
+     * Treat the next Enter as a line break. Terminals send the same byte
+     * for Enter and Shift+Enter, so the key event is reported separately.
+     */
+    expectNewline (): void {
+        this.expectingNewline = true
+    }
+
+    resize (columns: number): void {
+        if (columns === this.columns) {
+            return
+        }
+        this.columns = columns
+        if (this.active && this.origin !== null) {
+            // The terminal reflows wrapped rows, so the cursor row can be
+            // computed for the new width
+            this.cursorRow = this.locate(this.cursor).row
+            this.render()
+        }
+    }
+
+    /**
+     * Shell output was written over the prompt while it was open — draw it
+     * again once the output has settled.
+     */
+    redrawBelow (): void {
+        if (!this.active) {
+            return
+        }
+        if (this.redrawTimeout) {
+            clearTimeout(this.redrawTimeout)
+        }
+        this.redrawTimeout = setTimeout(() => {
+            this.redrawTimeout = null
+            if (this.active) {
+                this.locateOrigin()
+            }
+        }, REDRAW_DELAY)
+    }
+
+    /** Insert text at the cursor */
+    insert (text: string): void {
+        const graphemes = splitGraphemes(text
+            .replace(/\r\n?/g, '\n')
+            .replace(/\t/g, '    ')
+            // eslint-disable-next-line no-control-regex
+            .replace(/[\x00-\x09\x0b-\x1f\x7f]/g, ''))
+        this.text.splice(this.cursor, 0, ...graphemes)
+        this.cursor += graphemes.length
+        this.render()
+    }
+
+    /** Print lines above the prompt, which is then drawn again below them */
+    printAbove (text: string): void {
+        this.callbacks.write(this.moveTo(this.locate(this.text.length)) + '\r\n' + text.replace(/\r?\n/g, '\r\n') + '\r\n')
+        this.origin = 0
+        this.cursorRow = 0
+        this.render()
+    }
+
+    private locateOrigin (): void {
+        this.origin = null
+        this.callbacks.write('\x1b[6n')
+        if (this.reportTimeout) {
+            clearTimeout(this.reportTimeout)
+        }
+        this.reportTimeout = setTimeout(() => {
+            // No answer — start over on a line of our own
+            this.callbacks.write('\r\n')
+            this.setOrigin(0)
+        }, CURSOR_REPORT_TIMEOUT)
+    }
+
+    private setOrigin (column: number): void {
+        if (this.reportTimeout) {
+            clearTimeout(this.reportTimeout)
+            this.reportTimeout = null
+        }
+        if (!this.active) {
+            return
+        }
+        this.origin = column
+        this.cursorRow = 0
+        this.render()
+
+        const queued = this.queue.join('')
+        this.queue = []
+        if (queued) {
+            this.handleInput(queued)
+        }
+    }
+
+    private handleInput (input: string): void {
+        if (this.origin === null) {
+            const match = CURSOR_REPORT.exec(input)
+            if (match && this.reportTimeout) {
+                this.setOrigin(parseInt(match[2]) - 1)
+            } else {
+                this.queue.push(input)
+            }
+            return
+        }
+
+        // Several characters without escape sequences at once: a paste
+        // without bracketed paste mode, or text committed by an IME
+        if (input.length > 1 && !input.includes('\x1b') && !/^[\x7f\x08]+$/.test(input)) {
+            this.insert(input)
+            return
+        }
+
+        let i = 0
+        while (i < input.length && this.active) {
+            if (this.pasting) {
+                const end = input.indexOf('\x1b[201~', i)
+                this.insert(input.slice(i, end < 0 ? undefined : end))
+                if (end < 0) {
+                    return
+                }
+                this.pasting = false
+                i = end + 6
+                continue
+            }
+
+            if (input[i] === '\x1b') {
+                const sequence = this.readEscape(input, i)
+                this.handleEscape(sequence)
+                i += sequence.length
+                continue
+            }
+
+            const char = String.fromCodePoint(input.codePointAt(i)!)
+            this.handleKey(char)
+            i += char.length
+        }
+    }
+
+    /** The escape sequence starting at `start` */
+    private readEscape (input: string, start: number): string {
+        const next = input.charAt(start + 1)
+        if (next === '[') {
+            // CSI: parameters, then a final byte in @..~
+            let end = start + 2
+            while (end < input.length && !/[@-~]/.test(input[end])) {
+                end++
+            }
+            return input.slice(start, end + 1)
+        }
+        if (next === 'O') {
+            return input.slice(start, start + 3)
+        }
+        return input.slice(start, start + (next ? 2 : 1))
+    }
+
+    private handleEscape (sequence: string): void {
+        switch (sequence) {
+            case '\x1b':
+                this.finish(this.callbacks.cancel)
+                return
+            case '\x1b[200~':
+                this.pasting = true
+                return
+            case '\x1b[A': case '\x1bOA':
+                this.moveVertically(-1)
+                return
+            case '\x1b[B': case '\x1bOB':
+                this.moveVertically(1)
+                return
+            case '\x1b[C': case '\x1bOC':
+                this.moveCursor(this.cursor + 1)
+                return
+            case '\x1b[D': case '\x1bOD':
+                this.moveCursor(this.cursor - 1)
+                return
+            case '\x1b[1;5C': case '\x1b[1;3C': case '\x1bf':
+                this.moveCursor(this.wordEnd(this.cursor))
+                return
+            case '\x1b[1;5D': case '\x1b[1;3D': case '\x1bb':
+                this.moveCursor(this.wordStart(this.cursor))
+                return
+            case '\x1b[H': case '\x1bOH': case '\x1b[1~': case '\x1b[7~':
+                this.moveCursor(this.lineStart(this.cursor))
+                return
+            case '\x1b[F': case '\x1bOF': case '\x1b[4~': case '\x1b[8~':
+                this.moveCursor(this.lineEnd(this.cursor))
+                return
+            case '\x1b[3~':
+                this.delete(this.cursor, this.cursor + 1)
+                return
+            case '\x1b\x7f': case '\x1b\x08':
+                this.delete(this.wordStart(this.cursor), this.cursor)
+                return
+            case '\x1bd':
+                this.delete(this.cursor, this.wordEnd(this.cursor))
+                return
+            // Alt+Enter, and Shift+Enter in terminals that tell it apart
+            case '\x1b\r': case '\x1b[13;2u': case '\x1b[27;2;13~':
+                this.insert('\n')
+                return
+        }
+        const report = CURSOR_REPORT.exec(sequence)
+        if (report && this.reportTimeout) {
+            this.setOrigin(parseInt(report[2]) - 1)
+        }
+        // Other sequences (function keys etc.) are ignored
+    }
+
+    private handleKey (char: string): void {
+        switch (char) {
+            case '\r':
+                this.enter()
+                return
+            case '\n':
+                this.insert('\n')
+                return
+            case '\x7f': case '\x08':
+                this.delete(this.cursor - 1, this.cursor)
+                return
+            case '\x03':
+                this.finish(this.callbacks.cancel)
+                return
+            case '\x09':
+                this.callbacks.complete()
+                return
+            case '\x01':
+                this.moveCursor(this.lineStart(this.cursor))
+                return
+            case '\x05':
+                this.moveCursor(this.lineEnd(this.cursor))
+                return
+            case '\x02':
+                this.moveCursor(this.cursor - 1)
+                return
+            case '\x06':
+                this.moveCursor(this.cursor + 1)
+                return
+            case '\x04':
+                this.delete(this.cursor, this.cursor + 1)
+                return
+            case '\x0b':
+                this.delete(this.cursor, this.lineEnd(this.cursor))
+                return
+            case '\x15':
+                this.delete(this.lineStart(this.cursor), this.cursor)
+                return
+            case '\x17':
+                // Like readline's unix-word-rubout: back to the previous whitespace
+                this.delete(this.wordStart(this.cursor, c => !/\s/.test(c)), this.cursor)
+                return
+            case '\x10':
+                this.moveVertically(-1)
+                return
+            case '\x0e':
+                this.moveVertically(1)
+                return
+        }
+        if (char >= ' ') {
+            this.insert(char)
+        }
+    }
+
+    /** Submit, or continue on a new line after Shift+Enter or a trailing backslash */
+    private enter (): void {
+        if (this.expectingNewline) {
+            this.insert('\n')
+            return
+        }
+        if (this.cursor === this.text.length && this.text[this.text.length - 1] === '\\') {
+            this.text.pop()
+            this.cursor--
+            this.insert('\n')
+            return
+        }
+        this.finish(this.callbacks.submit)
+    }
+
+    private finish (callback: (text: string) => void): void {
+        const { value } = this
+        this.callbacks.write(this.moveTo(this.locate(this.text.length)))
+        this.active = false
+        this.queue = []
+        if (this.redrawTimeout) {
+            clearTimeout(this.redrawTimeout)
+            this.redrawTimeout = null
+        }
+        callback(value)
+    }
+
+    private delete (from: number, to: number): void {
+        from = Math.max(0, from)
+        to = Math.min(this.text.length, to)
+        if (from >= to) {
+            return
+        }
+        this.text.splice(from, to - from)
+        this.cursor = from
+        this.render()
+    }
+
+    private moveCursor (index: number): void {
+        this.cursor = Math.max(0, Math.min(this.text.length, index))
+        this.render()
+    }
+
+    /** Up/Down: move between lines of a multi-line prompt, else browse the history */
+    private moveVertically (direction: 1 | -1): void {
+        const start = this.lineStart(this.cursor)
+        if (direction < 0 && start > 0) {
+            const previousStart = this.lineStart(start - 1)
+            this.moveCursor(Math.min(previousStart + this.cursor - start, start - 1))
+            return
+        }
+        const end = this.lineEnd(this.cursor)
+        if (direction > 0 && end < this.text.length) {
+            const nextEnd = this.lineEnd(end + 1)
+            this.moveCursor(Math.min(end + 1 + this.cursor - start, nextEnd))
+            return
+        }
+
+        const history = this.getHistory()
+        const index = Math.max(0, Math.min(history.length, this.historyIndex + direction))
+        if (index === this.historyIndex) {
+            return
+        }
+        if (this.historyIndex === history.length) {
+            this.draft = this.text
+        }
+        this.historyIndex = index
+        this.text = index === history.length ? this.draft : splitGraphemes(history[index])
+        this.cursor = this.text.length
+        this.render()
+    }
+
+    private lineStart (index: number): number {
+        while (index > 0 && this.text[index - 1] !== '\n') {
+            index--
+        }
+        return index
+    }
+
+    private lineEnd (index: number): number {
+        while (index < this.text.length && this.text[index] !== '\n') {
+            index++
+        }
+        return index
+    }
+
+    private wordStart (index: number, isWord = (c: string) => WORD.test(c)): number {
+        while (index > 0 && !isWord(this.text[index - 1])) {
+            index--
+        }
+        while (index > 0 && isWord(this.text[index - 1])) {
+            index--
+        }
+        return index
+    }
+
+    private wordEnd (index: number): number {
+        while (index < this.text.length && !WORD.test(this.text[index])) {
+            index++
+        }
+        while (index < this.text.length && WORD.test(this.text[index])) {
+            index++
+        }
+        return index
+    }
+
+    /**
+     * Where the grapheme at `index` is drawn, relative to the first prompt
+     * row, following the terminal's wrapping: a character that doesn't fit
+     * goes to the next row.
+     */
+    private locate (index: number): Position {
+        const columns = Math.max(1, this.columns)
+        let row = 0
+        let col = ((this.origin ?? 0) % columns) + textWidth(this.prefix)
+        row += Math.floor(col / columns)
+        col %= columns
+
+        for (let i = 0; i <= index && i <= this.text.length; i++) {
+            const grapheme = this.text[i] as string | undefined
+            if (grapheme === '\n') {
+                if (i === index) {
+                    return { row, col: Math.min(col, columns - 1) }
+                }
+                row++
+                col = textWidth(CONTINUATION)
+                continue
+            }
+            const width = grapheme === undefined ? 1 : displayWidth(grapheme)
+            if (col + width > columns) {
+                row++
+                col = 0
+            }
+            if (i === index) {
+                break
+            }
+            col += width
+        }
+        return { row, col }
+    }
+
+    /** Move the terminal cursor from where it was last left to `target` */
+    private moveTo (target: Position): string {
+        let out = ''
+        if (target.row < this.cursorRow) {
+            out += `\x1b[${this.cursorRow - target.row}A`
+        } else if (target.row > this.cursorRow) {
+            out += `\x1b[${target.row - this.cursorRow}B`
+        }
+        out += '\r'
+        if (target.col > 0) {
+            out += `\x1b[${target.col}C`
+        }
+        this.cursorRow = target.row
+        return out
+    }
+
+    /** Redraw the whole prompt and place the cursor */
+    private render (): void {
+        if (!this.active || this.origin === null) {
+            return
+        }
+        const columns = Math.max(1, this.columns)
+        let out = this.moveTo({ row: 0, col: this.origin % columns })
+        out += '\x1b[J' + colors.cyan(this.prefix)
+        out += this.value
+            .split('\n')
+            .map(line => colors.white(line))
+            .join('\r\n' + colors.gray(CONTINUATION))
+
+        // Text ending exactly at the right edge leaves the cursor in the
+        // terminal's pending-wrap state; wrap explicitly so rows add up
+        const end = this.locate(this.text.length)
+        const last = this.locate(Math.max(0, this.text.length - 1))
+        if (this.text.length && this.text[this.text.length - 1] !== '\n' && end.row > last.row) {
+            out += ' \r'
+        }
+        this.cursorRow = end.row
+        out += this.moveTo(this.locate(this.cursor))
+        this.callbacks.write(out)
+    }
+}
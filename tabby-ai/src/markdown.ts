@@ -0,0 +1,520 @@
+/**
+ * Streaming Markdown → ANSI renderer for assistant answers — the terminal
+ * counterpart of gemini-cli's MarkdownDisplay and CodeColorizer
+ * (packages/cli/src/ui/utils/MarkdownDisplay.tsx, CodeColorizer.tsx).
+ *
+ * Text is rendered as it streams in: paragraphs word by word, while code
+ * lines and tables wait for complete lines or rows. Anything that might
+ * still turn into markup (a line start, an open link) is held back until
+ * the next chunk decides it.
+ *
+ * Only the 16 palette colors are used, so the output follows the
+ * terminal's color scheme.
+ */
+
+import { SyntaxHighlighter, SyntaxTheme } from './syntaxHighlight'
+import { textWidth } from './lineEditor'
+
+/** SGR parameters per element, e.g. '1;36' */
+export interface MarkdownTheme extends SyntaxTheme {
+    text: string
+    heading: string
+    code: string
+    link: string
+    quote: string
+    border: string
+    bullet: string
+}
+
+export const DEFAULT_MARKDOWN_THEME: MarkdownTheme = {
+    text: '32',
+    heading: '1;36',
+    code: '33',
+    link: '4;34',
+    quote: '90',
+    border: '90',
+    bullet: '36',
+    comment: '90',
+    string: '32',
+    number: '35',
+    keyword: '34',
+    literal: '35',
+    call: '36',
+    added: '32',
+    removed: '31',
+}
+
+const RESET = '\x1b[0m'
+// eslint-disable-next-line no-control-regex
+const SGR = /\x1b\[[\d;]*m/g
+const BULLETS = ['•', '◦', '▪']
+
+/** Characters a line may start with before it is clear what block it is */
+const UNDECIDED_LINE = /^[\s#>*+\-_|`~\d.)[\]xX]*$/
+export const FENCE = /^\s*(`{3,}|~{3,})\s*([^\s`]*)/
+export const HEADING = /^(#{1,6})\s+/
+export const QUOTE = /^>\s?/
+export const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(\[[ xX]\]\s+)?/
+export const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/
+export const TABLE_SEPARATOR = /^\|?(\s*:?-+:?\s*\|)*\s*:?-+:?\s*\|?$/
+const LINK = /^!?\[([^\]]*)\]\(([^)\s]*)\)/
+
+function sgr (params: string): string {
+    return `\x1b[0;${params}m`
+}
+
+function visibleWidth (text: string): number {
+    return textWidth(text.replace(SGR, ''))
+}
+
+/**
+ * Inline markup of a single line — emphasis, code spans, links. Keeps its
+ * state between calls, so a line can be formatted in pieces.
+ */
+class InlineFormatter {
+    private bold = false
+    private italic = false
+    private strike = false
+    private code = false
+    private previous = ''
+
+    constructor (private base: string, private theme: MarkdownTheme) { }
+
+    /** SGR sequence of the current style */
+    get style (): string {
+        if (this.code) {
+            return sgr(this.theme.code)
+        }
+        const params = [this.base]
+        if (this.bold) {
+            params.push('1')
+        }
+        if (this.italic) {
+            params.push('3')
+        }
+        if (this.strike) {
+            params.push('9')
+        }
+        return sgr(params.filter(p => p).join(';'))
+    }
+
+    format (text: string): string {
+        let out = ''
+        let i = 0
+        while (i < text.length) {
+            const char = text[i]
+            const next = text[i + 1] as string | undefined
+
+            if (char === '`') {
+                this.code = !this.code
+                out += this.style
+                i++
+                continue
+            }
+            if (this.code) {
+                out += this.emit(char)
+                i++
+                continue
+            }
+
+            if (char === '\\' && next && /[\\`*_~[\]()#>|!-]/.test(next)) {
+                out += this.emit(next)
+                i += 2
+                continue
+            }
+
+            const link = char === '[' || (char === '!' && next === '[') ? LINK.exec(text.slice(i)) : null
+            if (link) {
+                const [match, label, url] = link
+                const linkText = label || url
+                out += sgr(this.theme.link) + linkText + this.style
+                if (url && url !== linkText) {
+                    out += sgr(this.theme.quote) + ` (${url})` + this.style
+                }
+                this.previous = ')'
+                i += match.length
+                continue
+            }
+
+            if (char === '*' || char === '_' || (char === '~' && next === '~')) {
+                const run = next === char ? 2 : 1
+                const after = text[i + run] as string | undefined
+                // Intra-word underscores (snake_case) are not emphasis
+                const wordy = char === '_' && (/\w/.test(this.previous) && /\w/.test(after ?? ''))
+                const canOpen = !!after && !/\s/.test(after) && !wordy
+                const canClose = !!this.previous && !/\s/.test(this.previous) && !wordy
+                const flag = char === '~' ? 'strike' : run === 2 ? 'bold' : 'italic'
+                if (this[flag] ? canClose : canOpen) {
+                    this[flag] = !this[flag]
+                    out += this.style
+                    i += run
+                    continue
+                }
+            }
+
+            out += this.emit(char)
+            i++
+        }
+        return out
+    }
+
+    private emit (char: string): string {
+        this.previous = char
+        return char
+    }
+}
+
+/**
+ * Word wrapping of ANSI text at the terminal width, continuing wrapped
+ * rows at the block's indentation.
+ */
+class LineWrapper {
+    private col: number
+    private indent: string
+    private indentWidth: number
+    private style: string
+
+    /**
+     * `prefix` is written in front of the first row, `indent` in front of
+     * continuation rows; the text starts in `style`.
+     */
+    constructor (
+        private columns: number,
+        private out: (text: string) => void,
+        { prefix, indent, style }: { prefix: string, indent: string, style: string },
+    ) {
+        this.out(prefix + style)
+        this.col = visibleWidth(prefix)
+        this.indent = indent
+        this.indentWidth = visibleWidth(indent)
+        this.style = style
+    }
+
+    /** Write formatted text; must end at a word boundary */
+    write (text: string): void {
+        for (const part of text.split(/( +)/)) {
+            if (!part) {
+                continue
+            }
+            if (part.startsWith(' ')) {
+                // Spaces that don't fit are dropped — the next word wraps anyway
+                if (this.col + part.length <= this.columns) {
+                    this.out(part)
+                    this.col += part.length
+                }
+                continue
+            }
+            const width = visibleWidth(part)
+            if (this.col + width > this.columns && this.col > this.indentWidth) {
+                this.out(RESET + '\r\n' + this.indent + this.style)
+                this.col = this.indentWidth
+            }
+            this.out(part)
+            this.col += width
+            if (this.col > this.columns) {
+                // The terminal broke a word longer than the row
+                this.col %= this.columns
+            }
+            this.style = [...part.matchAll(SGR)].pop()?.[0] ?? this.style
+        }
+    }
+}
+
+export class MarkdownRenderer {
+    private buffer = ''
+    private output = ''
+    private atLineStart = true
+    private inline: InlineFormatter | null = null
+    private wrapper: LineWrapper | null = null
+    private fence: { marker: string, highlighter: SyntaxHighlighter } | null = null
+    private table: string[] | null = null
+
+    constructor (
+        public columns = 80,
+        private theme: MarkdownTheme = DEFAULT_MARKDOWN_THEME,
+    ) { }
+
+    /** Render a chunk of the answer; returns terminal output */
+    push (text: string): string {
+        this.buffer += text
+        this.process(false)
+        return this.take()
+    }
+
+    /** Render whatever is held back and close open blocks */
+    finish (): string {
+        this.process(true)
+        if (this.table) {
+            this.renderTable()
+        }
+        if (this.fence) {
+            this.write(sgr(this.theme.border) + '─'.repeat(3) + RESET)
+            this.fence = null
+        }
+        if (!this.atLineStart) {
+            this.write(RESET)
+        }
+        this.atLineStart = true
+        this.inline = null
+        this.wrapper = null
+        return this.take()
+    }
+
+    private take (): string {
+        const { output } = this
+        this.output = ''
+        return output
+    }
+
+    private write (text: string): void {
+        this.output += text
+    }
+
+    private process (final: boolean): void {
+        while (this.buffer) {
+            const newline = this.buffer.indexOf('\n')
+            const complete = newline >= 0 || final
+            const line = newline >= 0 ? this.buffer.slice(0, newline) : this.buffer
+
+            if (!this.atLineStart) {
+                if (!this.streamInline(line, complete)) {
+                    return
+                }
+                this.consume(newline)
+                continue
+            }
+
+            if ((this.fence ?? this.table) && !complete) {
+                return
+            }
+            if (this.fence) {
+                this.renderCodeLine(line.replace(/\r$/, ''))
+                this.consume(newline)
+                continue
+            }
+            if (this.table) {
+                if (line.trim().startsWith('|')) {
+                    this.table.push(line)
+                    this.consume(newline)
+                    continue
+                }
+                this.renderTable()
+            }
+
+            if (!complete && UNDECIDED_LINE.test(line)) {
+                return
+            }
+            if (!complete && (FENCE.test(line) || line.trim().startsWith('|'))) {
+                return
+            }
+            if (!this.startBlock(line.replace(/\r$/, ''), complete)) {
+                this.consume(newline)
+            }
+        }
+    }
+
+    /** Drop the processed line, including its line break */
+    private consume (newline: number): void {
+        this.buffer = newline >= 0 ? this.buffer.slice(newline + 1) : ''
+    }
+
+    /**
+     * Start the block `line` begins. Returns true when the line continues
+     * as streamed inline text, false when it was handled completely.
+     */
+    private startBlock (line: string, complete: boolean): boolean {
+        const fence = FENCE.exec(line)
+        if (fence) {
+            const [, marker, language] = fence
+            this.fence = { marker, highlighter: new SyntaxHighlighter(language, this.theme) }
+            const label = language ? `─── ${language} ` : '───'
+            this.write(sgr(this.theme.border) + label + RESET + '\r\n')
+            return false
+        }
+        if (line.trim().startsWith('|')) {
+            this.table = [line]
+            return false
+        }
+        if (complete && RULE.test(line)) {
+            this.write(sgr(this.theme.border) + '─'.repeat(Math.min(this.columns, 80)) + RESET + '\r\n')
+            return false
+        }
+        if (complete && !line.trim()) {
+            this.write('\r\n')
+            return false
+        }
+
+        let base = this.theme.text
+        let prefix = ''
+        let indent = ''
+        let markup = 0
+        const heading = HEADING.exec(line)
+        const quote = QUOTE.exec(line)
+        const item = LIST_ITEM.exec(line)
+        if (heading) {
+            base = heading[1].length === 1 ? `${this.theme.heading};4` : this.theme.heading
+            markup = heading[0].length
+        } else if (quote) {
+            base = this.theme.quote
+            prefix = indent = sgr(this.theme.border) + '│ '
+            markup = quote[0].length
+        } else if (item) {
+            const [match, spaces, marker, task] = item
+            const level = Math.floor(spaces.length / 2)
+            let bullet = /\d/.test(marker) ? marker : BULLETS[level % BULLETS.length]
+            if (task) {
+                bullet += /x/i.test(task) ? ' ☑' : ' ☐'
+            }
+            const lead = '  '.repeat(level)
+            prefix = lead + sgr(this.theme.bullet) + bullet + ' '
+            indent = ' '.repeat(textWidth(lead + bullet) + 1)
+            markup = match.length
+        } else {
+            // Indented continuation lines keep their indentation
+            [indent] = /^ */.exec(line)!
+            prefix = indent
+            markup = indent.length
+        }
+
+        this.inline = new InlineFormatter(base, this.theme)
+        this.wrapper = new LineWrapper(this.columns, text => this.write(text), { prefix, indent, style: this.inline.style })
+        this.atLineStart = false
+        this.buffer = this.buffer.slice(markup)
+        return true
+    }
+
+    /**
+     * Format as much of the current line as is safe. Returns false when
+     * more input is needed.
+     */
+    private streamInline (line: string, complete: boolean): boolean {
+        const end = complete ? line.length : this.safeEnd(line)
+        if (!end) {
+            return false
+        }
+        this.wrapper!.write(this.inline!.format(line.slice(0, end).replace(/\r$/, '')))
+        if (!complete) {
+            this.buffer = this.buffer.slice(end)
+            return false
+        }
+        if (this.buffer.includes('\n')) {
+            this.write(RESET + '\r\n')
+            this.atLineStart = true
+            this.inline = null
+            this.wrapper = null
+        }
+        return true
+    }
+
+    /**
+     * End of the part of an incomplete line that can be formatted now: up to
+     * the last space, but not into a link whose target hasn't arrived.
+     */
+    private safeEnd (line: string): number {
+        let limit = line.length
+        for (let i = line.indexOf('['); i >= 0 && i < limit; i = line.indexOf('[', i + 1)) {
+            const link = LINK.exec(line.slice(i))
+            if (link) {
+                i += link[0].length - 1
+                continue
+            }
+            const close = line.indexOf(']', i)
+            // "[x]" not followed by "(" is plain text
+            if (close < 0 || close === line.length - 1 || line[close + 1] === '(') {
+                limit = i
+            }
+        }
+        return line.lastIndexOf(' ', limit - 1) + 1
+    }
+
+    private renderCodeLine (line: string): void {
+        const { marker, highlighter } = this.fence!
+        const trimmed = line.trim()
+        if (trimmed.length >= marker.length && [...trimmed].every(c => c === marker[0])) {
+            this.write(sgr(this.theme.border) + '───' + RESET + '\r\n')
+            this.fence = null
+            return
+        }
+        this.write(highlighter.highlight(line, RESET) + RESET + '\r\n')
+    }
+
+    private renderTable (): void {
+        const separator = this.table!.find(row => TABLE_SEPARATOR.test(row.trim()))
+        if (!separator) {
+            // Not a table, just lines starting with "|"
+            for (const row of this.table!) {
+                this.write(sgr(this.theme.text) + new InlineFormatter(this.theme.text, this.theme).format(row.trim()) + RESET + '\r\n')
+            }
+            this.table = null
+            return
+        }
+
+        const rows = this.table!
+            .filter(row => !TABLE_SEPARATOR.test(row.trim()))
+            .map(row => row.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim()))
+        const alignments = (separator.trim().replace(/^\|/, '').replace(/\|$/, '').split('|')).map(cell => {
+            const spec = cell.trim()
+            return spec.endsWith(':') ? spec.startsWith(':') ? 'center' : 'right' : 'left'
+        })
+        this.table = null
+
+        const count = Math.max(...rows.map(row => row.length))
+        const cells = rows.map((row, index) => Array.from({ length: count }, (_, column) => {
+            const base = index === 0 ? `${this.theme.text};1` : this.theme.text
+            const formatted = new InlineFormatter(base, this.theme).format(row[column] ?? '')
+            return { text: formatted, width: visibleWidth(formatted), base }
+        }))
+
+        // Shrink the widest columns until the table fits
+        const widths = Array.from({ length: count }, (_, column) => Math.max(1, ...cells.map(row => row[column].width)))
+        const available = this.columns - (3 * count + 1)
+        while (widths.reduce((a, b) => a + b, 0) > available && Math.max(...widths) > 3) {
+            widths[widths.indexOf(Math.max(...widths))]--
+        }
+
+        const border = (left: string, middle: string, right: string) =>
+            sgr(this.theme.border) + left + widths.map(w => '─'.repeat(w + 2)).join(middle) + right + RESET + '\r\n'
+        const pipe = sgr(this.theme.border) + '│' + RESET
+
+        this.write(border('┌', '┬', '┐'))
+        cells.forEach((row, index) => {
+            const line = row.map((cell, column) => {
+                const width = widths[column]
+                let { text } = cell
+                if (cell.width > width) {
+                    text = this.truncate(cell.text, width - 1) + '…'
+                }
+                const padding = width - Math.min(cell.width, width)
+                const alignment = alignments[column] ?? 'left'
+                const left = alignment === 'right' ? padding : alignment === 'center' ? Math.floor(padding / 2) : 0
+                return ' ' + ' '.repeat(left) + sgr(cell.base) + text + RESET + ' '.repeat(padding - left) + ' '
+            })
+            this.write(pipe + line.join(pipe) + pipe + '\r\n')
+            if (index === 0 && cells.length > 1) {
+                this.write(border('├', '┼', '┤'))
+            }
+        })
+        this.write(border('└', '┴', '┘'))
+    }
+
+    /** Cut formatted text to `width` visible cells */
+    private truncate (text: string, width: number): string {
+        let out = ''
+        let used = 0
+        for (const part of text.split(/(\x1b\[[\d;]*m)/)) { // eslint-disable-line no-control-regex
+            if (part.startsWith('\x1b')) {
+                out += part
+                continue
+            }
+            for (const char of part) {
+                const w = textWidth(char)
+                if (used + w > width) {
+                    return out
+                }
+                out += char
+                used += w
+            }
+        }
+        return out
+    }
+}
@@ -0,0 +1,261 @@
+/**
+ * Markdown → HTML for the chat panel — the HTML counterpart of the
+ * terminal renderer in markdown.ts, sharing its block syntax and code
+ * highlighting.
+ *
+ * Renders complete text; the panel re-renders an answer as it streams in.
+ * All text is escaped, the only markup produced is the one below.
+ */
+
+import { FENCE, HEADING, LIST_ITEM, QUOTE, RULE, TABLE_SEPARATOR } from './markdown'
+import { SyntaxHighlighter, SyntaxTheme } from './syntaxHighlight'
+
+/** A run of rendered blocks, or a single fenced code block */
+export interface MarkdownBlock {
+    html: string
+    /** Source of a code block, for copying */
+    code?: string
+    language?: string
+}
+
+/** CSS classes of highlighted tokens */
+const HTML_THEME: SyntaxTheme = {
+    comment: 'hl-comment',
+    string: 'hl-string',
+    number: 'hl-number',
+    keyword: 'hl-keyword',
+    literal: 'hl-literal',
+    call: 'hl-call',
+    added: 'hl-added',
+    removed: 'hl-removed',
+}
+
+/**
+ * Code spans, escapes, links, strong, emphasis, strike-through and bare URLs.
+ * Groups: 2 code, 3 escaped char, 4 link label, 5 link URL, 6/7 strong
+ * marker/text, 8/9 emphasis marker/text, 10 struck text, 11 bare URL.
+ */
+const INLINE = /(`+)([\s\S]*?[^`])\1(?!`)|\\([\\`*_~[\]()#>|!-])|!?\[([^\]]*)\]\(([^)\s]*)\)|(\*\*|__)(?=\S)([\s\S]+?)(?<=\S)\6|(\*|_)(?=\S)([\s\S]+?)(?<=\S)\8|~~(?=\S)([\s\S]+?)(?<=\S)~~|(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"])/g
+
+/** Links that open in the browser or mail client; others are shown as text */
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i
+
+export function isSafeLink (url: string): boolean {
+    return SAFE_LINK.test(url)
+}
+
+export function escapeHtml (text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+class HtmlSyntaxHighlighter extends SyntaxHighlighter {
+    protected paint (text: string, style: string): string {
+        return `<span class="${style}">${escapeHtml(text)}</span>`
+    }
+
+    protected plain (text: string): string {
+        return escapeHtml(text)
+    }
+}
+
+function formatInline (text: string): string {
+    const pattern = new RegExp(INLINE)
+    let out = ''
+    let last = 0
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        const { index } = match
+        // Groups that did not take part in the match are undefined
+        const [whole, , code, escaped, label, url, strong, strongText, emphasis, emphasisText, struck, bareUrl] = match as unknown as [string, ...(string | undefined)[]]
+        const end = index + whole.length
+        if ((strong ?? emphasis)?.startsWith('_') && (/\w/.test(text.charAt(index - 1)) || /\w/.test(text.charAt(end)))) {
+            // snake_case, not emphasis
+            pattern.lastIndex = index + 1
+            continue
+        }
+
+        out += escapeHtml(text.slice(last, index))
+        last = end
+        if (code !== undefined) {
+            out += `<code>${escapeHtml(code)}</code>`
+        } else if (escaped) {
+            out += escapeHtml(escaped)
+        } else if (url !== undefined) {
+            const labelHtml = formatInline(label ? label : url)
+            out += isSafeLink(url) ? `<a href="${escapeHtml(url)}">${labelHtml}</a>` : labelHtml
+        } else if (strongText) {
+            out += `<strong>${formatInline(strongText)}</strong>`
+        } else if (emphasisText) {
+            out += `<em>${formatInline(emphasisText)}</em>`
+        } else if (struck) {
+            out += `<del>${formatInline(struck)}</del>`
+        } else {
+            out += `<a href="${escapeHtml(bareUrl!)}">${escapeHtml(bareUrl!)}</a>`
+        }
+    }
+    return out + escapeHtml(text.slice(last))
+}
+
+function isClosingFence (line: string, marker: string): boolean {
+    const trimmed = line.trim()
+    return trimmed.length >= marker.length && [...trimmed].every(c => c === marker[0])
+}
+
+function startsBlock (line: string): boolean {
+    return [FENCE, HEADING, QUOTE, LIST_ITEM, RULE].some(pattern => pattern.test(line))
+}
+
+function splitRow (row: string): string[] {
+    return row.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim())
+}
+
+function renderTable (rows: string[]): string {
+    const [header, separator, ...body] = rows.map(splitRow)
+    const alignments = separator.map(spec => {
+        if (spec.endsWith(':')) {
+            return spec.startsWith(':') ? 'center' : 'right'
+        }
+        return spec.startsWith(':') ? 'left' : null
+    })
+    const renderRow = (cells: string[], tag: string) => '<tr>' + header.map((_, column) => {
+        const align = alignments[column] ? ` align="${alignments[column]}"` : ''
+        return `<${tag}${align}>${formatInline(cells[column] ?? '')}</${tag}>`
+    }).join('') + '</tr>'
+    return `<table><thead>${renderRow(header, 'th')}</thead><tbody>${body.map(row => renderRow(row, 'td')).join('')}</tbody></table>`
+}
+
+interface ListItem {
+    indent: number
+    /** Number of an ordered item, null for bullets */
+    number: number | null
+    /** Checked state of a task item */
+    task: boolean | null
+    text: string
+}
+
+/** Nests items by indentation */
+function renderList (items: ListItem[]): string {
+    let out = ''
+    const open: { indent: number, tag: string }[] = []
+    for (const item of items) {
+        const tag = item.number === null ? 'ul' : 'ol'
+        // Close deeper lists, and a list of the other kind at this level
+        while (open.length && (item.indent < open[open.length - 1].indent || item.indent === open[open.length - 1].indent && tag !== open[open.length - 1].tag)) {
+            out += `</li></${open.pop()!.tag}>`
+        }
+        if (open.length && item.indent === open[open.length - 1].indent) {
+            out += '</li>'
+        } else {
+            out += item.number !== null && item.number !== 1 ? `<ol start="${item.number}">` : `<${tag}>`
+            open.push({ indent: item.indent, tag })
+        }
+        const checkbox = item.task === null ? '' : item.task ? '☑ ' : '☐ '
+        out += '<li>' + checkbox + item.text.split('\n').map(formatInline).join('<br>')
+    }
+    while (open.length) {
+        out += `</li></${open.pop()!.tag}>`
+    }
+    return out
+}
+
+export function renderMarkdownHtml (markdown: string): MarkdownBlock[] {
+    const lines = markdown.replace(/\r/g, '').split('\n')
+    const blocks: MarkdownBlock[] = []
+    let html = ''
+    let i = 0
+    while (i < lines.length) {
+        const line = lines[i]
+
+        const fence = FENCE.exec(line)
+        if (fence) {
+            const [, marker, language] = fence
+            const code: string[] = []
+            for (i++; i < lines.length && !isClosingFence(lines[i], marker); i++) {
+                code.push(lines[i])
+            }
+            i++
+            if (html) {
+                blocks.push({ html })
+                html = ''
+            }
+            const highlighter = new HtmlSyntaxHighlighter(language, HTML_THEME)
+            blocks.push({
+                html: code.map(l => highlighter.highlight(l, '')).join('\n'),
+                code: code.join('\n'),
+                language,
+            })
+            continue
+        }
+
+        if (!line.trim()) {
+            i++
+            continue
+        }
+        if (RULE.test(line)) {
+            html += '<hr>'
+            i++
+            continue
+        }
+
+        const heading = HEADING.exec(line)
+        if (heading) {
+            const level = heading[1].length
+            html += `<h${level}>${formatInline(line.slice(heading[0].length))}</h${level}>`
+            i++
+            continue
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = []
+            for (; i < lines.length && QUOTE.test(lines[i]); i++) {
+                quoted.push(lines[i].replace(QUOTE, ''))
+            }
+            const inner = renderMarkdownHtml(quoted.join('\n'))
+            html += '<blockquote>' + inner.map(b => b.code === undefined ? b.html : `<pre><code>${b.html}</code></pre>`).join('') + '</blockquote>'
+            continue
+        }
+
+        const next = lines[i + 1] as string | undefined
+        if (line.trim().startsWith('|') && next && TABLE_SEPARATOR.test(next.trim())) {
+            const rows: string[] = []
+            for (; i < lines.length && lines[i].trim().startsWith('|'); i++) {
+                rows.push(lines[i])
+            }
+            html += renderTable(rows)
+            continue
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const items: ListItem[] = []
+            for (; i < lines.length; i++) {
+                const item = LIST_ITEM.exec(lines[i])
+                if (item) {
+                    const [match, spaces, marker, task] = item
+                    items.push({
+                        indent: spaces.length,
+                        number: /\d/.test(marker) ? parseInt(marker) : null,
+                        task: task ? /x/i.test(task) : null,
+                        text: lines[i].slice(match.length),
+                    })
+                } else if (items.length && /^\s+\S/.test(lines[i])) {
+                    // Indented continuation of the previous item
+                    items[items.length - 1].text += '\n' + lines[i].trim()
+                } else {
+                    break
+                }
+            }
+            html += renderList(items)
+            continue
+        }
+
+        // A paragraph runs until a blank line or another block
+        const paragraph = [line]
+        for (i++; i < lines.length && lines[i].trim() && !startsBlock(lines[i]); i++) {
+            paragraph.push(lines[i])
+        }
+        html += `<p>${paragraph.map(formatInline).join('<br>')}</p>`
+    }
+    if (html) {
+        blocks.push({ html })
+    }
+    return blocks
+}
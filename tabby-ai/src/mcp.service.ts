@@ -0,0 +1,358 @@
+import { Injectable } from '@angular/core'
+import { debounceTime, Observable, Subject } from 'rxjs'
+import { ConfigService } from 'tabby-core'
+import type { ToolDefinition } from './ai.service'
+import { AIMCPServer } from './api'
+import { formatContent, MCPClient, MCPPrompt, MCPResource, MCPTool } from './mcpClient'
+
+export type MCPServerStatus = 'stopped' | 'starting' | 'running' | 'error'
+
+/** What is known about a configured server, as shown in the settings */
+export interface MCPServerState {
+    server: AIMCPServer
+    status: MCPServerStatus
+    /** Why the server failed, or why it last crashed */
+    error: string | null
+    tools: MCPTool[]
+    resources: MCPResource[]
+    prompts: MCPPrompt[]
+    /** Tools not offered to the model, as their name clashes with a tool of another server once made valid */
+    clashingTools: string[]
+    /** Restarts after crashes since the server last ran steadily */
+    restarts: number
+}
+
+/** A call of an MCP tool, for the permission check */
+export interface MCPCall {
+    server: AIMCPServer
+    /** The tool says it changes nothing */
+    readOnly: boolean
+    /** Shown when asking the user */
+    description: string
+}
+
+/** Tool for reading the resources of all servers */
+export const RESOURCE_TOOL = 'read_mcp_resource'
+
+/** Longest tool name providers accept */
+const MAX_TOOL_NAME = 64
+
+/** Crashed servers are restarted this often before they are left stopped */
+const MAX_RESTARTS = 3
+
+/** A server up this long counts as running steadily, resetting its restarts */
+const STEADY_TIME = 60000
+
+/** Resources listed in the description of RESOURCE_TOOL */
+const MAX_LISTED_RESOURCES = 50
+
+interface ServerEntry {
+    state: MCPServerState
+    client: MCPClient | null
+    /** Settles once the server is running or has failed */
+    ready: Promise<void>
+    /** A prompt has waited for `ready` already */
+    awaited: boolean
+    startedAt: number
+    restartTimer?: ReturnType<typeof setTimeout>
+}
+
+interface ToolBinding {
+    entry: ServerEntry
+    tool: MCPTool
+}
+
+/** `<server>__<tool>` with what providers refuse in tool names replaced */
+function getToolName (server: string, tool: string): string {
+    const name = `${server}__${tool}`.replace(/[^a-zA-Z0-9_-]/g, '_')
+    if (name.length <= MAX_TOOL_NAME) {
+        return name
+    }
+    // Keep both ends — tool names of one server tend to share a prefix
+    const half = (MAX_TOOL_NAME - 3) / 2
+    return `${name.slice(0, Math.ceil(half))}___${name.slice(-Math.floor(half))}`
+}
+
+/**
+ * Runs the MCP servers of `ai.mcpServers` for all tabs — started when the
+ * agent first needs them, restarted when they crash or their settings
+ * change — and offers their tools to the agent. gemini-cli's
+ * McpClientManager (packages/core/src/tools/mcp-client-manager.ts).
+ */
+@Injectable()
+export class AIMCPService {
+    /** Running servers by id */
+    private entries = new Map<string, ServerEntry>()
+    /** Tools by the name the model calls them by */
+    private bindings = new Map<string, ToolBinding>()
+    private started = false
+    private changed = new Subject<void>()
+
+    /** A server changed its state */
+    get changed$ (): Observable<void> { return this.changed }
+
+    constructor (
+        private config: ConfigService,
+    ) {
+        // Settings are saved on every keystroke
+        config.changed$.pipe(debounceTime(1000)).subscribe(() => {
+            if (this.started) {
+                this.sync()
+            }
+        })
+    }
+
+    /** State of every configured server, in the order of the settings */
+    getServers (): MCPServerState[] {
+        return this.getConfigured().map(server => this.entries.get(server.id)?.state ?? {
+            server,
+            status: 'stopped',
+            error: null,
+            tools: [],
+            resources: [],
+            prompts: [],
+            clashingTools: [],
+            restarts: 0,
+        })
+    }
+
+    /** Start the enabled servers, and stop or restart those removed, disabled or changed */
+    sync (): void {
+        this.started = true
+        const enabled = this.getConfigured().filter(s => s.enabled)
+        for (const [id, entry] of this.entries) {
+            const server = enabled.find(s => s.id === id)
+            if (!server || JSON.stringify(server) !== JSON.stringify(entry.state.server)) {
+                this.stop(entry)
+            }
+        }
+        for (const server of enabled) {
+            if (!this.entries.has(server.id)) {
+                this.launch(server)
+            }
+        }
+    }
+
+    /** Stop a server and start it afresh */
+    async restart (id: string): Promise<void> {
+        const entry = this.entries.get(id)
+        if (entry) {
+            this.stop(entry)
+        }
+        this.sync()
+        await this.entries.get(id)?.ready
+    }
+
+    /**
+     * Tools of all running servers. The first prompt after a server was
+     * started waits for it to come up; later ones go on without a server
+     * that is still starting, so one that hangs delays no more than one.
+     */
+    async getToolDefinitions (): Promise<ToolDefinition[]> {
+        this.sync()
+        const waitFor = [...this.entries.values()].filter(e => !e.awaited)
+        for (const entry of waitFor) {
+            entry.awaited = true
+        }
+        await Promise.all(waitFor.map(e => e.ready))
+
+        const definitions: ToolDefinition[] = [...this.bindings.entries()].map(([name, { entry, tool }]) => ({
+            type: 'function',
+            function: {
+                name,
+                description: `${tool.description ?? tool.title ?? tool.name} (MCP server ${entry.state.server.name})`,
+                parameters: { ...tool.inputSchema, $schema: undefined },
+            },
+        }))
+
+        const resources = [...this.entries.values()].flatMap(e => e.state.resources.map(r => `${e.state.server.name}: ${r.uri} — ${r.description ?? r.name}`))
+        if (resources.length) {
+            const more = resources.length > MAX_LISTED_RESOURCES ? `\n... and ${resources.length - MAX_LISTED_RESOURCES} more` : ''
+            definitions.push({
+                type: 'function',
+                function: {
+                    name: RESOURCE_TOOL,
+                    description: `Read a resource of an MCP server. Available resources:\n${resources.slice(0, MAX_LISTED_RESOURCES).join('\n')}${more}`,
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            server: { type: 'string', description: 'Name of the MCP server' },
+                            uri: { type: 'string', description: 'URI of the resource' },
+                        },
+                        required: ['server', 'uri'],
+                    },
+                },
+            })
+        }
+        return definitions
+    }
+
+    /** What a call of an MCP tool does, null when the name is no MCP tool */
+    describeCall (name: string, args: any): MCPCall | null { // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+        if (name === RESOURCE_TOOL) {
+            const entry = this.findServer(args.server)
+            return entry ? {
+                server: entry.state.server,
+                readOnly: true,
+                description: `Read MCP resource: ${args.server} ${args.uri}`,
+            } : null
+        }
+        const binding = this.bindings.get(name)
+        if (!binding) {
+            return null
+        }
+        const argsText = JSON.stringify(args)
+        return {
+            server: binding.entry.state.server,
+            readOnly: !!binding.tool.annotations?.readOnlyHint,
+            description: `${binding.entry.state.server.name}: ${binding.tool.name} ${argsText.length > 200 ? argsText.slice(0, 200) + '…' : argsText}`,
+        }
+    }
+
+    /** Run an MCP tool call; the result is text for the model */
+    async callTool (name: string, args: any, signal: AbortSignal): Promise<string> { // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+        if (name === RESOURCE_TOOL) {
+            return this.readResource(args.server, args.uri, signal)
+        }
+        const binding = this.bindings.get(name)
+        if (!binding?.entry.client) {
+            throw new Error(`${name} is not available, its MCP server is not running`)
+        }
+        const { server } = binding.entry.state
+        const result = await binding.entry.client.callTool(binding.tool.name, args, { timeout: server.timeout || 600000, signal })
+        const text = result.content.length ? formatContent(result.content) : JSON.stringify(result.structuredContent ?? '')
+        return result.isError ? `Error: ${text}` : text || '(no output)'
+    }
+
+    async readResource (serverName: string, uri: string, signal?: AbortSignal): Promise<string> {
+        const client = this.getClient(serverName)
+        return formatContent(await client.readResource(uri, signal))
+    }
+
+    /** The messages of a prompt template, as text */
+    async getPrompt (serverName: string, name: string, options: { args: Record<string, string>, signal?: AbortSignal }): Promise<string> {
+        const client = this.getClient(serverName)
+        const messages = await client.getPrompt(name, options.args, options.signal)
+        return messages.map(m => formatContent([m.content])).join('\n\n')
+    }
+
+    private getConfigured (): AIMCPServer[] {
+        return this.config.store.ai.mcpServers
+    }
+
+    private findServer (name: string): ServerEntry | undefined {
+        return [...this.entries.values()].find(e => e.state.server.name === name)
+    }
+
+    private getClient (serverName: string): MCPClient {
+        const entry = this.findServer(serverName)
+        if (!entry?.client) {
+            throw new Error(`MCP server ${serverName} is not running`)
+        }
+        return entry.client
+    }
+
+    private launch (configured: AIMCPServer, restarts = 0): void {
+        // A copy, so that changes in the settings are noticed
+        const server: AIMCPServer = JSON.parse(JSON.stringify(configured))
+        const entry: ServerEntry = {
+            state: {
+                server,
+                status: 'starting',
+                error: null,
+                tools: [],
+                resources: [],
+                prompts: [],
+                clashingTools: [],
+                restarts,
+            },
+            client: new MCPClient(server),
+            ready: Promise.resolve(),
+            awaited: false,
+            startedAt: Date.now(),
+        }
+        this.entries.set(server.id, entry)
+        this.changed.next()
+        entry.ready = this.connect(entry, entry.client!)
+    }
+
+    private async connect (entry: ServerEntry, client: MCPClient): Promise<void> {
+        try {
+            await client.connect()
+            await this.refresh(entry, client)
+        } catch (err: any) {
+            if (entry.client === client) {
+                entry.client = null
+                entry.state.status = 'error'
+                entry.state.error = err.message
+                this.changed.next()
+                client.close()
+            }
+            return
+        }
+        entry.state.status = 'running'
+        this.changed.next()
+
+        client.notifications$.subscribe(notification => {
+            if (notification.method?.endsWith('/list_changed')) {
+                this.refresh(entry, client).catch(err => console.warn(`[tabby-ai] MCP server ${entry.state.server.name}:`, err))
+            }
+        })
+        client.closed$.subscribe(reason => this.onCrash(entry, client, reason))
+    }
+
+    /** Load the lists of a server */
+    private async refresh (entry: ServerEntry, client: MCPClient): Promise<void> {
+        const [tools, resources, prompts] = await Promise.all([
+            client.listTools(),
+            client.listResources(),
+            client.listPrompts(),
+        ])
+        if (entry.client !== client) {
+            return
+        }
+        Object.assign(entry.state, { tools, resources, prompts })
+        this.updateBindings()
+        this.changed.next()
+    }
+
+    private onCrash (entry: ServerEntry, client: MCPClient, reason: string): void {
+        if (entry.client !== client) {
+            return
+        }
+        entry.client = null
+        const { state } = entry
+        const restarts = Date.now() - entry.startedAt > STEADY_TIME ? 0 : state.restarts
+        Object.assign(state, { status: 'error', error: reason, tools: [], resources: [], prompts: [] })
+        this.updateBindings()
+        if (restarts < MAX_RESTARTS) {
+            state.error += ' — restarting'
+            entry.restartTimer = setTimeout(() => this.launch(state.server, restarts + 1), 1000 * 2 ** restarts)
+        }
+        this.changed.next()
+    }
+
+    private stop (entry: ServerEntry): void {
+        clearTimeout(entry.restartTimer)
+        entry.client?.close()
+        entry.client = null
+        this.entries.delete(entry.state.server.id)
+        this.updateBindings()
+        this.changed.next()
+    }
+
+    private updateBindings (): void {
+        this.bindings.clear()
+        for (const entry of this.entries.values()) {
+            entry.state.clashingTools = []
+            for (const tool of entry.state.tools) {
+                const name = getToolName(entry.state.server.name, tool.name)
+                if (this.bindings.has(name)) {
+                    entry.state.clashingTools.push(tool.name)
+                } else {
+                    this.bindings.set(name, { entry, tool })
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,518 @@
+/**
+ * Model Context Protocol client — what gemini-cli does with the MCP SDK
+ * (packages/core/src/tools/mcp-client.ts), written out here as the plugin
+ * has no SDK dependency: JSON-RPC 2.0 to a server over its stdio, over
+ * Streamable HTTP, or over the older HTTP+SSE transport.
+ */
+
+import { ChildProcess, spawn } from 'child_process'
+import * as os from 'os'
+import { Observable, Subject, Subscription } from 'rxjs'
+import { AIMCPServer } from './api'
+import { readSSEData, readSSEEvents } from './sse'
+
+const PROTOCOL_VERSION = '2025-06-18'
+
+/** Time the server gets to start and answer `initialize` */
+const CONNECT_TIMEOUT = 30000
+
+/** Lines of the server's stderr kept to explain a failure */
+const STDERR_LINES = 20
+
+/** A tool as listed by tools/list */
+export interface MCPTool {
+    name: string
+    title?: string
+    description?: string
+    inputSchema: any
+    annotations?: {
+        title?: string
+        /** The tool changes nothing */
+        readOnlyHint?: boolean
+        destructiveHint?: boolean
+    }
+}
+
+/** A resource as listed by resources/list */
+export interface MCPResource {
+    uri: string
+    name: string
+    description?: string
+    mimeType?: string
+}
+
+/** A prompt template as listed by prompts/list */
+export interface MCPPrompt {
+    name: string
+    description?: string
+    arguments?: { name: string, description?: string, required?: boolean }[]
+}
+
+/** Content of tool results, resources and prompt messages */
+export interface MCPContent {
+    type: string
+    text?: string
+    mimeType?: string
+    uri?: string
+    resource?: { uri: string, text?: string, mimeType?: string }
+}
+
+/** A JSON-RPC request, notification or response */
+interface JSONRPCMessage {
+    jsonrpc: '2.0'
+    id?: number | string
+    method?: string
+    params?: any
+    result?: any
+    error?: { code: number, message: string }
+}
+
+/** Moves JSON-RPC messages to and from a server */
+interface MCPTransport {
+    messages$: Observable<JSONRPCMessage>
+    /** The connection ended, with the reason */
+    closed$: Observable<string>
+    start: () => Promise<void>
+    send: (message: JSONRPCMessage) => Promise<void>
+    close: () => Promise<void>
+}
+
+/** A message from a server, or null — logged — when it is not JSON */
+function parseMessage (server: AIMCPServer, data: string): JSONRPCMessage | null {
+    try {
+        return JSON.parse(data)
+    } catch {
+        // Servers that log to stdout break the protocol — keep going
+        console.warn(`[tabby-ai] MCP server ${server.name} sent a non-JSON message:`, data)
+        return null
+    }
+}
+
+/** Newline-delimited JSON over the stdin and stdout of a child process */
+class StdioTransport implements MCPTransport {
+    messages$ = new Subject<JSONRPCMessage>()
+    closed$ = new Subject<string>()
+    private child: ChildProcess | null = null
+    private stderr: string[] = []
+
+    constructor (private server: AIMCPServer) { }
+
+    start (): Promise<void> {
+        const child = spawn(this.server.command, this.server.args, {
+            cwd: this.server.cwd || os.homedir(),
+            env: { ...process.env, ...this.server.env },
+            stdio: ['pipe', 'pipe', 'pipe'],
+            // npx and friends are .cmd scripts on Windows
+            shell: process.platform === 'win32',
+            windowsHide: true,
+        })
+        this.child = child
+
+        let buffer = ''
+        child.stdout.on('data', (data: Buffer) => {
+            buffer += data.toString()
+            const lines = buffer.split('\n')
+            buffer = lines.pop() ?? ''
+            for (const line of lines) {
+                const message = line.trim() ? parseMessage(this.server, line) : null
+                if (message) {
+                    this.messages$.next(message)
+                }
+            }
+        })
+        // A server exiting while a message is written is reported by 'close'
+        child.stdin.on('error', () => null)
+        child.stderr.on('data', (data: Buffer) => {
+            this.stderr.push(...data.toString().split('\n').filter(line => line.trim()))
+            this.stderr = this.stderr.slice(-STDERR_LINES)
+        })
+        child.on('close', (code, signal) => {
+            this.child = null
+            const reason = signal ? `killed by ${signal}` : `exited with code ${code}`
+            const output = this.stderr.length ? `: ${this.stderr[this.stderr.length - 1]}` : ''
+            this.closed$.next(`${this.server.command} ${reason}${output}`)
+        })
+
+        return new Promise((resolve, reject) => {
+            child.once('spawn', () => resolve())
+            child.once('error', err => {
+                this.child = null
+                reject(new Error(`cannot start ${this.server.command}: ${err.message}`))
+            })
+        })
+    }
+
+    async send (message: JSONRPCMessage): Promise<void> {
+        if (!this.child?.stdin?.writable) {
+            throw new Error('the server is not running')
+        }
+        this.child.stdin.write(JSON.stringify(message) + '\n')
+    }
+
+    async close (): Promise<void> {
+        // Servers exit when their input ends; kill those that don't
+        const { child } = this
+        child?.stdin?.end()
+        setTimeout(() => child?.kill(), 2000)
+    }
+}
+
+/**
+ * Streamable HTTP: each message is POSTed, and the answer comes back as
+ * JSON or as an SSE stream of messages.
+ */
+class StreamableHTTPTransport implements MCPTransport {
+    messages$ = new Subject<JSONRPCMessage>()
+    closed$ = new Subject<string>()
+    private sessionId: string | null = null
+    private abortController = new AbortController()
+
+    constructor (private server: AIMCPServer) { }
+
+    async start (): Promise<void> {
+        // Stateless — connecting happens with the first request
+    }
+
+    async send (message: JSONRPCMessage): Promise<void> {
+        const response = await fetch(this.server.url, {
+            method: 'POST',
+            headers: this.getHeaders({
+                'Content-Type': 'application/json',
+                'Accept': 'application/json, text/event-stream',
+            }),
+            body: JSON.stringify(message),
+            signal: this.abortController.signal,
+        })
+        if (response.status === 404 && this.sessionId) {
+            this.closed$.next('the server ended the session')
+            throw new Error('session expired')
+        }
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`)
+        }
+        this.sessionId = response.headers.get('mcp-session-id') ?? this.sessionId
+
+        const type = response.headers.get('content-type') ?? ''
+        if (type.includes('text/event-stream')) {
+            // Responses to this message, read in the background
+            this.readStream(response)
+        } else if (type.includes('application/json')) {
+            const data = await response.json()
+            for (const item of Array.isArray(data) ? data : [data]) {
+                this.messages$.next(item)
+            }
+        }
+    }
+
+    async close (): Promise<void> {
+        this.abortController.abort()
+        if (this.sessionId) {
+            await fetch(this.server.url, { method: 'DELETE', headers: this.getHeaders({}) }).catch(() => null)
+        }
+    }
+
+    private async readStream (response: Response): Promise<void> {
+        try {
+            for await (const data of readSSEData(response, this.abortController.signal)) {
+                const message = data ? parseMessage(this.server, data) : null
+                if (message) {
+                    this.messages$.next(message)
+                }
+            }
+        } catch (err: any) {
+            if (!this.abortController.signal.aborted) {
+                console.warn(`[tabby-ai] MCP server ${this.server.name}: stream failed:`, err)
+            }
+        }
+    }
+
+    private getHeaders (headers: Record<string, string>): Record<string, string> {
+        return {
+            ...this.server.headers,
+            ...headers,
+            ...this.sessionId ? { 'Mcp-Session-Id': this.sessionId, 'MCP-Protocol-Version': PROTOCOL_VERSION } : {},
+        }
+    }
+}
+
+/**
+ * The HTTP+SSE transport of older servers: one long-lived SSE stream
+ * carries all messages from the server, after an `endpoint` event naming
+ * the URL to POST messages to.
+ */
+class SSETransport implements MCPTransport {
+    messages$ = new Subject<JSONRPCMessage>()
+    closed$ = new Subject<string>()
+    private endpoint: string | null = null
+    private abortController = new AbortController()
+
+    constructor (private server: AIMCPServer) { }
+
+    async start (): Promise<void> {
+        const response = await fetch(this.server.url, {
+            headers: { ...this.server.headers, Accept: 'text/event-stream' },
+            signal: this.abortController.signal,
+        })
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`)
+        }
+
+        // Not for-await, which would end the stream on break
+        const events = readSSEEvents(response, this.abortController.signal)
+        while (!this.endpoint) {
+            const { done, value } = await events.next()
+            if (done) {
+                break
+            }
+            if (value.event === 'endpoint') {
+                this.endpoint = new URL(value.data, this.server.url).toString()
+            }
+        }
+        if (!this.endpoint) {
+            throw new Error('the server sent no endpoint')
+        }
+        this.readMessages(events)
+    }
+
+    async send (message: JSONRPCMessage): Promise<void> {
+        const response = await fetch(this.endpoint!, {
+            method: 'POST',
+            headers: { ...this.server.headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify(message),
+            signal: this.abortController.signal,
+        })
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`)
+        }
+    }
+
+    async close (): Promise<void> {
+        this.abortController.abort()
+    }
+
+    private async readMessages (events: AsyncGenerator<{ event: string, data: string }>): Promise<void> {
+        try {
+            for await (const { event, data } of events) {
+                const message = event === 'message' ? parseMessage(this.server, data) : null
+                if (message) {
+                    this.messages$.next(message)
+                }
+            }
+            this.closed$.next('the server closed the event stream')
+        } catch (err: any) {
+            if (!this.abortController.signal.aborted) {
+                this.closed$.next(`event stream failed: ${err.message}`)
+            }
+        }
+    }
+}
+
+function createTransport (server: AIMCPServer): MCPTransport {
+    switch (server.transport) {
+        case 'http':
+            return new StreamableHTTPTransport(server)
+        case 'sse':
+            return new SSETransport(server)
+        default:
+            return new StdioTransport(server)
+    }
+}
+
+/** How long a request may take, and what cancels it */
+export interface MCPRequestOptions {
+    /** Milliseconds, CONNECT_TIMEOUT by default */
+    timeout?: number
+    signal?: AbortSignal
+}
+
+interface PendingRequest {
+    resolve: (result: any) => void
+    reject: (error: Error) => void
+}
+
+/**
+ * A connection to one MCP server. Requests are matched to responses by
+ * id; requests from the server other than ping are declined, as the
+ * client offers no capabilities.
+ */
+export class MCPClient {
+    /** From the server's answer to `initialize` */
+    serverInfo: { name: string, version: string } | null = null
+    capabilities: { tools?: object, resources?: object, prompts?: object } = {}
+    /** Hints on using the server, to add to the system prompt */
+    instructions: string | null = null
+
+    private transport: MCPTransport
+    private nextId = 1
+    private pending = new Map<number, PendingRequest>()
+    private notifications = new Subject<JSONRPCMessage>()
+    private closed = new Subject<string>()
+    private isClosed = false
+
+    /** Notifications from the server, e.g. notifications/tools/list_changed */
+    get notifications$ (): Observable<JSONRPCMessage> { return this.notifications }
+    /** The connection ended unexpectedly, with the reason */
+    get closed$ (): Observable<string> { return this.closed }
+
+    constructor (server: AIMCPServer) {
+        this.transport = createTransport(server)
+        this.transport.messages$.subscribe(message => this.handleMessage(message))
+        this.transport.closed$.subscribe(reason => {
+            if (this.isClosed) {
+                return
+            }
+            this.isClosed = true
+            this.rejectAll(new Error(`connection lost: ${reason}`))
+            this.closed.next(reason)
+        })
+    }
+
+    /** Start the server or connect to it, and go through the initialize handshake */
+    async connect (): Promise<void> {
+        await this.transport.start()
+        const result = await this.request('initialize', {
+            protocolVersion: PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: { name: 'tabby-ai', version: '1.0.0' },
+        })
+        this.serverInfo = result.serverInfo ?? null
+        this.capabilities = result.capabilities ?? {}
+        this.instructions = result.instructions ?? null
+        await this.notify('notifications/initialized')
+    }
+
+    async listTools (): Promise<MCPTool[]> {
+        return this.capabilities.tools ? this.list('tools/list', 'tools') : []
+    }
+
+    async listResources (): Promise<MCPResource[]> {
+        return this.capabilities.resources ? this.list('resources/list', 'resources') : []
+    }
+
+    async listPrompts (): Promise<MCPPrompt[]> {
+        return this.capabilities.prompts ? this.list('prompts/list', 'prompts') : []
+    }
+
+    callTool (name: string, args: Record<string, unknown>, options: MCPRequestOptions): Promise<{ content: MCPContent[], isError?: boolean, structuredContent?: any }> {
+        return this.request('tools/call', { name, arguments: args }, options)
+    }
+
+    async readResource (uri: string, signal?: AbortSignal): Promise<MCPContent[]> {
+        const result = await this.request('resources/read', { uri }, { signal })
+        return result.contents ?? []
+    }
+
+    async getPrompt (name: string, args: Record<string, string>, signal?: AbortSignal): Promise<{ role: string, content: MCPContent }[]> {
+        const result = await this.request('prompts/get', { name, arguments: args }, { signal })
+        return result.messages ?? []
+    }
+
+    async close (): Promise<void> {
+        this.isClosed = true
+        this.rejectAll(new Error('the server was stopped'))
+        await this.transport.close()
+    }
+
+    private async list<T> (method: string, key: string): Promise<T[]> {
+        const items: T[] = []
+        let cursor: string | undefined = undefined
+        do {
+            const result = await this.request(method, cursor ? { cursor } : {})
+            items.push(...result[key] ?? [])
+            cursor = result.nextCursor
+        } while (cursor)
+        return items
+    }
+
+    private request (method: string, params: any, options: MCPRequestOptions = {}): Promise<any> {
+        const { timeout = CONNECT_TIMEOUT, signal } = options
+        if (this.isClosed) {
+            return Promise.reject(new Error('the server is not running'))
+        }
+        const id = this.nextId++
+        return new Promise((resolve, reject) => {
+            /** Unsubscribed once the request is answered or given up */
+            const cleanup = new Subscription()
+            const settle = () => {
+                this.pending.delete(id)
+                cleanup.unsubscribe()
+            }
+            const cancel = (error: Error, reason: string) => {
+                settle()
+                this.notify('notifications/cancelled', { requestId: id, reason }).catch(() => null)
+                reject(error)
+            }
+
+            const timer = setTimeout(() => cancel(new Error(`${method} timed out after ${Math.round(timeout / 1000)}s`), 'timed out'), timeout)
+            cleanup.add(() => clearTimeout(timer))
+            if (signal) {
+                const onAbort = () => cancel(new DOMException('Aborted', 'AbortError'), 'aborted by the user')
+                signal.addEventListener('abort', onAbort, { once: true })
+                cleanup.add(() => signal.removeEventListener('abort', onAbort))
+            }
+            this.pending.set(id, {
+                resolve: result => {
+                    settle()
+                    resolve(result)
+                },
+                reject: error => {
+                    settle()
+                    reject(error)
+                },
+            })
+            this.transport.send({ jsonrpc: '2.0', id, method, params }).catch(err => this.pending.get(id)?.reject(err))
+        })
+    }
+
+    private notify (method: string, params?: any): Promise<void> {
+        return this.transport.send({ jsonrpc: '2.0', method, ...params ? { params } : {} })
+    }
+
+    private handleMessage (message: JSONRPCMessage): void {
+        if (message.method) {
+            if (message.id === undefined) {
+                this.notifications.next(message)
+                return
+            }
+            // A request from the server
+            const answer = message.method === 'ping'
+                ? { result: {} }
+                : { error: { code: -32601, message: `${message.method} is not supported` } }
+            this.transport.send({ jsonrpc: '2.0', id: message.id, ...answer }).catch(() => null)
+            return
+        }
+
+        const pending = this.pending.get(message.id as number)
+        if (!pending) {
+            return
+        }
+        if (message.error) {
+            pending.reject(new Error(`${message.error.message} (${message.error.code})`))
+        } else {
+            pending.resolve(message.result)
+        }
+    }
+
+    private rejectAll (error: Error): void {
+        for (const pending of [...this.pending.values()]) {
+            pending.reject(error)
+        }
+    }
+}
+
+/** Text of MCP content for the model: text as is, other content described */
+export function formatContent (content: MCPContent[]): string {
+    return content.map(item => {
+        if (item.type === 'text') {
+            return item.text ?? ''
+        }
+        if (item.type === 'resource' && item.resource) {
+            return item.resource.text ?? `[resource ${item.resource.uri}]`
+        }
+        if (item.text !== undefined) {
+            // Contents of resources/read carry no type
+            return item.text
+        }
+        return `[${item.type || 'binary'}${item.mimeType ? ` ${item.mimeType}` : ''}${item.uri ? ` ${item.uri}` : ''} omitted]`
+    }).join('\n')
+}
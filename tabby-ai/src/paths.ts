@@ -0,0 +1,10 @@
+import * as os from 'os'
+import * as path from 'path'
+
+/**
+ * Directory holding everything tabby-ai writes to disk outside of
+ * config.yaml, kept apart from project directories on purpose.
+ */
+export function getDataDir (): string {
+    return path.join(os.homedir(), '.tabby-ai')
+}
@@ -0,0 +1,340 @@
+/**
+ * Permission policy for tool calls — a small take on gemini-cli's
+ * PolicyEngine (packages/core/src/policy/policy-engine.ts).
+ *
+ * Rules from `ai.permissions.rules` allow, deny or ask for tool calls,
+ * matched on the shell command or file path and optionally limited to a
+ * directory and a profile. deny beats ask beats allow. Calls no rule
+ * decides are approved when the user allowed them "always" earlier in
+ * the session, when they only read and read-only auto-approval is on, or
+ * when they come from a trusted MCP server; everything else asks.
+ */
+
+import * as os from 'os'
+import * as path from 'path'
+import { ConfigService } from 'tabby-core'
+import { AIPermissionRule } from './api'
+
+export const SHELL_TOOL = 'run_shell_command'
+
+/** A tool call waiting for permission */
+export interface PermissionRequest {
+    tool: string
+    /** What rules match against: the shell command, or the resolved path */
+    subject: string
+    /** Shown when asking the user */
+    description: string
+    /** The call changes nothing */
+    readOnly: boolean
+    /** The tool comes from a source the user trusts, e.g. an MCP server set to 'allow' */
+    trusted?: boolean
+    /** Working directory of the call */
+    cwd: string
+    /** Unified diff of a file change, previewed when asking */
+    diff?: string
+    /** The calls a request for several parallel ones stands for */
+    batch?: PermissionRequest[]
+}
+
+export interface PermissionDecision {
+    action: 'allow' | 'deny' | 'ask'
+    /** What decided, e.g. the matching rule */
+    reason: string
+}
+
+/** Sensitive dotfile basenames / directory names that must never be read. */
+export const BLOCKED_DOTFILES = new Set([
+    '.env', '.env.local', '.env.production', '.env.development', '.env.staging',
+    '.ssh', '.gnupg', '.npmrc', '.pypirc', '.netrc', '.docker',
+    '.aws', '.azure', '.gcloud',
+    '.git-credentials', '.bash_history', '.zsh_history',
+])
+
+/** Commands that only read, given arguments that pass UNSAFE_ARGUMENTS */
+const READ_ONLY_COMMANDS = new Set([
+    'ls', 'dir', 'pwd', 'cd', 'cat', 'head', 'tail', 'wc', 'nl', 'echo', 'printf',
+    'grep', 'egrep', 'fgrep', 'rg', 'find', 'tree', 'file', 'stat', 'du', 'df',
+    'which', 'whereis', 'type', 'whoami', 'id', 'hostname', 'uname', 'date', 'uptime', 'ps',
+    'sort', 'uniq', 'cut', 'tr', 'diff', 'cmp', 'basename', 'dirname', 'realpath', 'readlink',
+    'md5sum', 'sha1sum', 'sha256sum', 'jq', 'true', 'false', 'test',
+])
+
+/** Arguments that make an otherwise read-only command write or run something */
+const UNSAFE_ARGUMENTS: Record<string, RegExp> = {
+    find: /^-(exec|execdir|ok|okdir|delete|fprint0?|fprintf|fls)$/,
+    sort: /^(-[a-zA-Z]*o|--output)/,
+    tree: /^-o/,
+    // -C compiles a magic file and writes it next to it
+    file: /^(-[a-zA-Z]*C|--compile)/,
+    rg: /^--pre/,
+    date: /^(-s|--set)/,
+    hostname: /^[^-]/,
+}
+
+/** git subcommands that only read */
+const READ_ONLY_GIT = new Set(['status', 'log', 'diff', 'show', 'rev-parse', 'ls-files', 'blame', 'describe', 'shortlog', 'grep'])
+
+/** git subcommands that only read when given nothing but these flags */
+const LISTING_GIT = new Set(['branch', 'tag', 'remote'])
+const LISTING_FLAGS = new Set(['-a', '-r', '-v', '-vv', '-l', '--list', '--all', '--remotes', '--verbose', '--show-current'])
+
+/** Commands that run the rest of the line, with their options that take a value */
+const WRAPPERS = new Map<string, RegExp | null>([
+    ['sudo', /^-[ugpCDhRT]$/],
+    ['doas', /^-[uC]$/],
+    ['env', /^-[uCS]$/],
+    ['nice', /^-n$/],
+    ['time', /^-[fo]$/],
+    ['exec', /^-a$/],
+    ['nohup', null],
+    ['command', null],
+])
+
+/**
+ * Split a command line at ;, &&, || and pipes. Null when it has command
+ * substitutions, subshells, background jobs or output redirection, or
+ * unbalanced quotes — anything whose effect can't be judged by its parts.
+ */
+export function splitCommand (command: string): string[] | null {
+    const segments: string[] = []
+    let current = ''
+    let quote: string | null = null
+    for (let i = 0; i < command.length; i++) {
+        const char = command[i]
+        const next = command.charAt(i + 1)
+        if (char === '\\' && quote !== '\'') {
+            current += char + next
+            i++
+            continue
+        }
+        if (quote) {
+            if (char === quote) {
+                quote = null
+            } else if (quote === '"' && (char === '`' || char === '$' && next === '(')) {
+                return null
+            }
+            current += char
+            continue
+        }
+        if (char === '"' || char === '\'') {
+            quote = char
+            current += char
+            continue
+        }
+        if (char === '`' || char === '$' && next === '(' || char === '>' || char === '(' || char === ')') {
+            return null
+        }
+        if (char === ';' || char === '\n' || char === '|' || char === '&') {
+            if (char === '&' && next !== '&') {
+                return null
+            }
+            if ((char === '&' || char === '|') && next === char) {
+                i++
+            }
+            segments.push(current.trim())
+            current = ''
+            continue
+        }
+        current += char
+    }
+    if (quote) {
+        return null
+    }
+    segments.push(current.trim())
+    return segments.filter(s => s)
+}
+
+/** Words of a command line, with their quotes */
+function tokenize (segment: string): string[] {
+    return segment.match(/(?:"(?:\\.|[^"\\])*"|'[^']*'|[^\s"'])+/g) ?? []
+}
+
+function unquote (token: string): string {
+    return token.replace(/"((?:\\.|[^"\\])*)"|'([^']*)'/g, '$1$2')
+}
+
+/** Whether an argument names a path in or below one of BLOCKED_DOTFILES, e.g. `~/.ssh/id_rsa` or `--env-file=.env` */
+function isSensitiveArgument (arg: string): boolean {
+    return arg.split(/[\\/=]/).some(part => BLOCKED_DOTFILES.has(part.toLowerCase()))
+}
+
+/**
+ * The command a segment runs once wrappers like `sudo -u root` or
+ * `env A=1` are taken off, e.g. `rm -rf x` for `sudo nice rm -rf x`.
+ */
+function stripWrappers (segment: string): string {
+    const tokens = tokenize(segment)
+    let start = 0
+    while (start < tokens.length && WRAPPERS.has(unquote(tokens[start]))) {
+        const takesValue = WRAPPERS.get(unquote(tokens[start]))
+        start++
+        // Options, their values and environment assignments
+        while (start < tokens.length && /^-|=/.test(tokens[start])) {
+            start += takesValue?.test(tokens[start]) ? 2 : 1
+        }
+    }
+    return tokens.slice(start).join(' ')
+}
+
+/**
+ * What deny and ask rules are matched against when a command line can't be
+ * split: the parts between any shell punctuation, without wrappers, and
+ * each of its words — so `echo $(sudo rm -rf x)` still hits `rm *`.
+ */
+function fragments (command: string): string[] {
+    const parts = command.split(/\$\(|[;&|()<>`\n]/).map(part => part.trim()).filter(part => part)
+    return [...parts, ...parts.map(stripWrappers), ...parts.flatMap(tokenize).map(unquote)]
+}
+
+function isReadOnlyGit (args: string[]): boolean {
+    // Global options: only -C <dir> and --no-pager
+    while (args[0] === '-C' || args[0] === '--no-pager') {
+        args = args.slice(args[0] === '-C' ? 2 : 1)
+    }
+    const [subcommand, ...rest] = args
+    if (rest.some(arg => /^--(output|ext-diff)/.test(arg))) {
+        return false
+    }
+    if (subcommand === 'grep' && rest.some(arg => /^(-[a-zA-Z]*O|--open-files-in-pager)/.test(arg))) {
+        // Opens the matching files in the given program
+        return false
+    }
+    if (READ_ONLY_GIT.has(subcommand)) {
+        return true
+    }
+    if (subcommand === 'stash') {
+        return rest[0] === 'list'
+    }
+    return LISTING_GIT.has(subcommand) && rest.every(arg => LISTING_FLAGS.has(arg))
+}
+
+function isReadOnlySegment (segment: string): boolean {
+    const tokens = tokenize(segment)
+    if (tokens.some(token => /[$`]/.test(token.replace(/'[^']*'/g, '')))) {
+        // Expansions can print secrets, e.g. `echo $API_KEY`
+        return false
+    }
+    const [name, ...args] = tokens.map(unquote)
+    if (args.some(isSensitiveArgument)) {
+        return false
+    }
+    if (name === 'git') {
+        return isReadOnlyGit(args)
+    }
+    if (!READ_ONLY_COMMANDS.has(name)) {
+        return false
+    }
+    if (name === 'uniq' && args.filter(arg => !arg.startsWith('-')).length > 1) {
+        // The second file is written to
+        return false
+    }
+    const unsafe = UNSAFE_ARGUMENTS[name] as RegExp | undefined
+    return !unsafe || !args.some(arg => unsafe.test(arg))
+}
+
+/** Whether a shell command is known to change nothing, e.g. `git status && ls -la | head` */
+export function isReadOnlyCommand (command: string): boolean {
+    const segments = splitCommand(command)
+    return !!segments?.length && segments.every(isReadOnlySegment)
+}
+
+/** Globs match the whole subject, /regex/ anywhere in it */
+function matchesPattern (pattern: string, subject: string): boolean {
+    if (!pattern) {
+        return true
+    }
+    try {
+        const regex = /^\/(.+)\/([imsu]*)$/.exec(pattern)
+        if (regex) {
+            return new RegExp(regex[1], regex[2]).test(subject)
+        }
+        const source = [...pattern].map(c => c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\/]/, '\\$&')).join('')
+        return new RegExp(`^${source}$`, 's').test(subject)
+    } catch {
+        // An invalid regex matches nothing
+        return false
+    }
+}
+
+function isWithin (directory: string, cwd: string): boolean {
+    const resolved = path.resolve(directory.replace(/^~(?=$|[\\/])/, os.homedir()))
+    const relative = path.relative(resolved, cwd)
+    return !relative || !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
+function describeRule (rule: AIPermissionRule): string {
+    const parts = [rule.action, rule.tool === '*' ? 'any tool' : rule.tool]
+    if (rule.pattern) {
+        parts.push(rule.pattern)
+    }
+    if (rule.cwd) {
+        parts.push(`in ${rule.cwd}`)
+    }
+    return parts.join(' ')
+}
+
+/**
+ * Decides tool calls of one terminal session, which also holds the calls
+ * the user allowed "always".
+ */
+export class PermissionPolicy {
+    /** Calls allowed for the rest of the session, by tool and subject */
+    private sessionAllowed = new Set<string>()
+
+    constructor (
+        private config: ConfigService,
+        private profileId: string,
+    ) { }
+
+    check (request: PermissionRequest): PermissionDecision {
+        const { autoApproveReadOnly, rules } = this.config.store.ai.permissions
+        const applicable = (rules as AIPermissionRule[]).filter(rule => this.applies(rule, request))
+
+        // Deny and ask rules catch a command anywhere in a command line, also
+        // behind wrappers like sudo; allow rules have to cover all of it
+        const shell = request.tool === SHELL_TOOL
+        const segments = shell ? splitCommand(request.subject) : [request.subject]
+        const subjects = [request.subject]
+        if (shell) {
+            subjects.push(...segments ? [...segments, ...segments.map(stripWrappers)] : fragments(request.subject))
+        }
+        for (const action of ['deny', 'ask'] as const) {
+            const rule = applicable.find(r => r.action === action && subjects.some(s => matchesPattern(r.pattern, s)))
+            if (rule) {
+                return { action, reason: `rule "${describeRule(rule)}"` }
+            }
+        }
+        const allowRules = applicable.filter(r => r.action === 'allow')
+        if (allowRules.length && segments?.length && segments.every(s => allowRules.some(r => matchesPattern(r.pattern, s)))) {
+            return { action: 'allow', reason: 'allow rule' }
+        }
+
+        if (this.sessionAllowed.has(this.getKey(request))) {
+            return { action: 'allow', reason: 'allowed for this session' }
+        }
+        if (request.readOnly && autoApproveReadOnly) {
+            return { action: 'allow', reason: 'read-only' }
+        }
+        if (request.trusted) {
+            return { action: 'allow', reason: 'trusted' }
+        }
+        return { action: 'ask', reason: 'no rule matched' }
+    }
+
+    /** The user answered "always" — approve this exact call until the session ends */
+    allowForSession (request: PermissionRequest): void {
+        for (const each of request.batch ?? [request]) {
+            this.sessionAllowed.add(this.getKey(each))
+        }
+    }
+
+    private applies (rule: AIPermissionRule, request: PermissionRequest): boolean {
+        return (rule.tool === '*' || rule.tool === request.tool)
+            && (!rule.profileId || rule.profileId === this.profileId)
+            && (!rule.cwd || isWithin(rule.cwd, request.cwd))
+    }
+
+    private getKey (request: PermissionRequest): string {
+        return `${request.tool}\n${request.subject}`
+    }
+}
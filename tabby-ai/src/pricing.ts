@@ -0,0 +1,71 @@
+/**
+ * Model pricing — converts token usage into money.
+ *
+ * Prices are per million tokens, in the currency configured in
+ * `ai.currency`. The defaults are public list prices in USD; users can edit
+ * the table in the AI settings tab (e.g. for negotiated rates or gateways).
+ */
+
+import type { TokensSummary } from './streamEvents'
+
+export interface ModelPrice {
+    /** Model name or prefix, e.g. 'gpt-4o' also covers 'gpt-4o-2024-08-06' */
+    model: string
+    /** Price per million uncached input tokens */
+    input: number
+    /** Price per million output tokens */
+    output: number
+    /** Price per million cached input tokens; uncached price when omitted */
+    cachedInput?: number | null
+}
+
+export const DEFAULT_PRICING: ModelPrice[] = [
+    { model: 'gpt-4.1', input: 2, output: 8, cachedInput: 0.5 },
+    { model: 'gpt-4.1-mini', input: 0.4, output: 1.6, cachedInput: 0.1 },
+    { model: 'gpt-4.1-nano', input: 0.1, output: 0.4, cachedInput: 0.025 },
+    { model: 'gpt-4o', input: 2.5, output: 10, cachedInput: 1.25 },
+    { model: 'gpt-4o-mini', input: 0.15, output: 0.6, cachedInput: 0.075 },
+    { model: 'o3', input: 2, output: 8, cachedInput: 0.5 },
+    { model: 'o3-mini', input: 1.1, output: 4.4, cachedInput: 0.55 },
+    { model: 'o4-mini', input: 1.1, output: 4.4, cachedInput: 0.275 },
+    { model: 'claude-opus-4', input: 15, output: 75, cachedInput: 1.5 },
+    { model: 'claude-sonnet-4', input: 3, output: 15, cachedInput: 0.3 },
+    { model: 'claude-3-7-sonnet', input: 3, output: 15, cachedInput: 0.3 },
+    { model: 'claude-3-5-haiku', input: 0.8, output: 4, cachedInput: 0.08 },
+    { model: 'gemini-2.5-pro', input: 1.25, output: 10, cachedInput: 0.31 },
+    { model: 'gemini-2.5-flash', input: 0.3, output: 2.5, cachedInput: 0.075 },
+    { model: 'gemini-2.0-flash', input: 0.1, output: 0.4, cachedInput: 0.025 },
+    { model: 'deepseek-chat', input: 0.27, output: 1.1, cachedInput: 0.07 },
+    { model: 'deepseek-reasoner', input: 0.55, output: 2.19, cachedInput: 0.14 },
+]
+
+/**
+ * Price entry for a model — the longest matching name prefix, so
+ * 'gpt-4o-mini-2024-07-18' is priced as 'gpt-4o-mini', not 'gpt-4o'.
+ * Returns null for unknown (e.g. local) models.
+ */
+export function findPrice (pricing: ModelPrice[], model: string): ModelPrice | null {
+    const name = model.toLowerCase().replace(/^models\//, '')
+    let best: ModelPrice | null = null
+    for (const price of pricing) {
+        const candidate = price.model.toLowerCase()
+        if (!candidate || !name.startsWith(candidate)) {
+            continue
+        }
+        if (!best || candidate.length > best.model.length) {
+            best = price
+        }
+    }
+    return best
+}
+
+/** Cost of one usage report; cached input tokens are part of promptTokens */
+export function computeCost (price: ModelPrice, usage: TokensSummary): number {
+    const cached = Math.min(usage.cachedTokens, usage.promptTokens)
+    const uncached = usage.promptTokens - cached
+    return (
+        uncached * price.input +
+        cached * (price.cachedInput ?? price.input) +
+        usage.completionTokens * price.output
+    ) / 1_000_000
+}
@@ -0,0 +1,59 @@
+import { Injectable } from '@angular/core'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { getDataDir } from './paths'
+
+/** Oldest prompts are dropped beyond this */
+const MAX_ENTRIES = 1000
+
+/**
+ * Prompts entered at "@", shared by all tabs and kept in
+ * ~/.tabby-ai/prompt-history.json so Up/Down recall survives restarts.
+ */
+@Injectable()
+export class AIPromptHistoryService {
+    private entries: string[] = []
+    private loaded: Promise<void>
+
+    constructor () {
+        this.loaded = this.load()
+    }
+
+    /** Oldest first */
+    getEntries (): string[] {
+        return this.entries
+    }
+
+    /** Record a prompt; a repeated prompt moves to the end */
+    add (prompt: string): void {
+        if (!prompt.trim()) {
+            return
+        }
+        this.entries = [...this.entries.filter(e => e !== prompt), prompt].slice(-MAX_ENTRIES)
+        this.save().catch(err => {
+            console.error('[tabby-ai] Failed to save prompt history:', err)
+        })
+    }
+
+    private async load (): Promise<void> {
+        try {
+            const stored = JSON.parse(await fs.readFile(this.getPath(), 'utf-8'))
+            if (Array.isArray(stored)) {
+                // Prompts entered before loading finished stay newest
+                this.entries = [...stored.filter(e => typeof e === 'string' && !this.entries.includes(e)), ...this.entries]
+            }
+        } catch {
+            // No history yet
+        }
+    }
+
+    private async save (): Promise<void> {
+        await this.loaded
+        await fs.mkdir(getDataDir(), { recursive: true })
+        await fs.writeFile(this.getPath(), JSON.stringify(this.entries))
+    }
+
+    private getPath (): string {
+        return path.join(getDataDir(), 'prompt-history.json')
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * Runs agent commands in the terminal session itself, as if the user typed
+ * them — so they see the shell's environment, aliases, virtualenv and, in
+ * SSH tabs, the remote machine. The counterpart of shellExecutor.ts, which
+ * spawns a separate local shell.
+ *
+ * The command is wrapped in printf calls that emit invisible OSC markers
+ * around its output, the closing one carrying the exit code. Needs a
+ * POSIX shell (bash, zsh, sh, ...) at a prompt.
+ */
+
+import { StringDecoder } from 'string_decoder'
+import { Observable, Subscription } from 'rxjs'
+import { ANSI_REGEX } from './contextCollector'
+import { CommandOptions, ShellResult } from './shellExecutor'
+
+/** The terminal session commands are typed into */
+export interface TerminalSessionIO {
+    /** Session output, as shown in the terminal */
+    output$: Observable<Buffer>
+    /** Send input to the session */
+    input: (data: Buffer) => void
+}
+
+const MAX_BUFFER = 512 * 1024
+
+/** A sequence cut off at the end of a chunk */
+// eslint-disable-next-line no-control-regex
+const PARTIAL_ESCAPE = /\x1b(\][^\x07]*|\[[\d;?]*)?$/
+
+function quote (text: string): string {
+    return `'${text.replace(/'/g, `'\\''`)}'`
+}
+
+/** Strip escape sequences and carriage returns from terminal output */
+function clean (text: string): string {
+    return text.replace(ANSI_REGEX, '').replace(/\r+\n/g, '\n').replace(/\r/g, '')
+}
+
+/**
+ * Type a command into the session and collect its output until the end
+ * marker shows up. Aborting or timing out sends Ctrl+C.
+ */
+export async function executeInSession (session: TerminalSessionIO, command: string, options: CommandOptions): Promise<ShellResult> {
+    const { signal, onOutput, timeout = 30000 } = options
+    const nonce = Math.random().toString(36).slice(2, 10)
+    // The typed line shows `%s`, only the printed markers carry the nonce
+    const startMarker = `\x1b]777;tabby-ai;${nonce}\x07`
+    const endMarker = new RegExp(`\\x1b\\]777;tabby-ai;${nonce};(\\d+)\\x07`)
+    const marker = `'\\033]777;tabby-ai;%s%s\\007' ${nonce}`
+    // Leading space keeps it out of the shell history (ignorespace);
+    // Ctrl+E Ctrl+U clears whatever was typed at the prompt
+    const line = ` printf ${marker} ''; eval ${quote(command)}; printf ${marker} ";$?"\r`
+
+    return new Promise(resolve => {
+        const decoder = new StringDecoder('utf8')
+        let pending = ''
+        let started = false
+        let stdout = ''
+        let timedOut = false
+        /** Unsubscribed once the command is over */
+        const cleanup = new Subscription()
+
+        const emit = (text: string) => {
+            const output = clean(text)
+            if (!output) {
+                return
+            }
+            if (stdout.length < MAX_BUFFER) {
+                stdout += output
+            }
+            onOutput?.(output)
+        }
+
+        const finish = (exitCode: number | null) => {
+            cleanup.unsubscribe()
+            resolve({ stdout, stderr: '', exitCode, timedOut })
+        }
+
+        const interrupt = () => {
+            session.input(Buffer.from('\x03'))
+            finish(null)
+        }
+
+        cleanup.add(session.output$.subscribe(data => {
+            pending += decoder.write(data)
+            if (!started) {
+                const start = pending.indexOf(startMarker)
+                if (start < 0) {
+                    // Keep what may be the start of the marker
+                    pending = pending.slice(-startMarker.length)
+                    return
+                }
+                started = true
+                pending = pending.slice(start + startMarker.length)
+            }
+
+            const end = endMarker.exec(pending)
+            if (end) {
+                emit(pending.slice(0, end.index))
+                finish(parseInt(end[1]))
+                return
+            }
+            // Hold back an escape sequence that may continue in the next chunk
+            const partial = PARTIAL_ESCAPE.exec(pending)
+            const cut = partial ? partial.index : pending.length
+            emit(pending.slice(0, cut))
+            pending = pending.slice(cut)
+        }))
+
+        const timer = setTimeout(() => {
+            timedOut = true
+            interrupt()
+        }, timeout)
+        cleanup.add(() => clearTimeout(timer))
+        signal.addEventListener('abort', interrupt, { once: true })
+        cleanup.add(() => signal.removeEventListener('abort', interrupt))
+
+        session.input(Buffer.from('\x05\x15' + line))
+    })
+}
@@ -1,6 +1,7 @@
 import { Injectable } from '@angular/core'
-import { SettingsTabProvider } from 'tabby-settings'
+import { ProfileEditorSectionProvider, SettingsTabProvider } from 'tabby-settings'
 
+import { AIProfileSettingsComponent } from './components/aiProfileSettings.component'
 import { AISettingsTabComponent } from './components/aiSettingsTab.component'
 
 @Injectable()
@@ -13,3 +14,11 @@ export class AISettingsTabProvider extends SettingsTabProvider {
         return AISettingsTabComponent
     }
 }
+
+/** Lets every profile pick its AI configuration in the profile editor */
+@Injectable()
+export class AIProfileSettingsProvider extends ProfileEditorSectionProvider {
+    getComponentType (): any {
+        return AIProfileSettingsComponent
+    }
+}
@@ -4,7 +4,7 @@
  * (packages/core/src/services/shellExecutionService.ts).
  */
 
-import { spawn } from 'child_process'
+import { ChildProcess, spawn, spawnSync } from 'child_process'
 import * as os from 'os'
 
 export interface ShellResult {
@@ -14,6 +14,15 @@ export interface ShellResult {
     timedOut: boolean
 }
 
+/** How a command of the agent runs */
+export interface CommandOptions {
+    signal: AbortSignal
+    /** Receives the output as it comes */
+    onOutput?: (chunk: string) => void
+    /** Milliseconds until the command is stopped, 30000 by default */
+    timeout?: number
+}
+
 /**
  * Patterns that identify sensitive environment variable names.
  * Any key whose UPPERCASED form contains one of these substrings is stripped.
@@ -61,6 +70,49 @@ function buildSafeEnv (): Record<string, string | undefined> {
     return filtered
 }
 
+/** A command running in the background, started by spawnCommand() or AIFileSystem.spawn() */
+export interface SpawnedProcess {
+    /** Resolves with the exit code once the process ended, null when a signal ended it */
+    exited: Promise<number | null>
+    /** Send text to the process's stdin */
+    write: (data: string) => void
+    /** Terminate the process with everything it started */
+    kill: () => void
+}
+
+function spawnShell (command: string, cwd: string, stdin: 'ignore' | 'pipe'): ChildProcess {
+    const isWindows = os.platform() === 'win32'
+    const shell = isWindows ? process.env.COMSPEC ?? 'cmd.exe' : '/bin/bash'
+    const args = isWindows ? ['/c', command] : ['-c', command]
+
+    return spawn(shell, args, {
+        cwd,
+        stdio: [stdin, 'pipe', 'pipe'],
+        detached: !isWindows,
+        env: {
+            ...buildSafeEnv(),
+            PAGER: 'cat',
+            GIT_PAGER: 'cat',
+        },
+    })
+}
+
+/** Signal the process group of a shell started by spawnShell() */
+function killShell (child: ChildProcess, signal: 'SIGTERM' | 'SIGKILL' = 'SIGTERM'): void {
+    if (!child.pid) {
+        return
+    }
+    try {
+        if (os.platform() === 'win32') {
+            // Windows has no process groups, and signals would only end
+            // cmd.exe — taskkill ends the whole tree
+            spawnSync('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true })
+        } else {
+            process.kill(-child.pid, signal)
+        }
+    } catch { /* already dead */ }
+}
+
 /**
  * Execute a shell command, capturing output.
  * Mirrors gemini-cli's ShellExecutionService.execute().
@@ -73,35 +125,14 @@ export async function executeCommand (
     timeout = 30000,
 ): Promise<ShellResult> {
     return new Promise((resolve) => {
-        const isWindows = os.platform() === 'win32'
-        const shell = isWindows ? process.env.COMSPEC || 'cmd.exe' : '/bin/bash'
-        const args = isWindows ? ['/c', command] : ['-c', command]
-
-        const child = spawn(shell, args, {
-            cwd,
-            stdio: ['ignore', 'pipe', 'pipe'],
-            detached: !isWindows,
-            env: {
-                ...buildSafeEnv(),
-                PAGER: 'cat',
-                GIT_PAGER: 'cat',
-            },
-        })
+        const child = spawnShell(command, cwd, 'ignore')
 
         let stdout = ''
         let stderr = ''
         let timedOut = false
         const maxBuffer = 512 * 1024
 
-        const abortHandler = () => {
-            try {
-                if (!isWindows && child.pid) {
-                    process.kill(-child.pid, 'SIGTERM')
-                } else {
-                    child.kill('SIGTERM')
-                }
-            } catch { /* already dead */ }
-        }
+        const abortHandler = () => killShell(child)
         signal.addEventListener('abort', abortHandler, { once: true })
 
         const timer = setTimeout(() => {
@@ -138,3 +169,36 @@ export async function executeCommand (
         })
     })
 }
+
+/**
+ * Start a command that keeps running after the call returns, like a dev
+ * server or a watcher. Unlike executeCommand() it has no timeout and
+ * takes input.
+ */
+export function spawnCommand (command: string, cwd: string, onOutput: (chunk: string) => void): SpawnedProcess {
+    const child = spawnShell(command, cwd, 'pipe')
+    child.stdout?.on('data', (data: Buffer) => onOutput(data.toString()))
+    child.stderr?.on('data', (data: Buffer) => onOutput(data.toString()))
+    child.stdin?.on('error', () => null)
+
+    const exited = new Promise<number | null>(resolve => {
+        child.on('close', code => resolve(code))
+        child.on('error', err => {
+            onOutput(err.message)
+            resolve(1)
+        })
+    })
+
+    return {
+        exited,
+        write: data => {
+            child.stdin?.write(data)
+        },
+        kill: () => {
+            killShell(child)
+            // Whatever ignores SIGTERM
+            const timer = setTimeout(() => killShell(child, 'SIGKILL'), 5000)
+            exited.then(() => clearTimeout(timer))
+        },
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ * Minimal Server-Sent Events readers for the provider stream parsers and the MCP client.
+ */
+
+/**
+ * Yield the payload of every `data:` line of an SSE response body.
+ * `event:`/`id:` lines and comments are skipped — all providers we talk to
+ * repeat the event type inside the JSON payload.
+ */
+export async function *readSSEData (
+    response: Response,
+    signal?: AbortSignal,
+): AsyncGenerator<string> {
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    try {
+        while (!signal?.aborted) {
+            const { done, value } = await reader.read()
+            if (done) {
+                break
+            }
+
+            buffer += decoder.decode(value, { stream: true })
+
+            const lines = buffer.split('\n')
+            buffer = lines.pop() ?? ''
+
+            for (const line of lines) {
+                const trimmed = line.trim()
+                if (trimmed.startsWith('data:')) {
+                    yield trimmed.slice(5).trim()
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock()
+    }
+}
+
+/** One event of an SSE stream */
+export interface SSEEvent {
+    /** `message` unless the event names another type */
+    event: string
+    data: string
+}
+
+/**
+ * Yield the events of an SSE response body with their type — for streams
+ * that, unlike the providers', tell events apart by `event:` lines, such
+ * as MCP's HTTP+SSE transport.
+ */
+export async function *readSSEEvents (
+    response: Response,
+    signal?: AbortSignal,
+): AsyncGenerator<SSEEvent> {
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let event = 'message'
+    let data: string[] = []
+
+    try {
+        while (!signal?.aborted) {
+            const { done, value } = await reader.read()
+            if (done) {
+                break
+            }
+
+            buffer += decoder.decode(value, { stream: true })
+
+            const lines = buffer.split('\n')
+            buffer = lines.pop() ?? ''
+
+            for (const rawLine of lines) {
+                const line = rawLine.replace(/\r$/, '')
+                if (!line) {
+                    // A blank line ends the event
+                    if (data.length) {
+                        yield { event, data: data.join('\n') }
+                    }
+                    event = 'message'
+                    data = []
+                } else if (line.startsWith('event:')) {
+                    event = line.slice(6).trim()
+                } else if (line.startsWith('data:')) {
+                    data.push(line.slice(5).replace(/^ /, ''))
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock()
+    }
+}
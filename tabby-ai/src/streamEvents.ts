@@ -12,7 +12,11 @@ export const enum EventType {
     ToolCall = 'tool_call',
     /** Token usage data from the API */
     Usage = 'usage',
-    /** Retrying after a transient error — maps to gemini-cli's StreamEventType.RETRY */
+    /**
+     * Retrying after a transient error — maps to gemini-cli's StreamEventType.RETRY.
+     * Value is { attempt, maxAttempts }, or { fallback, error } when switching
+     * to the next configuration of the fallback chain.
+     */
     Retry = 'retry',
     /** API or network error */
     Error = 'error',
@@ -43,3 +47,9 @@ export interface TokensSummary {
     cachedTokens: number       // prompt_tokens_details.cached_tokens / cachedContentTokenCount
     totalTokens: number        // total_tokens / totalTokenCount
 }
+
+/** Usage event payload, tagged with the provider and model that served the request */
+export interface ProviderUsage extends TokensSummary {
+    provider: string
+    model: string
+}
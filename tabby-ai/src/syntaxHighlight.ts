@@ -0,0 +1,190 @@
+/**
+ * Minimal regex-based syntax highlighting for code blocks in answers.
+ * Only tells apart comments, strings, numbers, keywords and function
+ * names — enough to make code readable, without bundling a grammar library.
+ */
+
+/** SGR parameters per token type */
+export interface SyntaxTheme {
+    comment: string
+    string: string
+    number: string
+    keyword: string
+    literal: string
+    /** Names followed by an opening parenthesis */
+    call: string
+    added: string
+    removed: string
+}
+
+interface Language {
+    keywords: string[]
+    literals: string[]
+    /** Line comment markers */
+    lineComments: string[]
+    /** Supports /* *\/ comments */
+    blockComments: boolean
+}
+
+const C_LIKE = ['if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return', 'try', 'catch', 'finally', 'throw', 'new', 'class', 'public', 'private', 'protected', 'static', 'void', 'import', 'const', 'struct', 'enum']
+
+const LANGUAGES: Record<string, Language> = {
+    javascript: {
+        keywords: [...C_LIKE, 'function', 'let', 'var', 'async', 'await', 'yield', 'export', 'from', 'of', 'in', 'typeof', 'instanceof', 'extends', 'implements', 'interface', 'type', 'readonly', 'as', 'delete', 'get', 'set'],
+        literals: ['true', 'false', 'null', 'undefined', 'this', 'super'],
+        lineComments: ['//'],
+        blockComments: true,
+    },
+    python: {
+        keywords: ['def', 'class', 'if', 'elif', 'else', 'for', 'while', 'in', 'not', 'and', 'or', 'is', 'return', 'yield', 'import', 'from', 'as', 'with', 'try', 'except', 'finally', 'raise', 'pass', 'break', 'continue', 'lambda', 'global', 'nonlocal', 'async', 'await', 'del', 'assert'],
+        literals: ['True', 'False', 'None', 'self', 'cls'],
+        lineComments: ['#'],
+        blockComments: false,
+    },
+    shell: {
+        keywords: ['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case', 'esac', 'in', 'function', 'return', 'export', 'local', 'sudo', 'cd', 'echo', 'source'],
+        literals: ['true', 'false'],
+        lineComments: ['#'],
+        blockComments: false,
+    },
+    go: {
+        keywords: [...C_LIKE, 'func', 'package', 'var', 'type', 'interface', 'map', 'chan', 'go', 'defer', 'select', 'range', 'fallthrough', 'goto'],
+        literals: ['true', 'false', 'nil', 'iota'],
+        lineComments: ['//'],
+        blockComments: true,
+    },
+    rust: {
+        keywords: [...C_LIKE, 'fn', 'let', 'mut', 'impl', 'trait', 'pub', 'use', 'mod', 'crate', 'match', 'loop', 'in', 'as', 'where', 'move', 'ref', 'dyn', 'async', 'await', 'unsafe', 'type'],
+        literals: ['true', 'false', 'self', 'Self', 'None', 'Some', 'Ok', 'Err'],
+        lineComments: ['//'],
+        blockComments: true,
+    },
+    c: {
+        keywords: [...C_LIKE, 'int', 'char', 'float', 'double', 'long', 'short', 'unsigned', 'signed', 'bool', 'auto', 'extern', 'typedef', 'sizeof', 'union', 'goto', 'namespace', 'template', 'typename', 'using', 'virtual', 'override', 'final', 'extends', 'implements', 'interface', 'package', 'boolean', 'var', 'string'],
+        literals: ['true', 'false', 'null', 'nullptr', 'NULL', 'this'],
+        lineComments: ['//'],
+        blockComments: true,
+    },
+    sql: {
+        keywords: ['select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'table', 'drop', 'alter', 'index', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having', 'limit', 'as', 'distinct', 'union', 'primary', 'key', 'foreign', 'references', 'in', 'is', 'like', 'between', 'case', 'when', 'then', 'else', 'end'],
+        literals: ['null', 'true', 'false'],
+        lineComments: ['--'],
+        blockComments: true,
+    },
+    yaml: {
+        keywords: [],
+        literals: ['true', 'false', 'null', 'yes', 'no', 'on', 'off'],
+        lineComments: ['#'],
+        blockComments: false,
+    },
+    json: {
+        keywords: [],
+        literals: ['true', 'false', 'null'],
+        lineComments: [],
+        blockComments: false,
+    },
+}
+
+const ALIASES: Record<string, string> = {
+    js: 'javascript', jsx: 'javascript', ts: 'javascript', tsx: 'javascript', typescript: 'javascript', mjs: 'javascript',
+    py: 'python', python3: 'python',
+    sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', shellscript: 'shell', fish: 'shell', powershell: 'shell', ps1: 'shell',
+    golang: 'go', rs: 'rust',
+    cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c', cs: 'c', csharp: 'c', java: 'c', kotlin: 'c', kt: 'c', swift: 'c', php: 'c',
+    yml: 'yaml', toml: 'yaml', ini: 'yaml',
+    jsonc: 'json', json5: 'json',
+}
+
+/**
+ * Highlights code line by line, carrying block comment state over lines.
+ */
+export class SyntaxHighlighter {
+    private language: Language | null
+    private isDiff: boolean
+    private inBlockComment = false
+
+    constructor (language: string, private theme: SyntaxTheme) {
+        const name = language.toLowerCase()
+        this.isDiff = name === 'diff' || name === 'patch'
+        this.language = LANGUAGES[ALIASES[name] ?? name] ?? null
+    }
+
+    /** Highlight one line (without the line break); `reset` restores the surrounding style */
+    highlight (line: string, reset: string): string {
+        if (this.isDiff) {
+            if (line.startsWith('+') && !line.startsWith('+++')) {
+                return this.paint(line, this.theme.added, reset)
+            }
+            if (line.startsWith('-') && !line.startsWith('---')) {
+                return this.paint(line, this.theme.removed, reset)
+            }
+            return line.startsWith('@@') ? this.paint(line, this.theme.keyword, reset) : this.plain(line)
+        }
+        if (!this.language) {
+            return this.plain(line)
+        }
+
+        const { language } = this
+        let out = ''
+        let i = 0
+        while (i < line.length) {
+            const rest = line.slice(i)
+            const opensComment = language.blockComments && rest.startsWith('/*')
+            if (this.inBlockComment || opensComment) {
+                const end = line.indexOf('*/', opensComment ? i + 2 : i)
+                const stop = end < 0 ? line.length : end + 2
+                out += this.paint(line.slice(i, stop), this.theme.comment, reset)
+                this.inBlockComment = end < 0
+                i = stop
+                continue
+            }
+            if (language.lineComments.some(marker => rest.startsWith(marker)) && (i === 0 || /[\s(;,]/.test(line[i - 1]))) {
+                out += this.paint(rest, this.theme.comment, reset)
+                break
+            }
+
+            const string = /^(["'`])(?:\\.|(?!\1).)*\1?/.exec(rest)
+            if (string) {
+                out += this.paint(string[0], this.theme.string, reset)
+                i += string[0].length
+                continue
+            }
+            const number = /^(?:0x[\da-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b/i.exec(rest)
+            if (number && (i === 0 || !/\w/.test(line[i - 1]))) {
+                out += this.paint(number[0], this.theme.number, reset)
+                i += number[0].length
+                continue
+            }
+            const word = /^[A-Za-z_$][\w$]*/.exec(rest)
+            if (word) {
+                const [text] = word
+                const lower = language === LANGUAGES.sql ? text.toLowerCase() : text
+                if (language.keywords.includes(lower)) {
+                    out += this.paint(text, this.theme.keyword, reset)
+                } else if (language.literals.includes(text)) {
+                    out += this.paint(text, this.theme.literal, reset)
+                } else if (rest[text.length] === '(') {
+                    out += this.paint(text, this.theme.call, reset)
+                } else {
+                    out += this.plain(text)
+                }
+                i += text.length
+                continue
+            }
+
+            out += this.plain(line[i])
+            i++
+        }
+        return out
+    }
+
+    /** Style a token; `style` is its entry in the theme */
+    protected paint (text: string, style: string, reset: string): string {
+        return `\x1b[${style}m${text}${reset}`
+    }
+
+    /** Text outside of tokens */
+    protected plain (text: string): string {
+        return text
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * Splits streamed content into answer text and inline `<think>…</think>`
+ * reasoning segments, as emitted by Ollama/Qwen/DeepSeek-R1 style models
+ * that have no dedicated reasoning field.
+ *
+ * Tags may be split across chunk boundaries, so any trailing text that could
+ * be the beginning of a tag is held back until the next chunk arrives.
+ */
+
+const OPEN_TAG = '<think>'
+const CLOSE_TAG = '</think>'
+
+export interface ThinkSegment {
+    thought: boolean
+    text: string
+}
+
+export class ThinkTagSplitter {
+    private inThought = false
+    private pending = ''
+
+    /** Feed a content chunk, get back the segments that are complete so far */
+    push (chunk: string): ThinkSegment[] {
+        const segments: ThinkSegment[] = []
+        let text = this.pending + chunk
+        this.pending = ''
+
+        while (text) {
+            const tag = this.inThought ? CLOSE_TAG : OPEN_TAG
+            const idx = text.indexOf(tag)
+            if (idx !== -1) {
+                this.emit(segments, text.slice(0, idx))
+                this.inThought = !this.inThought
+                text = text.slice(idx + tag.length)
+                continue
+            }
+
+            const partial = this.partialTagLength(text, tag)
+            this.emit(segments, text.slice(0, text.length - partial))
+            this.pending = text.slice(text.length - partial)
+            break
+        }
+
+        return segments
+    }
+
+    /** Flush held-back text once the stream has ended */
+    flush (): ThinkSegment[] {
+        const segments: ThinkSegment[] = []
+        this.emit(segments, this.pending)
+        this.pending = ''
+        return segments
+    }
+
+    private emit (segments: ThinkSegment[], text: string): void {
+        if (text) {
+            segments.push({ thought: this.inThought, text })
+        }
+    }
+
+    /** Length of the longest suffix of `text` that is a proper prefix of `tag` */
+    private partialTagLength (text: string, tag: string): number {
+        for (let len = Math.min(tag.length - 1, text.length); len > 0; len--) {
+            if (text.endsWith(tag.slice(0, len))) {
+                return len
+            }
+        }
+        return 0
+    }
+}
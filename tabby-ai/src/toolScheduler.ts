@@ -0,0 +1,94 @@
+/**
+ * Parallel execution of the read-only tool calls of a turn. gemini-cli's
+ * CoreToolScheduler (packages/core/src/core/coreToolScheduler.ts) runs
+ * all calls of a turn together once each is approved; here only calls
+ * that change nothing run side by side, so their order can't matter, and
+ * the approvals they need are asked for at once.
+ */
+
+import type { Approval } from './agentLoop'
+import { PermissionRequest } from './permissions'
+
+/** Lets at most `limit` calls run at once, the others wait in order */
+export class ConcurrencyLimit {
+    private active = 0
+    private queue: (() => void)[] = []
+
+    constructor (private limit: number) { }
+
+    async acquire (): Promise<void> {
+        if (this.active < this.limit) {
+            this.active++
+            return
+        }
+        await new Promise<void>(resolve => this.queue.push(resolve))
+    }
+
+    release (): void {
+        const next = this.queue.shift()
+        if (next) {
+            next()
+        } else {
+            this.active--
+        }
+    }
+}
+
+/** One request standing for several, answered together */
+function combineRequests (requests: PermissionRequest[]): PermissionRequest {
+    return {
+        tool: [...new Set(requests.map(r => r.tool))].join(', '),
+        subject: requests.map(r => r.subject).join('\n'),
+        description: `${requests.length} read-only tool calls:\n${requests.map(r => `  ${r.description}`).join('\n')}`,
+        readOnly: requests.every(r => r.readOnly),
+        cwd: requests[0].cwd,
+        batch: requests,
+    }
+}
+
+/**
+ * Collects the approvals the calls of a parallel group ask for. Once
+ * every call of the group waits for the user or has finished, the user
+ * is asked once, and the answer goes to all of them.
+ */
+export class ApprovalBatch {
+    private pending: { request: PermissionRequest, resolve: (approval: Approval) => void }[] = []
+    /** Calls of the group neither waiting for approval nor finished */
+    private running: number
+
+    constructor (
+        count: number,
+        private ask: (request: PermissionRequest) => Promise<Approval>,
+    ) {
+        this.running = count
+    }
+
+    /** Wait for the user's answer on a call of the group */
+    request (request: PermissionRequest): Promise<Approval> {
+        return new Promise(resolve => {
+            this.pending.push({ request, resolve })
+            this.running--
+            this.flush()
+        })
+    }
+
+    /** A call of the group finished */
+    done (): void {
+        this.running--
+        this.flush()
+    }
+
+    private flush (): void {
+        if (this.running > 0 || !this.pending.length) {
+            return
+        }
+        const pending = this.pending.splice(0)
+        this.running += pending.length
+        const requests = pending.map(p => p.request)
+        this.ask(requests.length === 1 ? requests[0] : combineRequests(requests)).then(approval => {
+            for (const { resolve } of pending) {
+                resolve(approval)
+            }
+        })
+    }
+}
@@ -0,0 +1,194 @@
+/**
+ * Tools for the commands run_shell_command started with `background: true`.
+ * gemini-cli only lets the model background commands with `&` and lose
+ * track of them; here the agent keeps a handle to read, wait on, write to
+ * and kill them.
+ */
+
+import { Injectable } from '@angular/core'
+import { ConfigService } from 'tabby-core'
+import { ToolDefinition } from '../ai.service'
+import { AIToolContext, AIToolProvider } from '../api'
+import { AIBackgroundService, BackgroundProcess, ProcessOutput } from '../background.service'
+
+/** Characters of output returned by one read */
+export const MAX_READ = 16000
+
+const PROCESS_ID = {
+    type: 'integer',
+    description: 'Id of the background process, as returned by run_shell_command',
+}
+
+/** Output of a process for the model, with its state */
+export function formatProcessOutput (process: BackgroundProcess, output: ProcessOutput): string {
+    const state = process.status === 'exited' ? `exited with code ${process.exitCode}` : process.status
+    const skipped = output.skipped ? `\n(${output.skipped} earlier characters left out)` : ''
+    return `Process ${process.id} is ${state}.${skipped}\n${output.text.trim() || '(no new output)'}`
+}
+
+/** A process of the agent's tab */
+function getProcess (background: AIBackgroundService, context: AIToolContext, id: number): BackgroundProcess {
+    const process = background.get(context.tab, id)
+    if (!process) {
+        throw new Error(`no background process ${id} in this tab`)
+    }
+    return process
+}
+
+/** A call on a process for the approval; rules match the process's command */
+function describeProcess (background: AIBackgroundService, id: number, action: string): { subject: string, description: string } {
+    const process = background.list().find(p => p.id === id)
+    return {
+        subject: process?.command ?? '',
+        description: `${action} process ${id}${process ? ` (${process.command})` : ''}`,
+    }
+}
+
+@Injectable()
+export class ReadProcessOutputTool extends AIToolProvider {
+    title = 'Read process output'
+    readOnly = true
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'read_process_output',
+            description: 'Read what a background process printed since the last read, and whether it is still running.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    process_id: PROCESS_ID,
+                },
+                required: ['process_id'],
+            },
+        },
+    }
+
+    constructor (private background: AIBackgroundService) { super() }
+
+    describe (args: { process_id: number }): { subject: string, description: string } {
+        return describeProcess(this.background, args.process_id, 'Read output of')
+    }
+
+    async execute (args: { process_id: number }, context: AIToolContext): Promise<string> {
+        const process = getProcess(this.background, context, args.process_id)
+        return formatProcessOutput(process, this.background.readNew(process.id, MAX_READ))
+    }
+}
+
+@Injectable()
+export class WaitForProcessOutputTool extends AIToolProvider {
+    title = 'Wait for process output'
+    readOnly = true
+
+    constructor (
+        private background: AIBackgroundService,
+        private config: ConfigService,
+    ) { super() }
+
+    get definition (): ToolDefinition {
+        return {
+            type: 'function',
+            function: {
+                name: 'wait_for_process_output',
+                description: 'Wait until new output of a background process matches a regular expression — e.g. a server saying it is listening — or the process ends, then return the output since the last read.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        process_id: PROCESS_ID,
+                        pattern: {
+                            type: 'string',
+                            description: 'JavaScript regular expression searched for in the new output',
+                        },
+                        timeout: {
+                            type: 'integer',
+                            description: `Seconds to wait at most, default 30, up to ${this.config.store.ai.maxCommandTimeout}`,
+                        },
+                    },
+                    required: ['process_id', 'pattern'],
+                },
+            },
+        }
+    }
+
+    describe (args: { process_id: number, pattern: string }): { subject: string, description: string } {
+        return describeProcess(this.background, args.process_id, `Wait for /${args.pattern}/ in output of`)
+    }
+
+    async execute (args: { process_id: number, pattern: string, timeout?: number }, context: AIToolContext): Promise<string> {
+        const process = getProcess(this.background, context, args.process_id)
+        const pattern = new RegExp(args.pattern, 'm')
+        const timeout = Math.min(Math.max(args.timeout ?? 30, 1), this.config.store.ai.maxCommandTimeout)
+        const matched = await this.background.waitFor(process.id, pattern, { timeout: timeout * 1000, signal: context.signal })
+        const result = matched ? 'Pattern found.' : process.status === 'running' ? `Pattern not found within ${timeout}s.` : 'Pattern not found.'
+        return `${result}\n${formatProcessOutput(process, this.background.readNew(process.id, MAX_READ))}`
+    }
+}
+
+@Injectable()
+export class WriteProcessInputTool extends AIToolProvider {
+    title = 'Send process input'
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'write_process_input',
+            description: 'Send text to the stdin of a background process. Include "\\n" to end a line.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    process_id: PROCESS_ID,
+                    input: {
+                        type: 'string',
+                        description: 'Text to send',
+                    },
+                },
+                required: ['process_id', 'input'],
+            },
+        },
+    }
+
+    constructor (private background: AIBackgroundService) { super() }
+
+    describe (args: { process_id: number, input: string }): { subject: string, description: string } {
+        return describeProcess(this.background, args.process_id, `Send ${JSON.stringify(args.input)} to`)
+    }
+
+    async execute (args: { process_id: number, input: string }, context: AIToolContext): Promise<string> {
+        const process = getProcess(this.background, context, args.process_id)
+        this.background.write(process.id, args.input)
+        return `Sent ${args.input.length} characters to process ${process.id}.`
+    }
+}
+
+@Injectable()
+export class KillProcessTool extends AIToolProvider {
+    title = 'Kill process'
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'kill_process',
+            description: 'Stop a background process and everything it started.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    process_id: PROCESS_ID,
+                },
+                required: ['process_id'],
+            },
+        },
+    }
+
+    constructor (private background: AIBackgroundService) { super() }
+
+    describe (args: { process_id: number }): { subject: string, description: string } {
+        return describeProcess(this.background, args.process_id, 'Kill')
+    }
+
+    async execute (args: { process_id: number }, context: AIToolContext): Promise<string> {
+        const process = getProcess(this.background, context, args.process_id)
+        if (process.status !== 'running') {
+            return formatProcessOutput(process, this.background.readNew(process.id, MAX_READ))
+        }
+        this.background.kill(process.id)
+        return `Killed process ${process.id}.`
+    }
+}
@@ -0,0 +1,498 @@
+/**
+ * File tools of the agent — gemini-cli's read_file, write_file, replace
+ * and list_directory. Paths are confined to the shell's working directory,
+ * on the machine the terminal is on.
+ */
+
+import { Injectable } from '@angular/core'
+import { ToolDefinition } from '../ai.service'
+import { AIToolContext, AIToolProvider } from '../api'
+import { countChanges, createPatch } from '../diff'
+import { AIFileSystem } from '../fileSystem'
+import { BLOCKED_DOTFILES } from '../permissions'
+
+/**
+ * Returns true when the given *resolved* path should be blocked because it
+ * is a sensitive dotfile/directory or lives inside one.
+ */
+function isSensitivePath (files: AIFileSystem, cwd: string, resolved: string): boolean {
+    const relative = files.path.relative(cwd, resolved)
+    const segments = relative.split(files.path.sep)
+
+    for (const seg of segments) {
+        if (BLOCKED_DOTFILES.has(seg.toLowerCase())) {
+            return true
+        }
+    }
+    return false
+}
+
+function describeChanges (diff: string): string {
+    const { added, removed } = countChanges(diff)
+    return diff ? `+${added} -${removed}` : 'unchanged'
+}
+
+/** An edit of the replace tool */
+interface Replacement {
+    oldString: string
+    newString: string
+    /** Occurrences to replace */
+    expected: number
+}
+
+/**
+ * Replace exactly N occurrences of a string.
+ * Mirrors gemini-cli's exact strategy.
+ */
+function replaceNOccurrences (content: string, { oldString, newString, expected }: Replacement): string {
+    let result = ''
+    let remaining = content
+    let replaced = 0
+
+    while (replaced < expected) {
+        const idx = remaining.indexOf(oldString)
+        if (idx === -1) {
+            break
+        }
+        result += remaining.slice(0, idx) + newString
+        remaining = remaining.slice(idx + oldString.length)
+        replaced++
+    }
+
+    return result + remaining
+}
+
+/**
+ * Flexible replacement — matches line-by-line with trimmed whitespace.
+ * Mirrors gemini-cli's flexible strategy in EditTool.
+ */
+function flexibleReplace (content: string, { oldString, newString, expected }: Replacement): { content: string; count: number } | null {
+    const contentLines = content.split('\n')
+    const oldLines = oldString.split('\n').map(l => l.trim())
+    const newLines = newString.split('\n')
+
+    if (oldLines.length === 0) {
+        return null
+    }
+
+    let count = 0
+    const resultLines: string[] = []
+    let i = 0
+
+    while (i < contentLines.length) {
+        // Try to match oldLines starting at position i
+        let matched = true
+        if (i + oldLines.length > contentLines.length) {
+            resultLines.push(contentLines[i])
+            i++
+            continue
+        }
+
+        for (let j = 0; j < oldLines.length; j++) {
+            if (contentLines[i + j].trim() !== oldLines[j]) {
+                matched = false
+                break
+            }
+        }
+
+        if (matched && count < expected) {
+            // Determine indentation from first matched line
+            const [indent] = /^\s*/.exec(contentLines[i])!
+            for (const nl of newLines) {
+                resultLines.push(nl.trim() ? indent + nl.trimStart() : nl)
+            }
+            i += oldLines.length
+            count++
+        } else {
+            resultLines.push(contentLines[i])
+            i++
+        }
+    }
+
+    if (count === 0) {
+        return null
+    }
+    return { content: resultLines.join('\n'), count }
+}
+
+/**
+ * Mirrors gemini-cli's ReadFileToolInvocation.execute()
+ * Supports offset/limit for paginated reading of large files.
+ *
+ * Security: restricts reads to the current working directory and blocks
+ * known sensitive dotfiles/directories.
+ */
+@Injectable()
+export class ReadFileTool extends AIToolProvider {
+    title = 'Read file'
+    readOnly = true
+    requiresApproval = false
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'read_file',
+            description: 'Read the contents of a file at the specified path. Returns the file content with line numbers. For large files, use offset and limit to read specific sections.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    file_path: {
+                        type: 'string',
+                        description: 'The path to the file to read (absolute or relative to CWD)',
+                    },
+                    offset: {
+                        type: 'integer',
+                        description: 'Optional: The line number to start reading from (1-based). Defaults to 1.',
+                    },
+                    limit: {
+                        type: 'integer',
+                        description: 'Optional: The number of lines to read. Defaults to reading the entire file (up to 2000 lines).',
+                    },
+                },
+                required: ['file_path'],
+            },
+        },
+    }
+
+    async execute (args: { file_path?: string, path?: string, offset?: number, limit?: number }, context: AIToolContext): Promise<string> {
+        const filePath = args.file_path ?? args.path ?? ''
+        const { offset, limit } = args
+        const cwd = await context.getCwd()
+        const resolved = context.files.path.resolve(cwd, filePath)
+
+        // --- Path-traversal guard: resolved path must be inside cwd ---
+        if (!resolved.startsWith(cwd + context.files.path.sep) && resolved !== cwd) {
+            return `Error: Access denied – "${filePath}" resolves to a path outside the working directory.`
+        }
+
+        // --- Block sensitive dotfiles / directories ---
+        if (isSensitivePath(context.files, cwd, resolved)) {
+            return `Error: Access denied – reading sensitive dotfiles is not allowed ("${filePath}").`
+        }
+
+        // --- Permission (same flow as shell commands) ---
+        const refusal = await context.requestPermission({
+            tool: 'read_file',
+            subject: resolved,
+            description: `Read file: ${filePath}`,
+            readOnly: true,
+            cwd,
+        }, 'User declined to read this file.')
+        if (refusal) {
+            return refusal
+        }
+
+        try {
+            const data = await context.files.readFile(resolved)
+            if (!data) {
+                return `Error reading file: ${filePath} does not exist`
+            }
+            const content = data.toString('utf-8')
+            const lines = content.split('\n')
+            const totalLines = lines.length
+
+            // Apply offset/limit (1-based offset)
+            const startLine = Math.max(1, offset ?? 1)
+            const maxLines = limit ? limit : 2000
+            const selectedLines = lines.slice(startLine - 1, startLine - 1 + maxLines)
+
+            // Format with line numbers (like gemini-cli's read_file)
+            const numbered = selectedLines.map((line, i) =>
+                `${String(startLine + i).padStart(6)} | ${line}`,
+            ).join('\n')
+
+            let result = numbered
+            if (startLine + selectedLines.length - 1 < totalLines) {
+                result += `\n\n... (${totalLines} total lines, showing ${startLine}-${startLine + selectedLines.length - 1})`
+            }
+
+            return result
+        } catch (err: any) {
+            return `Error reading file: ${err.message}`
+        }
+    }
+}
+
+/**
+ * Mirrors gemini-cli's WriteFileTool.execute()
+ * Creates parent directories if needed.
+ * Requires user confirmation.
+ */
+@Injectable()
+export class WriteFileTool extends AIToolProvider {
+    title = 'Write file'
+    requiresApproval = false
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'write_file',
+            description: 'Writes content to a specified file. Creates the file and parent directories if they do not exist. Overwrites existing content.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    file_path: {
+                        type: 'string',
+                        description: 'The path to the file to write to (absolute or relative to CWD)',
+                    },
+                    content: {
+                        type: 'string',
+                        description: 'The content to write to the file',
+                    },
+                },
+                required: ['file_path', 'content'],
+            },
+        },
+    }
+
+    async execute (args: { file_path: string, content: string }, context: AIToolContext): Promise<string> {
+        const { file_path: filePath, content } = args
+        const cwd = await context.getCwd()
+        const resolved = context.files.path.resolve(cwd, filePath)
+
+        // --- Path-traversal guard ---
+        if (!resolved.startsWith(cwd + context.files.path.sep) && resolved !== cwd) {
+            return `Error: Access denied – "${filePath}" resolves to a path outside the working directory.`
+        }
+
+        // --- Block sensitive dotfiles ---
+        if (isSensitivePath(context.files, cwd, resolved)) {
+            return `Error: Access denied – writing to sensitive dotfiles is not allowed ("${filePath}").`
+        }
+
+        // --- Permission, previewing the new content ---
+        let previous: Buffer | null = null
+        try {
+            previous = await context.files.readFile(resolved)
+        } catch (err: any) {
+            return `Error reading file: ${err.message}`
+        }
+        const before = previous?.toString('utf-8') ?? null
+        const diff = createPatch(filePath, before, content)
+        const refusal = await context.requestPermission({
+            tool: 'write_file',
+            subject: resolved,
+            description: `Write file: ${filePath} (${before === null ? 'new file' : describeChanges(diff)})`,
+            readOnly: false,
+            cwd,
+            diff,
+        }, 'User declined to write this file.')
+        if (refusal) {
+            return refusal
+        }
+
+        try {
+            await context.snapshotFile(resolved, previous)
+        } catch (err: any) {
+            return `Error: could not save a checkpoint of ${filePath}, the file was not written: ${err.message}`
+        }
+
+        try {
+            // Creates parent directories if needed
+            await context.files.writeFile(resolved, Buffer.from(content, 'utf-8'))
+            const lineCount = content.split('\n').length
+            return `Successfully wrote ${lineCount} lines to ${filePath}`
+        } catch (err: any) {
+            return `Error writing file: ${err.message}`
+        }
+    }
+}
+
+/**
+ * Mirrors gemini-cli's EditTool.execute() — replace old_string with new_string.
+ * Uses exact string matching.
+ * Requires user confirmation.
+ */
+@Injectable()
+export class ReplaceTool extends AIToolProvider {
+    title = 'Edit file'
+    requiresApproval = false
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'replace',
+            description: 'Replaces text within a file. By default, replaces a single occurrence, but can replace multiple when expected_replacements is specified. Always use read_file first to examine the file before editing. The old_string must uniquely identify the text to change — include enough surrounding context (at least 3 lines before and after) to ensure a unique match.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    file_path: {
+                        type: 'string',
+                        description: 'The path to the file to modify (absolute or relative to CWD)',
+                    },
+                    old_string: {
+                        type: 'string',
+                        description: 'The exact literal text to replace. Must match the file content precisely, including whitespace and indentation.',
+                    },
+                    new_string: {
+                        type: 'string',
+                        description: 'The exact literal text to replace old_string with.',
+                    },
+                    expected_replacements: {
+                        type: 'integer',
+                        description: 'Optional: Number of replacements expected. Defaults to 1.',
+                        minimum: 1,
+                    },
+                },
+                required: ['file_path', 'old_string', 'new_string'],
+            },
+        },
+    }
+
+    async execute (args: { file_path: string, old_string: string, new_string: string, expected_replacements?: number }, context: AIToolContext): Promise<string> {
+        const { file_path: filePath, old_string: oldString, new_string: newString, expected_replacements: expectedReplacements } = args
+        const cwd = await context.getCwd()
+        const resolved = context.files.path.resolve(cwd, filePath)
+
+        // --- Path-traversal guard ---
+        if (!resolved.startsWith(cwd + context.files.path.sep) && resolved !== cwd) {
+            return `Error: Access denied – "${filePath}" resolves to a path outside the working directory.`
+        }
+
+        // --- Block sensitive dotfiles ---
+        if (isSensitivePath(context.files, cwd, resolved)) {
+            return `Error: Access denied – editing sensitive dotfiles is not allowed ("${filePath}").`
+        }
+
+        // --- Read current content ---
+        let data: Buffer | null = null
+        try {
+            data = await context.files.readFile(resolved)
+        } catch (err: any) {
+            return `Error reading file: ${err.message}`
+        }
+        if (!data) {
+            return `Error reading file: ${filePath} does not exist`
+        }
+        let content = data.toString('utf-8')
+        const original = content
+
+        // --- Count occurrences ---
+        const expected = expectedReplacements ? expectedReplacements : 1
+        const replacement: Replacement = { oldString, newString, expected }
+        let count = 0
+        let searchFrom = 0
+        while (true) {
+            const idx = content.indexOf(oldString, searchFrom)
+            if (idx === -1) {
+                break
+            }
+            count++
+            searchFrom = idx + oldString.length
+        }
+
+        if (count === 0) {
+            // Fallback: try flexible matching (trimmed lines)
+            const result = flexibleReplace(content, replacement)
+            if (result) {
+                ({ content, count } = result)
+            } else {
+                return `Error: old_string not found in ${filePath}. Use read_file to examine the current content first.`
+            }
+        } else {
+            if (count !== expected) {
+                return `Error: Expected ${expected} occurrence(s) of old_string, but found ${count}. Provide more context to make the match unique, or set expected_replacements=${count}.`
+            }
+
+            // --- Perform replacement ---
+            content = replaceNOccurrences(content, replacement)
+        }
+
+        // --- Permission, previewing the change ---
+        const refusal = await context.requestPermission({
+            tool: 'replace',
+            subject: resolved,
+            description: `Edit file: ${filePath} (${count} replacement${count > 1 ? 's' : ''})`,
+            readOnly: false,
+            cwd,
+            diff: createPatch(filePath, original, content),
+        }, 'User declined to edit this file.')
+        if (refusal) {
+            return refusal
+        }
+
+        try {
+            await context.snapshotFile(resolved, data)
+        } catch (err: any) {
+            return `Error: could not save a checkpoint of ${filePath}, the file was not edited: ${err.message}`
+        }
+
+        try {
+            await context.files.writeFile(resolved, Buffer.from(content, 'utf-8'))
+            return `Successfully replaced ${count} occurrence(s) in ${filePath}`
+        } catch (err: any) {
+            return `Error writing file: ${err.message}`
+        }
+    }
+}
+
+/**
+ * Mirrors gemini-cli's LSTool.execute()
+ * Read-only — approved without asking unless rules say otherwise.
+ */
+@Injectable()
+export class ListDirectoryTool extends AIToolProvider {
+    title = 'List directory'
+    readOnly = true
+    requiresApproval = false
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'list_directory',
+            description: 'Lists the names of files and subdirectories directly within a specified directory path.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    dir_path: {
+                        type: 'string',
+                        description: 'The path to the directory to list (absolute or relative to CWD)',
+                    },
+                },
+                required: ['dir_path'],
+            },
+        },
+    }
+
+    async execute (args: { dir_path: string }, context: AIToolContext): Promise<string> {
+        const { dir_path: dirPath } = args
+        const cwd = await context.getCwd()
+        const resolved = context.files.path.resolve(cwd, dirPath)
+
+        // --- Path-traversal guard ---
+        if (!resolved.startsWith(cwd + context.files.path.sep) && resolved !== cwd) {
+            return `Error: Access denied – "${dirPath}" resolves to a path outside the working directory.`
+        }
+
+        const refusal = await context.requestPermission({
+            tool: 'list_directory',
+            subject: resolved,
+            description: `List directory: ${dirPath}`,
+            readOnly: true,
+            cwd,
+        }, 'User declined to list this directory.')
+        if (refusal) {
+            return refusal
+        }
+
+        try {
+            const entries = await context.files.readdir(resolved)
+
+            // Sort: directories first, then alphabetically
+            entries.sort((a, b) => {
+                if (a.isDirectory !== b.isDirectory) {
+                    return a.isDirectory ? -1 : 1
+                }
+                return a.name.localeCompare(b.name)
+            })
+
+            const lines = entries.map(e =>
+                e.isDirectory ? `${e.name}/` : e.name,
+            )
+
+            if (lines.length === 0) {
+                return `(empty directory: ${dirPath})`
+            }
+
+            return lines.join('\n')
+        } catch (err: any) {
+            return `Error listing directory: ${err.message}`
+        }
+    }
+}
@@ -0,0 +1,169 @@
+/**
+ * Search tools of the agent — gemini-cli's glob and grep_search, run as
+ * commands on the machine the terminal is on.
+ */
+
+import { Injectable } from '@angular/core'
+import { ToolDefinition } from '../ai.service'
+import { AIToolContext, AIToolProvider } from '../api'
+
+/**
+ * Mirrors gemini-cli's GlobTool.execute()
+ * Uses shell command for cross-platform glob support.
+ * Read-only — approved without asking unless rules say otherwise.
+ */
+@Injectable()
+export class GlobTool extends AIToolProvider {
+    title = 'Find files'
+    readOnly = true
+    requiresApproval = false
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'glob',
+            description: 'Finds files matching a glob pattern (e.g., "src/**/*.ts", "**/*.md"), returning paths sorted by modification time (newest first). Ideal for locating files by name or path structure.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    pattern: {
+                        type: 'string',
+                        description: 'The glob pattern to match against (e.g., "**/*.py", "docs/*.md")',
+                    },
+                    dir_path: {
+                        type: 'string',
+                        description: 'Optional: The directory to search within (absolute or relative to CWD). Defaults to CWD.',
+                    },
+                },
+                required: ['pattern'],
+            },
+        },
+    }
+
+    async execute (args: { pattern: string, dir_path?: string }, context: AIToolContext): Promise<string> {
+        const { pattern, dir_path: dirPath } = args
+        const cwd = await context.getCwd()
+        const searchDir = dirPath ? context.files.path.resolve(cwd, dirPath) : cwd
+
+        // --- Path-traversal guard ---
+        if (!searchDir.startsWith(cwd + context.files.path.sep) && searchDir !== cwd) {
+            return `Error: Access denied – "${dirPath}" resolves to a path outside the working directory.`
+        }
+
+        const refusal = await context.requestPermission({
+            tool: 'glob',
+            subject: searchDir,
+            description: `Find files: ${pattern}`,
+            readOnly: true,
+            cwd,
+        }, 'User declined this file search.')
+        if (refusal) {
+            return refusal
+        }
+
+        try {
+            // Use git ls-files + shell glob for .gitignore respect, fall back to find
+            const isGit = await context.files.exists(context.files.path.join(cwd, '.git'))
+
+            // git ls-files respects .gitignore automatically; else find (Unix) or dir (Windows)
+            const isWindows = context.files.path.sep === '\\'
+            const command = isGit
+                ? `git ls-files --cached --others --exclude-standard "${pattern}" | head -200`
+                : isWindows
+                    ? `dir /s /b "${pattern}" 2>NUL | head -200`
+                    : `find . -name "${pattern}" -not -path "./.git/*" | head -200`
+
+            const result = await context.files.exec(command, searchDir, { signal: context.signal })
+            const output = result.stdout.trim()
+
+            if (!output) {
+                return `No files found matching pattern: ${pattern}`
+            }
+
+            return output
+        } catch (err: any) {
+            return `Error searching files: ${err.message}`
+        }
+    }
+}
+
+/**
+ * Mirrors gemini-cli's GrepTool.execute()
+ * Uses git grep (preferred) or grep as fallback.
+ * Read-only — approved without asking unless rules say otherwise.
+ */
+@Injectable()
+export class GrepSearchTool extends AIToolProvider {
+    title = 'Search files'
+    readOnly = true
+    requiresApproval = false
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'grep_search',
+            description: 'Searches for a regular expression pattern within file contents. Returns matching lines with file paths and line numbers. Max 100 matches.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    pattern: {
+                        type: 'string',
+                        description: 'The regular expression pattern to search for within file contents',
+                    },
+                    dir_path: {
+                        type: 'string',
+                        description: 'Optional: The directory to search within (absolute or relative to CWD). Defaults to CWD.',
+                    },
+                    include: {
+                        type: 'string',
+                        description: 'Optional: A glob pattern to filter which files are searched (e.g., "*.js", "*.{ts,tsx}")',
+                    },
+                },
+                required: ['pattern'],
+            },
+        },
+    }
+
+    async execute (args: { pattern: string, dir_path?: string, include?: string }, context: AIToolContext): Promise<string> {
+        const { pattern, dir_path: dirPath, include } = args
+        const cwd = await context.getCwd()
+        const searchDir = dirPath ? context.files.path.resolve(cwd, dirPath) : cwd
+
+        // --- Path-traversal guard ---
+        if (!searchDir.startsWith(cwd + context.files.path.sep) && searchDir !== cwd) {
+            return `Error: Access denied – "${dirPath}" resolves to a path outside the working directory.`
+        }
+
+        const refusal = await context.requestPermission({
+            tool: 'grep_search',
+            subject: searchDir,
+            description: `Search files: ${pattern}`,
+            readOnly: true,
+            cwd,
+        }, 'User declined this search.')
+        if (refusal) {
+            return refusal
+        }
+
+        try {
+            const isGit = await context.files.exists(context.files.path.join(cwd, '.git'))
+            const maxMatches = 100
+
+            // git grep: fastest, respects .gitignore; else grep -r
+            const quoted = `"${pattern.replace(/"/g, '\\"')}"`
+            const includeArg = !include ? '' : isGit ? ` -- "${include}"` : ` --include="${include}"`
+            const command = isGit
+                ? `git grep --untracked -n -E --ignore-case -m ${maxMatches} ${quoted}${includeArg}`
+                : `grep -r -n -H -E -i${includeArg} ${quoted} . | head -${maxMatches}`
+
+            const result = await context.files.exec(command, searchDir, { signal: context.signal, timeout: 10000 })
+            const output = result.stdout.trim()
+
+            if (!output) {
+                return `No matches found for pattern: ${pattern}`
+            }
+
+            return output
+        } catch (err: any) {
+            return `Error searching: ${err.message}`
+        }
+    }
+}
@@ -0,0 +1,98 @@
+import { Injectable } from '@angular/core'
+import { ConfigService } from 'tabby-core'
+import { ToolDefinition } from '../ai.service'
+import { AIToolContext, AIToolProvider } from '../api'
+import { AIBackgroundService } from '../background.service'
+import { isReadOnlyCommand, SHELL_TOOL } from '../permissions'
+import { formatProcessOutput, MAX_READ } from './background'
+
+/** Seconds a command runs when the model asks for no timeout */
+const DEFAULT_TIMEOUT = 30
+
+/** Milliseconds to wait for the first output of a background command, to catch early failures */
+const BACKGROUND_START_WAIT = 1000
+
+/**
+ * run_shell_command — mirrors gemini-cli's ShellToolInvocation.execute()
+ * + resolveConfirmation() for human-in-the-loop approval
+ */
+@Injectable()
+export class ShellTool extends AIToolProvider {
+    title = 'Shell command'
+    requiresApproval = false
+
+    constructor (
+        private background: AIBackgroundService,
+        private config: ConfigService,
+    ) { super() }
+
+    get definition (): ToolDefinition {
+        return {
+            type: 'function',
+            function: {
+                name: SHELL_TOOL,
+                description: 'Execute a shell command and return its output. Use this for any system operations, checking status, installing packages, running builds, etc.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        command: {
+                            type: 'string',
+                            description: 'The shell command to execute',
+                        },
+                        timeout: {
+                            type: 'integer',
+                            description: `Seconds the command may run before it is stopped, default ${DEFAULT_TIMEOUT}, up to ${this.config.store.ai.maxCommandTimeout}`,
+                        },
+                        background: {
+                            type: 'boolean',
+                            description: 'Start the command in the background and return its process id right away — for dev servers, watchers, log tails and other commands that keep running. Use read_process_output, wait_for_process_output, write_process_input and kill_process with the id.',
+                        },
+                    },
+                    required: ['command'],
+                },
+            },
+        }
+    }
+
+    async execute (args: { command: string, timeout?: number, background?: boolean }, context: AIToolContext): Promise<string> {
+        const { command } = args
+        const cwd = await context.getCwd()
+
+        // 1. Request user approval (resolveConfirmation)
+        const refusal = await context.requestPermission({
+            tool: SHELL_TOOL,
+            subject: command,
+            description: args.background ? `${command}  (in the background)` : command,
+            readOnly: isReadOnlyCommand(command),
+            cwd,
+        }, 'User declined to run this command.')
+        if (refusal) {
+            return refusal
+        }
+
+        if (args.background) {
+            return this.startInBackground(command, cwd, context)
+        }
+
+        // 2. Execute (ShellExecutionService.execute)
+        const timeout = Math.min(Math.max(args.timeout ?? DEFAULT_TIMEOUT, 1), this.config.store.ai.maxCommandTimeout)
+        const result = await context.runCommand(command, cwd, timeout * 1000)
+
+        // 3. Format result (ShellToolInvocation result formatting)
+        const output = (result.stdout + result.stderr).trim()
+        if (result.timedOut) {
+            return `Command timed out after ${timeout}s.\nPartial output:\n${output}`
+        }
+        if (result.exitCode !== 0) {
+            return `Command exited with code ${result.exitCode}\n${output}`
+        }
+        return output || '(no output)'
+    }
+
+    private async startInBackground (command: string, cwd: string, context: AIToolContext): Promise<string> {
+        const started = await this.background.start(command, cwd, context)
+        await this.background.waitFor(started.id, null, { timeout: BACKGROUND_START_WAIT, signal: context.signal })
+        const output = formatProcessOutput(started, this.background.readNew(started.id, MAX_READ))
+        return `Started background process ${started.id}.\n${output}`
+    }
+}
@@ -0,0 +1,209 @@
+/**
+ * Tools that read the tab's terminal itself: what is on screen — also
+ * inside full-screen programs like htop or vim — and the whole scrollback,
+ * beyond the few lines ContextCollector keeps. gemini-cli has no terminal
+ * of its own to look at.
+ */
+
+import { Injectable } from '@angular/core'
+import { BaseTerminalTabComponent, XTermFrontend } from 'tabby-terminal'
+import { ToolDefinition } from '../ai.service'
+import { AIToolContext, AIToolProvider } from '../api'
+
+/** The parts of an xterm.js buffer read here */
+interface TerminalBuffer {
+    length: number
+    getLine: (row: number) => { isWrapped: boolean, translateToString: (trimRight?: boolean) => string } | undefined
+}
+
+/** Lines read_scrollback_range returns at most */
+const MAX_RANGE_LINES = 500
+
+/** Matches search_scrollback returns unless asked for fewer */
+const MAX_MATCHES = 100
+
+/** A line of the buffer, with the rows it wrapped onto joined to it */
+interface BufferLine {
+    /** 1-based row the line starts at */
+    row: number
+    text: string
+}
+
+function getTerminal (context: AIToolContext): XTermFrontend['xterm'] {
+    const { frontend } = context.tab
+    if (!(frontend instanceof XTermFrontend)) {
+        throw new Error('the terminal is not ready')
+    }
+    return frontend.xterm
+}
+
+/** Lines starting at rows `from` to `to` (0-based, exclusive); a line wrapped past `to` is read to its end */
+function readLines (buffer: TerminalBuffer, from: number, to: number): BufferLine[] {
+    const lines: BufferLine[] = []
+    let row = Math.max(0, from)
+    // Start at the beginning of the line a wrapped row continues
+    while (row > 0 && buffer.getLine(row)?.isWrapped) {
+        row--
+    }
+    for (; row < buffer.length && (row < to || buffer.getLine(row)?.isWrapped); row++) {
+        const line = buffer.getLine(row)!
+        // Trailing blanks only end a line where it does not wrap on
+        const text = line.translateToString(!buffer.getLine(row + 1)?.isWrapped)
+        if (line.isWrapped && lines.length) {
+            lines[lines.length - 1].text += text
+        } else {
+            lines.push({ row: row + 1, text })
+        }
+    }
+    return lines
+}
+
+function formatLines (lines: BufferLine[]): string {
+    return lines.map(line => `${line.row}: ${line.text}`).join('\n')
+}
+
+/** Only offered in tabs rendered by xterm.js, whose buffer can be read */
+function hasBuffer (tab: BaseTerminalTabComponent<any>): boolean {
+    return !tab.frontend || tab.frontend instanceof XTermFrontend
+}
+
+/** read_terminal_screen — the rows the terminal shows right now */
+@Injectable()
+export class ReadTerminalScreenTool extends AIToolProvider {
+    title = 'Read terminal screen'
+    readOnly = true
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'read_terminal_screen',
+            description: 'Read what the terminal shows right now, as rendered — including full-screen programs like htop, vim or less, whose output is not in the context. Tells where the cursor is.',
+            parameters: {
+                type: 'object',
+                properties: {},
+            },
+        },
+    }
+
+    isAvailable (tab: BaseTerminalTabComponent<any>): boolean {
+        return hasBuffer(tab)
+    }
+
+    describe (): { subject: string, description: string } {
+        return { subject: '', description: 'Read the terminal screen' }
+    }
+
+    async execute (args: unknown, context: AIToolContext): Promise<string> {
+        const { rows, buffer: { active, normal } } = getTerminal(context)
+        // The rows as shown, wrapped lines not joined
+        const shown: string[] = []
+        for (let row = active.viewportY; row < active.viewportY + rows; row++) {
+            shown.push(active.getLine(row)?.translateToString(true) ?? '')
+        }
+        const screen = shown.join('\n').replace(/\n+$/, '')
+        const mode = active === normal ? '' : ' A full-screen program is running (alternate screen).'
+        const scrolled = active.viewportY < active.baseY ? ` The view is scrolled ${active.baseY - active.viewportY} lines up from the bottom.` : ''
+        return `Cursor at row ${active.cursorY + 1}, column ${active.cursorX + 1}.${mode}${scrolled}\n${screen || '(empty screen)'}`
+    }
+}
+
+/** search_scrollback — grep over everything the terminal still holds */
+@Injectable()
+export class SearchScrollbackTool extends AIToolProvider {
+    title = 'Search scrollback'
+    readOnly = true
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'search_scrollback',
+            description: `Search the terminal's whole scrollback with a regular expression, for output that scrolled out of the context long ago — errors, stack traces, earlier command results. Returns matching lines with their line numbers, for read_scrollback_range. Max ${MAX_MATCHES} matches, the latest ones.`,
+            parameters: {
+                type: 'object',
+                properties: {
+                    pattern: {
+                        type: 'string',
+                        description: 'JavaScript regular expression, matched case-insensitively unless case_sensitive is set',
+                    },
+                    case_sensitive: {
+                        type: 'boolean',
+                        description: 'Optional: Match case exactly',
+                    },
+                    max_matches: {
+                        type: 'integer',
+                        description: `Optional: Return at most this many matches, up to ${MAX_MATCHES}`,
+                    },
+                },
+                required: ['pattern'],
+            },
+        },
+    }
+
+    isAvailable (tab: BaseTerminalTabComponent<any>): boolean {
+        return hasBuffer(tab)
+    }
+
+    describe (args: { pattern: string }): { subject: string, description: string } {
+        return { subject: args.pattern, description: `Search the terminal scrollback: ${args.pattern}` }
+    }
+
+    async execute (args: { pattern: string, case_sensitive?: boolean, max_matches?: number }, context: AIToolContext): Promise<string> {
+        // Full-screen programs keep the scrollback in the normal buffer
+        const { normal } = getTerminal(context).buffer
+        const pattern = new RegExp(args.pattern, args.case_sensitive ? '' : 'i')
+        const limit = Math.min(Math.max(args.max_matches ?? MAX_MATCHES, 1), MAX_MATCHES)
+
+        const matches = readLines(normal, 0, normal.length).filter(line => pattern.test(line.text))
+        if (!matches.length) {
+            return `No matches for /${args.pattern}/ in ${normal.length} lines of scrollback.`
+        }
+        const shown = matches.slice(-limit)
+        const more = matches.length > shown.length ? ` (the last ${shown.length} shown)` : ''
+        return `${matches.length} match${matches.length > 1 ? 'es' : ''} in ${normal.length} lines${more}:\n${formatLines(shown)}`
+    }
+}
+
+/** read_scrollback_range — lines of the scrollback by number */
+@Injectable()
+export class ReadScrollbackRangeTool extends AIToolProvider {
+    title = 'Read scrollback'
+    readOnly = true
+    definition: ToolDefinition = {
+        type: 'function',
+        function: {
+            name: 'read_scrollback_range',
+            description: `Read lines of the terminal's scrollback by line number, as search_scrollback reports them — e.g. the lines around a match. Line 1 is the oldest line the terminal still holds. Max ${MAX_RANGE_LINES} lines.`,
+            parameters: {
+                type: 'object',
+                properties: {
+                    start_line: {
+                        type: 'integer',
+                        description: 'First line to read, 1-based',
+                    },
+                    end_line: {
+                        type: 'integer',
+                        description: 'Optional: Last line to read. Defaults to 100 lines after start_line.',
+                    },
+                },
+                required: ['start_line'],
+            },
+        },
+    }
+
+    isAvailable (tab: BaseTerminalTabComponent<any>): boolean {
+        return hasBuffer(tab)
+    }
+
+    describe (args: { start_line: number, end_line?: number }): { subject: string, description: string } {
+        const range = `${args.start_line}-${args.end_line ?? ''}`
+        return { subject: range, description: `Read terminal scrollback lines ${range}` }
+    }
+
+    async execute (args: { start_line: number, end_line?: number }, context: AIToolContext): Promise<string> {
+        const { normal } = getTerminal(context).buffer
+        const start = Math.max(args.start_line, 1)
+        const end = Math.min(args.end_line ?? start + 99, start + MAX_RANGE_LINES - 1, normal.length)
+        if (start > normal.length) {
+            return `Error: The scrollback has only ${normal.length} lines.`
+        }
+        return `Lines ${start}-${end} of ${normal.length}:\n${formatLines(readLines(normal, start - 1, end))}`
+    }
+}
@@ -0,0 +1,108 @@
+import * as assert from 'assert/strict'
+import { describe, it } from 'node:test'
+import type { ChatMessage } from '../src/ai.service'
+import { ContextWindow, DEFAULT_CONTEXT_WINDOW, getModelContextWindow } from '../src/contextWindow'
+
+/** 4 characters per token, so a message of `tokens` costs tokens + 4 */
+function text (tokens: number): string {
+    return 'x'.repeat(tokens * 4)
+}
+
+function call (id: string): any {
+    return { id, type: 'function', function: { name: 'read_file', arguments: '{}' } }
+}
+
+const system: ChatMessage = { role: 'system', content: 'system' }
+
+describe('getModelContextWindow', () => {
+    it('matches the longest model name prefix', () => {
+        assert.equal(getModelContextWindow('gpt-4o-mini'), 128_000)
+        assert.equal(getModelContextWindow('gpt-4-0613'), 8_192)
+        assert.equal(getModelContextWindow('models/gemini-2.0-flash'), 1_000_000)
+        assert.equal(getModelContextWindow('some-local-model'), DEFAULT_CONTEXT_WINDOW)
+    })
+})
+
+describe('ContextWindow', () => {
+    it('estimates tokens by model family, non-Latin characters as one each', () => {
+        assert.equal(new ContextWindow('gpt-4o', 1000, 100).estimateTokens('abcdefgh'), 2)
+        assert.equal(new ContextWindow('claude-sonnet', 1000, 100).estimateTokens('abcdefg'), 2)
+        assert.equal(new ContextWindow('gpt-4o', 1000, 100).estimateTokens('日本語'), 3)
+    })
+
+    it('truncates long tool results in the middle', () => {
+        const window = new ContextWindow('gpt-4o', 1000, 10)
+        const result = window.truncateToolResult(`HEAD${text(100)}TAIL`)
+        assert.ok(result.startsWith('HEAD'))
+        assert.ok(result.endsWith('TAIL'))
+        assert.match(result, /characters truncated/)
+        assert.equal(window.truncateToolResult('short'), 'short')
+    })
+
+    describe('fit', () => {
+        const window = new ContextWindow('gpt-4o', 100, 100)
+
+        it('returns messages that fit unchanged', () => {
+            const messages: ChatMessage[] = [system, { role: 'user', content: 'hi' }]
+            assert.equal(window.fit(messages), messages)
+        })
+
+        it('drops the oldest exchanges first and keeps system messages', () => {
+            const messages: ChatMessage[] = [
+                system,
+                { role: 'user', content: text(30) },
+                { role: 'assistant', content: text(30) },
+                { role: 'user', content: text(20) },
+                { role: 'assistant', content: text(20) },
+            ]
+            assert.deepEqual(window.fit(messages), [system, ...messages.slice(3)])
+        })
+
+        it('counts reserved tokens against the window', () => {
+            const messages: ChatMessage[] = [
+                system,
+                { role: 'user', content: text(10) },
+                { role: 'user', content: text(10) },
+            ]
+            assert.equal(window.fit(messages, 50).length, 3)
+            assert.deepEqual(window.fit(messages, 80), [system, messages[2]])
+        })
+
+        it('trims the tool rounds of an oversized last exchange without splitting calls from results', () => {
+            const messages: ChatMessage[] = [
+                system,
+                { role: 'user', content: 'question' },
+                { role: 'assistant', content: null, tool_calls: [call('a')] },
+                { role: 'tool', content: text(60), tool_call_id: 'a' },
+                { role: 'assistant', content: null, tool_calls: [call('b'), call('c')] },
+                { role: 'tool', content: text(10), tool_call_id: 'b' },
+                { role: 'tool', content: text(10), tool_call_id: 'c' },
+            ]
+            assert.deepEqual(window.fit(messages), [system, messages[1], ...messages.slice(4)])
+        })
+
+        it('never starts with tool results', () => {
+            const messages: ChatMessage[] = [
+                { role: 'tool', content: text(60), tool_call_id: 'a' },
+                { role: 'user', content: text(60) },
+            ]
+            assert.deepEqual(window.fit(messages), [messages[1]])
+        })
+
+        it('drops tool calls that got no result', () => {
+            const messages: ChatMessage[] = [
+                { role: 'user', content: 'question' },
+                { role: 'assistant', content: null, tool_calls: [call('a'), call('b')] },
+                { role: 'tool', content: 'result', tool_call_id: 'a' },
+                { role: 'assistant', content: 'Let me look.', tool_calls: [call('c')] },
+                { role: 'assistant', content: null, tool_calls: [call('d')] },
+            ]
+            assert.deepEqual(window.fit(messages), [
+                messages[0],
+                { role: 'assistant', content: null, tool_calls: [call('a')] },
+                messages[2],
+                { role: 'assistant', content: 'Let me look.' },
+            ])
+        })
+    })
+})
@@ -0,0 +1,72 @@
+import * as assert from 'assert/strict'
+import { describe, it } from 'node:test'
+import { countChanges, createPatch } from '../src/diff'
+
+function lines (...items: (string | number)[]): string {
+    return items.map(item => `${item}\n`).join('')
+}
+
+describe('createPatch', () => {
+    it('is empty when nothing changes', () => {
+        assert.equal(createPatch('a.txt', lines(1, 2), lines(1, 2)), '')
+        assert.equal(createPatch('a.txt', 'x\r\ny\r\n', lines('x', 'y')), '')
+    })
+
+    it('diffs a new file against /dev/null', () => {
+        assert.equal(createPatch('new.txt', null, lines('a', 'b')), [
+            '--- /dev/null',
+            '+++ b/new.txt',
+            '@@ -0,0 +1,2 @@',
+            '+a',
+            '+b',
+        ].join('\n'))
+    })
+
+    it('numbers an emptied file by the line before it', () => {
+        assert.equal(createPatch('a.txt', lines('a'), ''), [
+            '--- a/a.txt',
+            '+++ b/a.txt',
+            '@@ -1,1 +0,0 @@',
+            '-a',
+        ].join('\n'))
+    })
+
+    it('shows three lines of context, removals before additions', () => {
+        const before = lines(1, 2, 3, 4, 5, 6, 7, 8, 9)
+        const after = lines(1, 2, 3, 4, 'five', 6, 7, 8, 9)
+        assert.equal(createPatch('n.txt', before, after), [
+            '--- a/n.txt',
+            '+++ b/n.txt',
+            '@@ -2,7 +2,7 @@',
+            ' 2',
+            ' 3',
+            ' 4',
+            '-5',
+            '+five',
+            ' 6',
+            ' 7',
+            ' 8',
+        ].join('\n'))
+    })
+
+    it('keeps lines common to both versions', () => {
+        const patch = createPatch('x', lines('a', 'b', 'c', 'd'), lines('b', 'x', 'd', 'e'))
+        assert.deepEqual(patch.split('\n').slice(3), ['-a', ' b', '-c', '+x', ' d', '+e'])
+    })
+
+    it('merges changes that share context into one hunk and splits distant ones', () => {
+        const numbers = Array.from({ length: 30 }, (_, i) => i + 1)
+        const change = (changed: number[]) => lines(...numbers.map(n => changed.includes(n) ? `${n}!` : n))
+        const hunks = (patch: string) => patch.split('\n').filter(line => line.startsWith('@@'))
+
+        assert.deepEqual(hunks(createPatch('x', change([]), change([5, 11]))), ['@@ -2,13 +2,13 @@'])
+        assert.deepEqual(hunks(createPatch('x', change([]), change([5, 20]))), ['@@ -2,7 +2,7 @@', '@@ -17,7 +17,7 @@'])
+    })
+})
+
+describe('countChanges', () => {
+    it('counts added and removed lines, not the file headers', () => {
+        const patch = createPatch('x', lines('a', 'b', 'c'), lines('a', 'B', 'C', 'd'))
+        assert.deepEqual(countChanges(patch), { added: 3, removed: 2 })
+    })
+})
@@ -0,0 +1,108 @@
+import * as assert from 'assert/strict'
+import { describe, it } from 'node:test'
+import { MarkdownRenderer } from '../src/markdown'
+
+// eslint-disable-next-line no-control-regex
+const SGR = /\x1b\[[\d;]*m/g
+
+function plain (output: string): string {
+    return output.replace(SGR, '')
+}
+
+/** Render `chunks` and return the visible text of the output */
+function render (chunks: string[], columns = 80): string {
+    const renderer = new MarkdownRenderer(columns)
+    return plain(chunks.map(chunk => renderer.push(chunk)).join('') + renderer.finish())
+}
+
+const SAMPLE = [
+    '# Title',
+    '',
+    'Some **bold** and `code` with a [link](https://example.com).',
+    '',
+    '- one',
+    '  - two',
+    '1. first',
+    '- [x] done',
+    '',
+    '> quoted',
+    '',
+    '```ts',
+    'const a = 1',
+    '```',
+    '',
+    '| Name | Size |',
+    '|------|-----:|',
+    '| a    |    1 |',
+    '',
+    '---',
+    'end',
+].join('\n')
+
+describe('MarkdownRenderer', () => {
+    it('renders blocks and inline markup', () => {
+        assert.equal(render([SAMPLE]), [
+            'Title',
+            '',
+            'Some bold and code with a link (https://example.com).',
+            '',
+            '• one',
+            '  ◦ two',
+            '1. first',
+            '• ☑ done',
+            '',
+            '│ quoted',
+            '',
+            '─── ts ',
+            'const a = 1',
+            '───',
+            '',
+            '┌──────┬──────┐',
+            '│ Name │ Size │',
+            '├──────┼──────┤',
+            '│ a    │    1 │',
+            '└──────┴──────┘',
+            '',
+            '─'.repeat(80),
+            'end',
+        ].join('\r\n'))
+    })
+
+    it('renders the same however the text is chunked', () => {
+        const whole = render([SAMPLE])
+        assert.equal(render([...SAMPLE]), whole)
+        for (const size of [2, 3, 7, 13]) {
+            const chunks = SAMPLE.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g'))!
+            assert.equal(render(chunks), whole, `chunks of ${size}`)
+        }
+    })
+
+    it('streams paragraphs word by word', () => {
+        const renderer = new MarkdownRenderer()
+        assert.equal(plain(renderer.push('Hello wor')), 'Hello ')
+        assert.equal(plain(renderer.push('ld and')), 'world ')
+        assert.equal(plain(renderer.finish()), 'and')
+    })
+
+    it('holds back line starts, code lines and links until they are decided', () => {
+        const renderer = new MarkdownRenderer()
+        assert.equal(renderer.push('#'), '')
+        assert.equal(plain(renderer.push('# Heading\n```\ncode')), 'Heading\r\n───\r\n')
+        assert.equal(plain(renderer.push('\n```\nSee [docs')), 'code\r\n───\r\nSee ')
+        assert.equal(plain(renderer.push('](x) ')), 'docs (x) ')
+    })
+
+    it('wraps paragraphs and list items at the terminal width', () => {
+        // Spaces that fit stay at the end of a row
+        const rows = (text: string) => text.split('\r\n').map(row => row.trimEnd())
+        assert.deepEqual(rows(render(['one two three four five'], 10)), ['one two', 'three four', 'five'])
+        assert.deepEqual(rows(render(['- one two three four'], 10)), ['• one two', '  three', '  four'])
+    })
+
+    it('does not take snake_case for emphasis', () => {
+        const renderer = new MarkdownRenderer()
+        const output = renderer.push('call some_long_name now') + renderer.finish()
+        assert.equal(plain(output), 'call some_long_name now')
+        assert.ok(!output.includes('\x1b[0;32;3m'))
+    })
+})
@@ -0,0 +1,182 @@
+import * as assert from 'assert/strict'
+import { describe, it } from 'node:test'
+import type { ConfigService } from 'tabby-core'
+import type { AIPermissionRule } from '../src/api'
+import { isReadOnlyCommand, PermissionPolicy, PermissionRequest, SHELL_TOOL, splitCommand } from '../src/permissions'
+
+function makePolicy (rules: Partial<AIPermissionRule>[], autoApproveReadOnly = true): PermissionPolicy {
+    const config = {
+        store: {
+            ai: {
+                permissions: {
+                    autoApproveReadOnly,
+                    rules: rules.map(rule => ({ action: 'allow', tool: SHELL_TOOL, pattern: '', cwd: '', profileId: '', ...rule })),
+                },
+            },
+        },
+    }
+    return new PermissionPolicy(config as unknown as ConfigService, 'profile')
+}
+
+function shell (command: string, cwd = '/work'): PermissionRequest {
+    return {
+        tool: SHELL_TOOL,
+        subject: command,
+        description: command,
+        readOnly: isReadOnlyCommand(command),
+        cwd,
+    }
+}
+
+describe('splitCommand', () => {
+    it('splits at ;, &&, || and pipes', () => {
+        assert.deepEqual(splitCommand('git status && ls -la | head; pwd || true'), ['git status', 'ls -la', 'head', 'pwd', 'true'])
+    })
+
+    it('keeps separators inside quotes', () => {
+        assert.deepEqual(splitCommand('grep "a|b; c" file'), ['grep "a|b; c" file'])
+    })
+
+    it('gives up on substitutions, subshells, redirection and background jobs', () => {
+        for (const command of ['echo $(rm x)', 'echo `rm x`', 'echo "$(rm x)"', '(cd x)', 'ls > out', 'sleep 1 &', 'echo "open']) {
+            assert.equal(splitCommand(command), null, command)
+        }
+    })
+})
+
+describe('isReadOnlyCommand', () => {
+    it('accepts commands that only read', () => {
+        for (const command of ['ls -la', 'git status && git diff HEAD', 'cat a | grep b | sort | uniq -c', 'git -C sub log --oneline', 'git branch -a', 'git stash list', 'git grep -n foo', 'file -b x']) {
+            assert.ok(isReadOnlyCommand(command), command)
+        }
+    })
+
+    it('rejects commands that write or run something', () => {
+        for (const command of [
+            'rm -rf x',
+            'ls && rm x',
+            'find . -delete',
+            'find . -exec rm {} +',
+            'sort -o out in',
+            'uniq in out',
+            'git commit -m x',
+            'git branch new',
+            'git stash',
+            'git diff --output=x',
+            'git log --ext-diff',
+            'rg --pre=sh x',
+            'hostname other',
+            '',
+        ]) {
+            assert.ok(!isReadOnlyCommand(command), command)
+        }
+    })
+
+    it('rejects git grep opening files in a program', () => {
+        for (const command of ['git grep -Ovim foo', 'git grep -O vim foo', 'git grep -iOsh foo', 'git grep --open-files-in-pager=sh foo', 'git grep --open-files-in-pager foo']) {
+            assert.ok(!isReadOnlyCommand(command), command)
+        }
+    })
+
+    it('rejects reading secrets', () => {
+        for (const command of [
+            'cat ~/.ssh/id_rsa',
+            'cat .env',
+            'head -n 5 config/.ENV.local',
+            'grep token ~/.aws/credentials',
+            'tail "$HOME/.bash_history"',
+            'jq . --rawfile k=.netrc',
+            'echo $API_KEY',
+            'printf "%s" "${TOKEN}"',
+            'echo `id`',
+        ]) {
+            assert.ok(!isReadOnlyCommand(command), command)
+        }
+        for (const command of ['cat .envrc', 'grep \'^foo$\' file', 'echo \'$5\'']) {
+            assert.ok(isReadOnlyCommand(command), command)
+        }
+    })
+
+    it('rejects file compiling a magic file', () => {
+        for (const command of ['file -C -m magic', 'file -bC -m magic', 'file --compile -m magic']) {
+            assert.ok(!isReadOnlyCommand(command), command)
+        }
+    })
+})
+
+describe('PermissionPolicy', () => {
+    it('auto-approves read-only commands only when enabled', () => {
+        assert.equal(makePolicy([]).check(shell('ls')).action, 'allow')
+        assert.equal(makePolicy([], false).check(shell('ls')).action, 'ask')
+        assert.equal(makePolicy([]).check(shell('make')).action, 'ask')
+    })
+
+    it('matches globs against the whole command and regexes anywhere', () => {
+        assert.equal(makePolicy([{ pattern: 'make *' }]).check(shell('make build')).action, 'allow')
+        assert.equal(makePolicy([{ pattern: 'make' }]).check(shell('make build')).action, 'ask')
+        assert.equal(makePolicy([{ action: 'deny', pattern: '/rm\\s+-rf/' }]).check(shell('sudo rm -rf /')).action, 'deny')
+    })
+
+    it('needs allow rules to cover every part of a command line', () => {
+        const policy = makePolicy([{ pattern: 'make *' }])
+        assert.equal(policy.check(shell('make a && make b')).action, 'allow')
+        assert.equal(policy.check(shell('make a && curl x')).action, 'ask')
+    })
+
+    it('lets deny beat ask beat allow, on any part of a command line', () => {
+        const policy = makePolicy([
+            { action: 'allow', pattern: '*' },
+            { action: 'ask', pattern: 'npm *' },
+            { action: 'deny', pattern: 'rm *' },
+        ])
+        assert.equal(policy.check(shell('npm test')).action, 'ask')
+        assert.equal(policy.check(shell('npm test; rm x')).action, 'deny')
+        assert.equal(policy.check(shell('ls')).action, 'allow')
+    })
+
+    it('denies commands behind wrappers', () => {
+        const policy = makePolicy([{ action: 'deny', pattern: 'rm *' }])
+        for (const command of ['sudo rm -rf /', 'sudo -u root rm -rf /', 'env A=1 nice -n 5 rm x', 'time rm x', 'ls && sudo rm x']) {
+            assert.equal(policy.check(shell(command)).action, 'deny', command)
+        }
+        assert.equal(policy.check(shell('sudo ls')).action, 'ask')
+    })
+
+    it('denies commands inside substitutions and subshells', () => {
+        const policy = makePolicy([{ action: 'allow', pattern: '*' }, { action: 'deny', pattern: 'rm *' }, { action: 'deny', pattern: 'curl' }])
+        for (const command of ['echo $(rm -rf /)', 'echo "$(sudo rm x)"', '(cd /; rm -rf x)', 'echo `rm x`', 'ls > out; rm x', 'curl -s x > out']) {
+            assert.equal(policy.check(shell(command)).action, 'deny', command)
+        }
+        // Allow rules still can't cover what can't be split
+        assert.equal(policy.check(shell('echo $(date)')).action, 'ask')
+    })
+
+    it('does not allow wrapped commands by the rule for the command', () => {
+        assert.equal(makePolicy([{ pattern: 'make *' }]).check(shell('sudo make install')).action, 'ask')
+    })
+
+    it('limits rules to their tool, directory and profile', () => {
+        assert.equal(makePolicy([{ tool: 'write_file', pattern: '*' }]).check(shell('make')).action, 'ask')
+        assert.equal(makePolicy([{ tool: '*', pattern: '*' }]).check(shell('make')).action, 'allow')
+
+        const inDirectory = makePolicy([{ pattern: '*', cwd: '/work' }])
+        assert.equal(inDirectory.check(shell('make', '/work/sub')).action, 'allow')
+        assert.equal(inDirectory.check(shell('make', '/workshop')).action, 'ask')
+
+        assert.equal(makePolicy([{ pattern: '*', profileId: 'other' }]).check(shell('make')).action, 'ask')
+        assert.equal(makePolicy([{ pattern: '*', profileId: 'profile' }]).check(shell('make')).action, 'allow')
+    })
+
+    it('remembers calls allowed for the session, also those of a batch', () => {
+        const policy = makePolicy([], false)
+        policy.allowForSession({ ...shell('make'), batch: [shell('make a'), shell('make b')] })
+        assert.equal(policy.check(shell('make a')).action, 'allow')
+        assert.equal(policy.check(shell('make b')).action, 'allow')
+        assert.equal(policy.check(shell('make c')).action, 'ask')
+    })
+
+    it('allows trusted calls no rule decides', () => {
+        assert.equal(makePolicy([], false).check({ ...shell('make'), trusted: true }).action, 'allow')
+        assert.equal(makePolicy([{ action: 'deny', pattern: 'make' }]).check({ ...shell('make'), trusted: true }).action, 'deny')
+    })
+})
@@ -0,0 +1,56 @@
+import * as assert from 'assert/strict'
+import { describe, it } from 'node:test'
+import { ThinkSegment, ThinkTagSplitter } from '../src/thinkTags'
+
+/** Feed chunks one by one and merge adjacent segments of the same kind */
+function split (chunks: string[]): ThinkSegment[] {
+    const splitter = new ThinkTagSplitter()
+    const segments = [...chunks.flatMap(chunk => splitter.push(chunk)), ...splitter.flush()]
+    return segments.reduce<ThinkSegment[]>((merged, segment) => {
+        const last = merged[merged.length - 1] as ThinkSegment | undefined
+        if (last?.thought === segment.thought) {
+            last.text += segment.text
+        } else {
+            merged.push({ ...segment })
+        }
+        return merged
+    }, [])
+}
+
+describe('ThinkTagSplitter', () => {
+    it('passes text without tags through', () => {
+        assert.deepEqual(split(['Hello ', 'world']), [{ thought: false, text: 'Hello world' }])
+    })
+
+    it('separates reasoning from the answer', () => {
+        assert.deepEqual(split(['<think>Let me see.</think>The answer is 42.']), [
+            { thought: true, text: 'Let me see.' },
+            { thought: false, text: 'The answer is 42.' },
+        ])
+    })
+
+    it('finds tags split across chunks', () => {
+        const text = 'a<think>b</think>c'
+        for (let i = 1; i < text.length; i++) {
+            assert.deepEqual(split([text.slice(0, i), text.slice(i)]), [
+                { thought: false, text: 'a' },
+                { thought: true, text: 'b' },
+                { thought: false, text: 'c' },
+            ], `split at ${i}`)
+        }
+        assert.deepEqual(split([...text]), split([text]))
+    })
+
+    it('holds back a possible tag start until the next chunk', () => {
+        const splitter = new ThinkTagSplitter()
+        assert.deepEqual(splitter.push('a <thi'), [{ thought: false, text: 'a ' }])
+        assert.deepEqual(splitter.push('s'), [{ thought: false, text: '<this' }])
+    })
+
+    it('flushes held-back text when the stream ends', () => {
+        const splitter = new ThinkTagSplitter()
+        assert.deepEqual(splitter.push('<think>unfinished</thi'), [{ thought: true, text: 'unfinished' }])
+        assert.deepEqual(splitter.flush(), [{ thought: true, text: '</thi' }])
+        assert.deepEqual(splitter.flush(), [])
+    })
+})
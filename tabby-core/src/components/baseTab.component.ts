@@ -62,6 +62,12 @@ export abstract class BaseTabComponent extends BaseComponent {
 
     hasFocus = false
 
+    /**
+     * The token this tab was restored from by [[TabRecoveryService]], if any.
+     * Lets plugins pick up per-tab state they added in [[getRecoveryToken]].
+     */
+    recoveryToken: RecoveryToken|null = null
+
     /**
      * Ping this if your recovery state has been changed and you want
      * your tab state to be saved sooner
@@ -59,6 +59,7 @@ export class TabRecoveryService {
                 tab.inputs.title = token.tabTitle || ''
                 tab.inputs.customTitle = token.tabCustomTitle || ''
                 tab.inputs.disableDynamicTitle = token.disableDynamicTitle
+                tab.inputs.recoveryToken = token
                 return tab
             } catch (error) {
                 this.logger.warn('Tab recovery crashed:', token, provider, error)
@@ -12,3 +12,16 @@ export abstract class SettingsTabProvider {
         return null
     }
 }
+
+/**
+ * Extend to add fields to the editor of every profile type. The component
+ * gets the profile as stored in `profile`, so it can keep fields of its
+ * own there; its `save()` runs before the profile is saved.
+ */
+export abstract class ProfileEditorSectionProvider {
+    weight = 0
+
+    getComponentType (): any {
+        return null
+    }
+}
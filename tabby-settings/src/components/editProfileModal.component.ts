@@ -1,8 +1,9 @@
 /* eslint-disable @typescript-eslint/explicit-module-boundary-types */
 import { Observable, OperatorFunction, debounceTime, map, distinctUntilChanged } from 'rxjs'
-import { Component, Input, ViewChild, ViewContainerRef, ComponentFactoryResolver, Injector } from '@angular/core'
+import { Component, Input, ViewChild, ViewContainerRef, ComponentFactoryResolver, Injector, Inject, Optional } from '@angular/core'
 import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap'
 import { PartialProfileGroup, Profile, ProfileProvider, ProfileSettingsComponent, ProfilesService, TAB_COLORS, ProfileGroup, ConnectableProfileProvider, FullyDefined, ConfigProxy } from 'tabby-core'
+import { ProfileEditorSectionProvider } from '../api'
 
 const iconsData = require('../../../tabby-core/src/icons.json')
 const iconsClassList = Object.keys(iconsData).map(
@@ -23,15 +24,18 @@ export class EditProfileModalComponent<P extends Profile, PP extends ProfileProv
     @Input() profileGroup: PartialProfileGroup<ProfileGroup> | undefined
     groups: PartialProfileGroup<ProfileGroup>[]
     @ViewChild('placeholder', { read: ViewContainerRef }) placeholder: ViewContainerRef
+    @ViewChild('sections', { read: ViewContainerRef }) sectionsPlaceholder: ViewContainerRef
 
     protected profile: FullyDefined<P> & ConfigProxy<FullyDefined<P>>
     private settingsComponentInstance?: ProfileSettingsComponent<P, PP>
+    private sectionInstances: ProfileSettingsComponent<P, PP>[] = []
 
     constructor (
         private injector: Injector,
         private componentFactoryResolver: ComponentFactoryResolver,
         private profilesService: ProfilesService,
         private modalInstance: NgbActiveModal,
+        @Optional() @Inject(ProfileEditorSectionProvider) private sectionProviders: ProfileEditorSectionProvider[]|null,
     ) {
         if (this.defaultsMode === 'disabled') {
             this.profilesService.getProfileGroups().then(groups => {
@@ -70,6 +74,21 @@ export class EditProfileModalComponent<P extends Profile, PP extends ProfileProv
                 this.placeholder.insert(componentRef.hostView)
             })
         }
+
+        const sectionTypes = [...this.sectionProviders ?? []]
+            .sort((a, b) => a.weight - b.weight)
+            .map(provider => provider.getComponentType())
+            .filter(type => type)
+        setTimeout(() => {
+            for (const sectionType of sectionTypes) {
+                const componentRef = this.componentFactoryResolver.resolveComponentFactory(sectionType).create(this.injector)
+                const instance = componentRef.instance as ProfileSettingsComponent<P, PP>
+                // Sections keep fields the profile proxy doesn't know about
+                instance.profile = this._profile as FullyDefined<P>
+                this.sectionsPlaceholder.insert(componentRef.hostView)
+                this.sectionInstances.push(instance)
+            }
+        })
     }
 
     groupTypeahead: OperatorFunction<string, readonly PartialProfileGroup<ProfileGroup>[]> = (text$: Observable<string>) =>
@@ -95,6 +114,9 @@ export class EditProfileModalComponent<P extends Profile, PP extends ProfileProv
         }
 
         this.settingsComponentInstance?.save?.()
+        for (const section of this.sectionInstances) {
+            section.save?.()
+        }
         this.profile.__cleanup()
         this.modalInstance.close(this._profile)
     }